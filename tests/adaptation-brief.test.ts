@@ -0,0 +1,261 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  buildAdaptationBrief,
+  detectPackageManager,
+  detectPackageRunner,
+  formatBriefSummary,
+  readComponentsConfig,
+  resolveAliasDir,
+} from "../v0-setup/scripts/adaptation-brief.mjs";
+
+let projectDir: string;
+let designDir: string;
+
+function write(relativePath: string, content: string) {
+  const filePath = path.join(projectDir, relativePath);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+}
+
+const MANIFEST = {
+  featureName: "dashboard",
+  sourceUrl: "https://v0.app/chat/abc123XYZ",
+  chatId: "abc123XYZ",
+  versionId: "ver_002",
+  files: [
+    { name: "app/page.tsx", isCustom: true, encoding: "utf-8" },
+    { name: "components/ui/stat-card.tsx", isCustom: true, encoding: "utf-8" },
+    { name: "components/ui/button.tsx", isCustom: false, encoding: "utf-8" },
+    { name: "public/logo.png", isCustom: true, encoding: "binary" },
+  ],
+};
+
+beforeEach(() => {
+  projectDir = fs.mkdtempSync(path.join(os.tmpdir(), "brief-test-"));
+  designDir = path.join(projectDir, "designs", "dashboard", "v0-source");
+  write(
+    "designs/dashboard/v0-source/app/page.tsx",
+    [
+      'import { Button } from "@/components/ui/button";',
+      'import { Card } from "@/components/ui/card";',
+      'import { Tabs } from "@/components/ui/tabs";',
+      'import { StatCard } from "@/components/ui/stat-card";',
+      'import { TrendingUp } from "lucide-react";',
+    ].join("\n"),
+  );
+  write("designs/dashboard/v0-source/components/ui/stat-card.tsx", 'import { Card } from "@/components/ui/card";');
+  write("components/ui/button.tsx", "");
+  write("components/ui/card.tsx", "");
+  write("components.json", JSON.stringify({ aliases: { components: "@/components", ui: "@/components/ui" } }));
+});
+
+afterEach(() => {
+  fs.rmSync(projectDir, { recursive: true, force: true });
+});
+
+// ---------------------------------------------------------------------------
+// buildAdaptationBrief
+// ---------------------------------------------------------------------------
+
+describe("buildAdaptationBrief", () => {
+  it("reports existing and missing shadcn components with the install command", () => {
+    const brief = buildAdaptationBrief({ manifest: MANIFEST, designDir, projectDir, fs });
+
+    expect(brief.shadcn.existing).toEqual(["button", "card"]);
+    expect(brief.shadcn.missing).toEqual(["tabs"]);
+    expect(brief.shadcn.providedByDesign).toEqual(["stat-card"]);
+    expect(brief.shadcn.addCommand).toBe("pnpm dlx shadcn@latest add tabs");
+    expect(brief.imports.packages).toEqual([{ name: "lucide-react", importedBy: ["app/page.tsx"] }]);
+  });
+
+  it("only inventories custom text files", () => {
+    const brief = buildAdaptationBrief({ manifest: MANIFEST, designDir, projectDir, fs });
+
+    expect(brief.customFiles).toEqual(["app/page.tsx", "components/ui/stat-card.tsx"]);
+    expect(brief.unreadableFiles).toEqual([]);
+  });
+
+  it("has no install command when nothing is missing", () => {
+    write("components/ui/tabs.tsx", "");
+
+    const brief = buildAdaptationBrief({ manifest: MANIFEST, designDir, projectDir, fs });
+
+    expect(brief.shadcn.missing).toEqual([]);
+    expect(brief.shadcn.addCommand).toBeNull();
+  });
+
+  it("looks for components under src/ when the project uses it", () => {
+    fs.rmSync(path.join(projectDir, "components"), { recursive: true });
+    write("src/components/ui/tabs.tsx", "");
+
+    const brief = buildAdaptationBrief({ manifest: MANIFEST, designDir, projectDir, fs });
+
+    expect(brief.shadcn.existing).toEqual(["tabs"]);
+  });
+
+  it("lists custom files missing on disk as unreadable", () => {
+    const manifest = { ...MANIFEST, files: [...MANIFEST.files, { name: "app/gone.tsx", isCustom: true }] };
+
+    const brief = buildAdaptationBrief({ manifest, designDir, projectDir, fs });
+
+    expect(brief.unreadableFiles).toEqual(["app/gone.tsx"]);
+  });
+});
+
+describe("buildAdaptationBrief dependencies", () => {
+  beforeEach(() => {
+    write(
+      "designs/dashboard/v0-source/package.json",
+      JSON.stringify({ dependencies: { react: "^19.0.0", "lucide-react": "^0.454.0", recharts: "2.15.0" } }),
+    );
+    write("package.json", JSON.stringify({ dependencies: { react: "^18.3.1" } }));
+  });
+
+  it("compares v0's package.json with the project's", () => {
+    const brief = buildAdaptationBrief({ manifest: MANIFEST, designDir, projectDir, fs });
+
+    expect(brief.dependencies.conflicts).toEqual([
+      { name: "react", v0: "^19.0.0", project: "^18.3.1", importedBy: [] },
+    ]);
+    expect(brief.dependencies.missing.map((dep: { name: string }) => dep.name)).toEqual(["lucide-react", "recharts"]);
+    expect(brief.dependencies.install).toEqual(["lucide-react@^0.454.0"]);
+  });
+
+  it("builds the install command for the project's package manager", () => {
+    write("yarn.lock", "");
+
+    const brief = buildAdaptationBrief({ manifest: MANIFEST, designDir, projectDir, fs });
+
+    expect(brief.dependencies.installCommand).toBe("yarn add lucide-react@^0.454.0");
+  });
+
+  it("quotes ranges that contain spaces", () => {
+    write(
+      "designs/dashboard/v0-source/package.json",
+      JSON.stringify({ dependencies: { "lucide-react": ">=0.400 <1" } }),
+    );
+
+    const brief = buildAdaptationBrief({ manifest: MANIFEST, designDir, projectDir, fs });
+
+    expect(brief.dependencies.installCommand).toBe("pnpm add 'lucide-react@>=0.400 <1'");
+  });
+
+  it("has no install command when the project declares every import", () => {
+    write("package.json", JSON.stringify({ dependencies: { react: "^19.0.0", "lucide-react": "^0.454.0" } }));
+
+    const brief = buildAdaptationBrief({ manifest: MANIFEST, designDir, projectDir, fs });
+
+    expect(brief.dependencies.conflicts).toEqual([]);
+    expect(brief.dependencies.installCommand).toBeNull();
+  });
+});
+
+describe("buildAdaptationBrief theme", () => {
+  beforeEach(() => {
+    write(
+      "designs/dashboard/v0-source/app/globals.css",
+      ":root { --primary: oklch(0.2 0 0); --chart-1: oklch(0.6 0.2 41); }\n@theme inline { --color-chart-1: var(--chart-1); }",
+    );
+    write(
+      "designs/dashboard/v0-source/app/page.tsx",
+      'export default function Page() { return <div className="bg-primary fill-chart-1" />; }',
+    );
+  });
+
+  it("compares v0's globals.css with the project's", () => {
+    write("app/globals.css", ":root { --primary: oklch(0.3 0 0); }");
+
+    const brief = buildAdaptationBrief({ manifest: MANIFEST, designDir, projectDir, fs });
+
+    expect(brief.theme.v0Css).toBe("app/globals.css");
+    expect(brief.theme.projectCss).toBe("app/globals.css");
+    expect(brief.theme.different).toEqual([
+      { scope: "root", name: "--primary", v0: "oklch(0.2 0 0)", project: "oklch(0.3 0 0)" },
+    ]);
+    expect(brief.theme.undefinedTokens).toEqual([{ name: "chart-1", usedBy: ["app/page.tsx"] }]);
+  });
+
+  it("reads the project stylesheet named in components.json", () => {
+    write("components.json", JSON.stringify({ tailwind: { css: "src/styles/theme.css" } }));
+    write("src/styles/theme.css", ":root { --primary: oklch(0.2 0 0); --chart-1: oklch(0.6 0.2 41); }");
+
+    const brief = buildAdaptationBrief({ manifest: MANIFEST, designDir, projectDir, fs });
+
+    expect(brief.theme.projectCss).toBe("src/styles/theme.css");
+    expect(brief.theme.undefinedTokens).toEqual([]);
+  });
+
+  it("records a missing project stylesheet as null", () => {
+    const brief = buildAdaptationBrief({ manifest: MANIFEST, designDir, projectDir, fs });
+
+    expect(brief.theme.projectCss).toBeNull();
+    expect(brief.theme.missing.map((t: { name: string }) => t.name)).toEqual([
+      "--primary",
+      "--chart-1",
+      "--color-chart-1",
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+describe("readComponentsConfig", () => {
+  it("falls back to the default alias without components.json", () => {
+    fs.rmSync(path.join(projectDir, "components.json"));
+
+    expect(readComponentsConfig(projectDir, fs.readFileSync)).toEqual({
+      found: false,
+      uiAlias: "@/components/ui",
+      cssPath: null,
+    });
+  });
+
+  it("derives the ui alias from the components alias", () => {
+    write("components.json", JSON.stringify({ aliases: { components: "~/components" } }));
+
+    expect(readComponentsConfig(projectDir, fs.readFileSync).uiAlias).toBe("~/components/ui");
+  });
+});
+
+describe("resolveAliasDir", () => {
+  it("maps @/ to the project root", () => {
+    expect(resolveAliasDir(projectDir, "@/components/ui", fs.existsSync)).toBe(
+      path.join(projectDir, "components", "ui"),
+    );
+  });
+});
+
+describe("detectPackageRunner", () => {
+  it("picks the runner from the lockfile, defaulting to pnpm", () => {
+    expect(detectPackageRunner(projectDir, fs.existsSync)).toBe("pnpm dlx");
+    write("package-lock.json", "{}");
+    expect(detectPackageRunner(projectDir, fs.existsSync)).toBe("npx");
+    write("bun.lock", "");
+    expect(detectPackageRunner(projectDir, fs.existsSync)).toBe("bunx --bun");
+  });
+});
+
+describe("detectPackageManager", () => {
+  it("maps lockfiles to package managers", () => {
+    expect(detectPackageManager(projectDir, fs.existsSync)).toBe("pnpm");
+    write("yarn.lock", "");
+    expect(detectPackageManager(projectDir, fs.existsSync)).toBe("yarn");
+  });
+});
+
+describe("formatBriefSummary", () => {
+  it("summarizes components and the install command", () => {
+    const brief = buildAdaptationBrief({ manifest: MANIFEST, designDir, projectDir, fs });
+
+    const summary = formatBriefSummary(brief, "designs/dashboard/adaptation-brief.json");
+
+    expect(summary).toContain("shadcn components missing: tabs");
+    expect(summary).toContain("install: pnpm dlx shadcn@latest add tabs");
+    expect(summary).toContain("shipped by the design: stat-card");
+  });
+});
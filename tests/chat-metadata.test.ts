@@ -0,0 +1,94 @@
+import { describe, expect, it } from "bun:test";
+import {
+  featureNameFromTitle,
+  formatPromptHistory,
+  normalizeChatMetadata,
+} from "../v0-setup/scripts/chat-metadata.mjs";
+
+const CHAT = {
+  id: "mEnUngV39k5",
+  name: "Book advertising dashboard",
+  createdAt: "2024-01-14T07:55:00Z",
+  updatedAt: "2024-01-15T12:00:00Z",
+  latestVersion: { id: "ver_002", demoUrl: "https://demo-abc.vusercontent.net" },
+  messages: [
+    { role: "user", content: "Add a spend chart", createdAt: "2024-01-15T10:00:00Z" },
+    { role: "assistant", content: "Added the chart.", createdAt: "2024-01-15T10:01:00Z" },
+    { role: "user", content: "Build a dashboard for book ad campaigns", createdAt: "2024-01-14T07:55:00Z" },
+    { role: "user", content: "   ", createdAt: "2024-01-15T11:00:00Z" },
+  ],
+};
+
+describe("normalizeChatMetadata", () => {
+  it("keeps the title, timestamps, demo URL, and non-empty messages oldest first", () => {
+    const metadata = normalizeChatMetadata(CHAT);
+
+    expect(metadata).toMatchObject({
+      title: "Book advertising dashboard",
+      createdAt: "2024-01-14T07:55:00Z",
+      updatedAt: "2024-01-15T12:00:00Z",
+      demoUrl: "https://demo-abc.vusercontent.net",
+    });
+    expect(metadata.messages.map((m) => m.content)).toEqual([
+      "Build a dashboard for book ad campaigns",
+      "Add a spend chart",
+      "Added the chart.",
+    ]);
+  });
+
+  it("prefers title over name and tolerates missing fields", () => {
+    expect(normalizeChatMetadata({ title: "T", name: "N" }).title).toBe("T");
+    expect(normalizeChatMetadata({})).toEqual({
+      title: null,
+      createdAt: null,
+      updatedAt: null,
+      demoUrl: null,
+      webUrl: null,
+      messages: [],
+    });
+  });
+});
+
+describe("featureNameFromTitle", () => {
+  it("turns a title into a folder name", () => {
+    expect(featureNameFromTitle("Book Advertising Dashboard!")).toBe("book-advertising-dashboard");
+    expect(featureNameFromTitle("  Crème brûlée / menu  ")).toBe("creme-brulee-menu");
+    expect(featureNameFromTitle("a".repeat(80))).toHaveLength(60);
+  });
+
+  it("returns an empty string when nothing usable is left", () => {
+    expect(featureNameFromTitle("🚀")).toBe("");
+    expect(featureNameFromTitle(null)).toBe("");
+  });
+});
+
+describe("formatPromptHistory", () => {
+  const context = { featureName: "ads", sourceUrl: "https://v0.app/chat/mEnUngV39k5", versionId: "ver_002" };
+
+  it("renders the user prompts as markdown", () => {
+    expect(formatPromptHistory(normalizeChatMetadata(CHAT), context)).toBe(
+      [
+        "# Prompt history: Book advertising dashboard",
+        "",
+        "- Chat: https://v0.app/chat/mEnUngV39k5",
+        "- Demo: https://demo-abc.vusercontent.net",
+        "- Fetched version: ver_002",
+        "- Created: 2024-01-14T07:55:00Z",
+        "- Updated: 2024-01-15T12:00:00Z",
+        "",
+        "## Prompt 1 — 2024-01-14T07:55:00Z",
+        "",
+        "Build a dashboard for book ad campaigns",
+        "",
+        "## Prompt 2 — 2024-01-15T10:00:00Z",
+        "",
+        "Add a spend chart",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("returns null when the chat has no user prompts", () => {
+    expect(formatPromptHistory(normalizeChatMetadata({ title: "T" }), context)).toBeNull();
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, expect, it } from "bun:test";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  applyAuditFixes,
+  auditSource,
+  classifyClass,
+  findClassStrings,
+  formatAuditReport,
+  loadColorMapping,
+  splitClass,
+} from "../v0-setup/scripts/color-audit.mjs";
+
+const MAPPING = {
+  "bg-zinc-900": "bg-primary",
+  "bg-zinc-100": "bg-muted",
+  "text-white": "text-primary-foreground",
+  "text-[#3b82f6]": "text-primary",
+};
+
+const SOURCE = [
+  'import { cn } from "@/lib/utils";',
+  "export function Hero({ active, className }) {",
+  "  return (",
+  '    <section className="flex bg-zinc-900 p-[13px] text-[#3B82F6]">',
+  "      <p className={cn(",
+  '        "hover:bg-zinc-100/50 text-sm",',
+  '        active && "!text-white",',
+  "        className,",
+  "      )}>Don't stop</p>",
+  // A template literal with an interpolation: the interpolated part is not a class
+  "      <span className={`bg-emerald-500 $" + '{active ? "ring-2" : ""}`} />',
+  "    </section>",
+  "  );",
+  "}",
+].join("\n");
+
+// ---------------------------------------------------------------------------
+// splitClass / classifyClass
+// ---------------------------------------------------------------------------
+
+describe("splitClass", () => {
+  it("separates variants, including arbitrary ones, from the utility", () => {
+    expect(splitClass("md:hover:bg-zinc-900/80")).toEqual({
+      variants: "md:hover:",
+      leading: "",
+      utility: "bg-zinc-900/80",
+      trailing: "",
+    });
+    expect(splitClass("[&>svg:first-child]:text-red-500").variants).toBe("[&>svg:first-child]:");
+  });
+
+  it("recognizes v3 and v4 important markers", () => {
+    expect(splitClass("!bg-white")).toMatchObject({ leading: "!", utility: "bg-white" });
+    expect(splitClass("bg-white!")).toMatchObject({ utility: "bg-white", trailing: "!" });
+  });
+});
+
+describe("classifyClass", () => {
+  it("flags palette colors and suggests the mapped token, keeping variants and opacity", () => {
+    expect(classifyClass("dark:bg-zinc-900/80", MAPPING)).toEqual({
+      kind: "palette",
+      utility: "bg-zinc-900",
+      suggestion: "dark:bg-primary/80",
+    });
+    expect(classifyClass("text-white!", MAPPING)?.suggestion).toBe("text-primary-foreground!");
+  });
+
+  it("flags arbitrary colors, matching hex case-insensitively", () => {
+    expect(classifyClass("text-[#3B82F6]", MAPPING)).toEqual({
+      kind: "arbitrary-color",
+      utility: "text-[#3B82F6]",
+      suggestion: "text-primary",
+    });
+    expect(classifyClass("bg-[oklch(0.6_0.2_250)]")?.kind).toBe("arbitrary-color");
+  });
+
+  it("flags arbitrary spacing without a suggestion unless mapped", () => {
+    expect(classifyClass("-mt-[3px]")).toEqual({ kind: "arbitrary-spacing", utility: "-mt-[3px]", suggestion: null });
+  });
+
+  it("ignores semantic tokens and non-color utilities", () => {
+    for (const className of [
+      "bg-primary",
+      "text-sm",
+      "border-2",
+      "p-4",
+      "text-muted-foreground",
+      "w-[calc(100%-2rem)]",
+    ]) {
+      expect(classifyClass(className, MAPPING)).toBeNull();
+    }
+  });
+});
+
+// ---------------------------------------------------------------------------
+// findClassStrings / auditSource
+// ---------------------------------------------------------------------------
+
+describe("findClassStrings", () => {
+  it("only returns string literals in className values and cn() calls", () => {
+    const strings = findClassStrings(SOURCE).map(({ start, end }) => SOURCE.slice(start, end));
+
+    expect(strings).toContain("flex bg-zinc-900 p-[13px] text-[#3B82F6]");
+    expect(strings).toContain("hover:bg-zinc-100/50 text-sm");
+    expect(strings).not.toContain("@/lib/utils");
+  });
+});
+
+describe("auditSource", () => {
+  it("reports each hard-coded class with its line and column", () => {
+    const findings = auditSource(SOURCE, MAPPING);
+
+    expect(findings.map((f) => [f.line, f.column, f.className, f.suggestion])).toEqual([
+      [4, 30, "bg-zinc-900", "bg-primary"],
+      [4, 42, "p-[13px]", null],
+      [4, 51, "text-[#3B82F6]", "text-primary"],
+      [6, 10, "hover:bg-zinc-100/50", "hover:bg-muted/50"],
+      [7, 20, "!text-white", "!text-primary-foreground"],
+      [10, 25, "bg-emerald-500", null],
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// applyAuditFixes
+// ---------------------------------------------------------------------------
+
+describe("applyAuditFixes", () => {
+  it("rewrites mapped classes and leaves the rest untouched", () => {
+    const { content, fixed } = applyAuditFixes(SOURCE, auditSource(SOURCE, MAPPING));
+
+    expect(fixed).toBe(4);
+    expect(content).toContain('className="flex bg-primary p-[13px] text-primary"');
+    expect(content).toContain('"hover:bg-muted/50 text-sm"');
+    expect(content).toContain('active && "!text-primary-foreground"');
+    expect(content).toContain("Don't stop");
+    expect(auditSource(content, MAPPING).map((f) => f.className)).toEqual(["p-[13px]", "bg-emerald-500"]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// loadColorMapping
+// ---------------------------------------------------------------------------
+
+describe("loadColorMapping", () => {
+  it("loads the default mapping", () => {
+    const mapping = loadColorMapping();
+
+    expect(mapping["bg-white"]).toBe("bg-background");
+    expect(mapping["text-zinc-500"]).toBe("text-muted-foreground");
+  });
+
+  it("merges a custom mapping over the defaults", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "color-mapping-test-"));
+    const customPath = path.join(dir, "mapping.json");
+    fs.writeFileSync(
+      customPath,
+      JSON.stringify({
+        $comment: "brand",
+        "bg-white": null,
+        "bg-blue-600": "bg-brand",
+        "text-zinc-500": "text-subtle",
+      }),
+    );
+
+    try {
+      const mapping = loadColorMapping(customPath);
+      expect(mapping["bg-white"]).toBeUndefined();
+      expect(mapping["bg-blue-600"]).toBe("bg-brand");
+      expect(mapping["text-zinc-500"]).toBe("text-subtle");
+      expect(mapping.$comment).toBeUndefined();
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("throws a clear error for a missing mapping file", () => {
+    expect(() => loadColorMapping("/nonexistent/mapping.json")).toThrow(/Color mapping not found/);
+  });
+
+  it("reports invalid JSON only for files it could read", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "color-mapping-test-"));
+    const customPath = path.join(dir, "mapping.json");
+    fs.writeFileSync(customPath, "{ not json");
+
+    try {
+      expect(() => loadColorMapping(customPath)).toThrow(/mapping\.json is not valid JSON/);
+      // A directory fails to read with EISDIR, which is rethrown as is
+      expect(() => loadColorMapping(dir)).toThrow(expect.objectContaining({ code: "EISDIR" }));
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("formatAuditReport", () => {
+  it("lists findings with their locations and suggestions", () => {
+    const report = formatAuditReport(
+      "hero",
+      [
+        { file: "app/page.tsx", line: 4, column: 30, className: "bg-zinc-900", suggestion: "bg-primary" },
+        { file: "app/page.tsx", line: 4, column: 42, className: "p-[13px]", suggestion: null },
+      ],
+      { fixed: 2 },
+    );
+
+    expect(report.split("\n")).toEqual([
+      "hero: 2 hard-coded classes, 1 with a semantic replacement, fixed 2",
+      "  app/page.tsx:4:30  bg-zinc-900 → bg-primary",
+      "  app/page.tsx:4:42  p-[13px] (no mapping)",
+    ]);
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, expect, it } from "bun:test";
+import {
+  DEFAULT_V0_API_BASE,
+  findConfigFile,
+  loadProjectConfig,
+  resolveSettings,
+} from "../v0-setup/scripts/config.mjs";
+
+/**
+ * In-memory filesystem: existsSync and readFileSync over a path → content map.
+ */
+function makeFs(files: Record<string, string>) {
+  return {
+    existsSync: (path: string) => path in files,
+    readFileSync: (path: string) => {
+      if (!(path in files)) {
+        const err = new Error(`ENOENT: ${path}`) as Error & { code: string };
+        err.code = "ENOENT";
+        throw err;
+      }
+      return files[path];
+    },
+  };
+}
+
+const NO_CLI = {
+  outputDir: null,
+  designsDir: null,
+  apiBaseUrl: null,
+  include: [],
+  exclude: [],
+  placeholderRules: null,
+};
+
+describe("findConfigFile", () => {
+  it("walks up to the nearest config, preferring .v0setup.json within a directory", () => {
+    const fs = makeFs({ "/repo/ateam.config.json": "{}", "/repo/.v0setup.json": "{}", "/ateam.config.json": "{}" });
+
+    expect(findConfigFile("/repo/apps/web", fs.existsSync)).toBe("/repo/.v0setup.json");
+  });
+
+  it("returns null when there is none up to the root", () => {
+    expect(findConfigFile("/repo/apps/web", makeFs({}).existsSync)).toBeNull();
+  });
+});
+
+describe("loadProjectConfig", () => {
+  it("reads the v0 section of ateam.config.json and resolves paths against its directory", () => {
+    const fs = makeFs({
+      "/repo/ateam.config.json": JSON.stringify({
+        lint: {},
+        v0: { outputDir: "apps/web", designsDir: "ui-designs", placeholderRules: "config/rules.json" },
+      }),
+    });
+
+    const { path, config } = loadProjectConfig(null, "/repo/apps/web/src", fs);
+
+    expect(path).toBe("/repo/ateam.config.json");
+    expect(config).toEqual({
+      outputDir: "/repo/apps/web",
+      designsDir: "ui-designs",
+      placeholderRules: "/repo/config/rules.json",
+    });
+  });
+
+  it("treats an ateam.config.json without a v0 section as empty", () => {
+    const fs = makeFs({ "/repo/ateam.config.json": JSON.stringify({ lint: {} }) });
+
+    expect(loadProjectConfig(null, "/repo", fs).config).toEqual({});
+  });
+
+  it("reads the whole of an explicit .v0setup.json relative to the working directory", () => {
+    const fs = makeFs({ "/repo/team/.v0setup.json": JSON.stringify({ apiKeyEnv: "TEAM_V0_KEY" }) });
+
+    const { path, config } = loadProjectConfig("team/.v0setup.json", "/repo", fs);
+
+    expect(path).toBe("/repo/team/.v0setup.json");
+    expect(config).toEqual({ apiKeyEnv: "TEAM_V0_KEY" });
+  });
+
+  it("returns an empty config when no file is found", () => {
+    expect(loadProjectConfig(null, "/repo", makeFs({}))).toEqual({ path: null, config: {} });
+  });
+
+  it("throws when an explicit config file is missing", () => {
+    expect(() => loadProjectConfig("missing.json", "/repo", makeFs({}))).toThrow(
+      /Config file not found: \/repo\/missing\.json/,
+    );
+  });
+
+  it("rejects invalid JSON, unknown keys, wrong types, and a designs folder outside the output directory", () => {
+    const load = (content: string) => () =>
+      loadProjectConfig(null, "/repo", makeFs({ "/repo/.v0setup.json": content }));
+
+    expect(load("{ nope")).toThrow(/not valid JSON/);
+    expect(load(JSON.stringify({ outputdir: "x" }))).toThrow(/unknown v0 config key "outputdir"/);
+    expect(load(JSON.stringify({ include: "*.tsx" }))).toThrow(/"include" must be an array of glob strings/);
+    expect(load(JSON.stringify({ placeholderRules: 3 }))).toThrow(/"placeholderRules" must be/);
+    expect(load(JSON.stringify({ designsDir: "../designs" }))).toThrow(/must be a relative path inside/);
+  });
+});
+
+describe("resolveSettings", () => {
+  it("falls back to the defaults and the working directory", () => {
+    expect(resolveSettings(NO_CLI, {}, {}, "/repo")).toEqual({
+      apiBaseUrl: DEFAULT_V0_API_BASE,
+      apiKeyEnv: "V0_API_KEY",
+      outputDir: "/repo",
+      designsDir: "designs",
+      include: [],
+      exclude: [],
+      placeholderRulesPath: null,
+      configuredPlaceholderRules: null,
+    });
+  });
+
+  it("applies CLI flags over env over config", () => {
+    const config = {
+      apiBaseUrl: "https://config.example/v1",
+      apiKeyEnv: "CONFIG_KEY",
+      outputDir: "/repo/config-out",
+      designsDir: "config-designs",
+    };
+    const env = { V0_API_BASE_URL: "https://env.example/v1/", V0_SETUP_DESIGNS_DIR: "env-designs" };
+    const cli = { ...NO_CLI, designsDir: "cli-designs" };
+
+    expect(resolveSettings(cli, env, config, "/repo")).toMatchObject({
+      apiBaseUrl: "https://env.example/v1",
+      apiKeyEnv: "CONFIG_KEY",
+      outputDir: "/repo/config-out",
+      designsDir: "cli-designs",
+    });
+  });
+
+  it("replaces the configured include/exclude patterns when the CLI gives any", () => {
+    const config = { include: ["app/**"], exclude: ["**/*.test.tsx"] };
+
+    expect(resolveSettings(NO_CLI, {}, config, "/repo")).toMatchObject(config);
+    expect(resolveSettings({ ...NO_CLI, include: ["components/**"] }, {}, config, "/repo")).toMatchObject({
+      include: ["components/**"],
+      exclude: ["**/*.test.tsx"],
+    });
+  });
+
+  it("passes inline rules through and lets --placeholder-rules override a configured rules file", () => {
+    const rules = [{ id: "todo-stub", severity: "error" }];
+
+    expect(resolveSettings(NO_CLI, {}, { placeholderRules: rules }, "/repo").configuredPlaceholderRules).toBe(rules);
+    expect(resolveSettings(NO_CLI, {}, { placeholderRules: "/repo/rules.json" }, "/repo").placeholderRulesPath).toBe(
+      "/repo/rules.json",
+    );
+    const cli = { ...NO_CLI, placeholderRules: "cli-rules.json" };
+    expect(resolveSettings(cli, {}, { placeholderRules: rules }, "/repo")).toMatchObject({
+      placeholderRulesPath: "cli-rules.json",
+      configuredPlaceholderRules: null,
+    });
+  });
+
+  it("rejects a designs folder from the CLI or env that escapes the output directory", () => {
+    expect(() => resolveSettings({ ...NO_CLI, designsDir: "/abs/designs" }, {}, {}, "/repo")).toThrow(
+      /must be a relative path inside/,
+    );
+    expect(() => resolveSettings(NO_CLI, { V0_SETUP_DESIGNS_DIR: "../up" }, {}, "/repo")).toThrow(
+      /must be a relative path inside/,
+    );
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, expect, it } from "bun:test";
+import { formatMissingApiKey, parseDotenv, resolveApiKey } from "../v0-setup/scripts/credentials.mjs";
+
+const KEY = "v0-secret-key-1234";
+
+/**
+ * readFileSync over a path → content map; missing paths throw ENOENT.
+ */
+function makeFs(files: Record<string, string>) {
+  return {
+    readFileSync: (path: string) => {
+      if (!(path in files)) {
+        const err = new Error(`ENOENT: ${path}`) as Error & { code: string };
+        err.code = "ENOENT";
+        throw err;
+      }
+      return files[path];
+    },
+  };
+}
+
+describe("parseDotenv", () => {
+  it("reads plain, exported, quoted, and commented assignments", () => {
+    const vars = parseDotenv(
+      [
+        "# v0",
+        "V0_API_KEY=plain",
+        "export EXPORTED = spaced # trailing comment",
+        'DOUBLE="has # hash\\nand newline"',
+        "SINGLE='raw\\n'",
+        "",
+        "not an assignment",
+      ].join("\n"),
+    );
+
+    expect(vars).toEqual({
+      V0_API_KEY: "plain",
+      EXPORTED: "spaced",
+      DOUBLE: "has # hash\nand newline",
+      SINGLE: "raw\\n",
+    });
+  });
+
+  it("handles CRLF line endings", () => {
+    expect(parseDotenv("A=1\r\nB=2\r\n")).toEqual({ A: "1", B: "2" });
+  });
+});
+
+describe("resolveApiKey", () => {
+  const projectDirs = ["/repo", "/repo/apps/web"];
+
+  it("prefers the shell environment", () => {
+    const fs = makeFs({ "/repo/.env": "V0_API_KEY=from-dotenv" });
+
+    const result = resolveApiKey("V0_API_KEY", { env: { V0_API_KEY: KEY }, projectDirs }, fs);
+
+    expect(result.apiKey).toBe(KEY);
+    expect(result.source).toBe("shell environment ($V0_API_KEY)");
+  });
+
+  it("falls back to .claude/settings.local.json before .env", () => {
+    const fs = makeFs({
+      "/repo/.env": "V0_API_KEY=from-dotenv",
+      "/repo/apps/web/.claude/settings.local.json": JSON.stringify({ env: { V0_API_KEY: KEY } }),
+    });
+
+    const result = resolveApiKey("V0_API_KEY", { env: { V0_API_KEY: "  " }, projectDirs }, fs);
+
+    expect(result.apiKey).toBe(KEY);
+    expect(result.source).toBe("/repo/apps/web/.claude/settings.local.json");
+  });
+
+  it("reads .env when no settings file has the key", () => {
+    const fs = makeFs({
+      "/repo/.claude/settings.local.json": JSON.stringify({ env: { OTHER: "x" } }),
+      "/repo/.env": `TEAM_V0_KEY="${KEY}"`,
+    });
+
+    const result = resolveApiKey("TEAM_V0_KEY", { env: {}, projectDirs }, fs);
+
+    expect(result.apiKey).toBe(KEY);
+    expect(result.source).toBe("/repo/.env");
+  });
+
+  it("lists every place it looked when the key is missing", () => {
+    const fs = makeFs({
+      "/repo/.claude/settings.local.json": "{ not json",
+      "/repo/.env": "OTHER=1",
+    });
+
+    const result = resolveApiKey("V0_API_KEY", { env: {}, projectDirs: ["/repo", "/repo/"] }, fs);
+
+    expect(result.apiKey).toBeNull();
+    expect(result.searched).toEqual([
+      { source: "shell environment ($V0_API_KEY)", status: "not set" },
+      { source: "/repo/.claude/settings.local.json", status: "not valid JSON" },
+      { source: "/repo/.env", status: "no V0_API_KEY=" },
+    ]);
+  });
+
+  it("reports the source without the key value", () => {
+    const fs = makeFs({ "/repo/.env": `V0_API_KEY=${KEY}` });
+    const result = resolveApiKey("V0_API_KEY", { env: {}, projectDirs: ["/repo"] }, fs);
+
+    expect(JSON.stringify({ source: result.source, searched: result.searched })).not.toContain(KEY);
+  });
+
+  it("rethrows read errors other than a missing file", () => {
+    const fs = {
+      readFileSync: () => {
+        const err = new Error("EACCES: permission denied") as Error & { code: string };
+        err.code = "EACCES";
+        throw err;
+      },
+    };
+
+    expect(() => resolveApiKey("V0_API_KEY", { env: {}, projectDirs: ["/repo"] }, fs)).toThrow(/EACCES/);
+  });
+});
+
+describe("formatMissingApiKey", () => {
+  it("names each source and how to set the key", () => {
+    const message = formatMissingApiKey("V0_API_KEY", [
+      { source: "shell environment ($V0_API_KEY)", status: "not set" },
+      { source: "/repo/.env", status: "file not found" },
+    ]);
+
+    expect(message).toContain("No V0_API_KEY found. Looked in:");
+    expect(message).toContain("  - shell environment ($V0_API_KEY): not set");
+    expect(message).toContain("  - /repo/.env: file not found");
+    expect(message).toContain('under "env" in .claude/settings.local.json');
+  });
+});
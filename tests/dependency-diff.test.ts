@@ -0,0 +1,150 @@
+import { describe, expect, it } from "bun:test";
+import {
+  collectDependencies,
+  diffDependencies,
+  formatDependencySummary,
+  releaseLineOf,
+} from "../v0-setup/scripts/dependency-diff.mjs";
+
+// ---------------------------------------------------------------------------
+// releaseLineOf
+// ---------------------------------------------------------------------------
+
+describe("releaseLineOf", () => {
+  it("returns the major version of common range forms", () => {
+    expect(releaseLineOf("^19.0.0")).toBe("19");
+    expect(releaseLineOf("~4.1")).toBe("4");
+    expect(releaseLineOf("18.x")).toBe("18");
+    expect(releaseLineOf(">=18 <20")).toBe("18");
+    expect(releaseLineOf("3")).toBe("3");
+    expect(releaseLineOf("npm:react@18.3.1")).toBe("18");
+  });
+
+  it("treats 0.x minors as separate release lines", () => {
+    expect(releaseLineOf("^0.4.2")).toBe("0.4");
+    expect(releaseLineOf("0.x")).toBe("0");
+  });
+
+  it("returns null for ranges that don't pin a version", () => {
+    expect(releaseLineOf("latest")).toBeNull();
+    expect(releaseLineOf("*")).toBeNull();
+    expect(releaseLineOf("workspace:*")).toBeNull();
+    expect(releaseLineOf("github:user/repo#v2")).toBeNull();
+    expect(releaseLineOf("user/repo")).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// collectDependencies
+// ---------------------------------------------------------------------------
+
+describe("collectDependencies", () => {
+  it("merges dependency fields, preferring runtime ranges", () => {
+    const deps = collectDependencies({
+      dependencies: { react: "^19.0.0" },
+      devDependencies: { react: "^18.0.0", typescript: "^5" },
+    });
+
+    expect([...deps]).toEqual([
+      ["react", "^19.0.0"],
+      ["typescript", "^5"],
+    ]);
+  });
+
+  it("returns an empty map for a missing package.json", () => {
+    expect(collectDependencies(null).size).toBe(0);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// diffDependencies
+// ---------------------------------------------------------------------------
+
+describe("diffDependencies", () => {
+  const v0Package = {
+    dependencies: {
+      react: "^19.0.0",
+      recharts: "2.15.0",
+      "lucide-react": "^0.454.0",
+      "date-fns": "latest",
+      zod: "^3.24.1",
+    },
+    devDependencies: { tailwindcss: "^4.1.9" },
+  };
+  const projectPackage = {
+    dependencies: { react: "^18.3.1", "lucide-react": "^0.454.0" },
+    devDependencies: { tailwindcss: "^3.4.1" },
+  };
+
+  it("reports major-version conflicts with the packages' importers", () => {
+    const result = diffDependencies({
+      v0Package,
+      projectPackage,
+      importedPackages: [{ name: "react", importedBy: ["app/page.tsx"] }],
+    });
+
+    expect(result.conflicts).toEqual([
+      { name: "react", v0: "^19.0.0", project: "^18.3.1", importedBy: ["app/page.tsx"] },
+      { name: "tailwindcss", v0: "^4.1.9", project: "^3.4.1", importedBy: [] },
+    ]);
+  });
+
+  it("reports packages v0 declares that the project lacks", () => {
+    const result = diffDependencies({ v0Package, projectPackage });
+
+    expect(result.missing.map((dep) => dep.name)).toEqual(["date-fns", "recharts", "zod"]);
+  });
+
+  it("suggests installing only missing packages the custom files import", () => {
+    const result = diffDependencies({
+      v0Package,
+      projectPackage,
+      importedPackages: [
+        { name: "date-fns", importedBy: ["components/calendar.tsx"] },
+        { name: "lucide-react", importedBy: ["app/page.tsx"] },
+        { name: "recharts", importedBy: ["components/chart.tsx"] },
+        { name: "framer-motion", importedBy: ["app/page.tsx"] },
+      ],
+    });
+
+    expect(result.undeclared).toEqual([{ name: "framer-motion", importedBy: ["app/page.tsx"] }]);
+    expect(result.install).toEqual(["date-fns", "recharts@2.15.0", "framer-motion"]);
+  });
+
+  it("treats every import as undeclared without a v0 package.json", () => {
+    const result = diffDependencies({
+      v0Package: null,
+      projectPackage,
+      importedPackages: [
+        { name: "react", importedBy: ["app/page.tsx"] },
+        { name: "recharts", importedBy: ["app/page.tsx"] },
+      ],
+    });
+
+    expect(result.missing).toEqual([]);
+    expect(result.conflicts).toEqual([]);
+    expect(result.install).toEqual(["recharts"]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// formatDependencySummary
+// ---------------------------------------------------------------------------
+
+describe("formatDependencySummary", () => {
+  it("lists conflicts and the install command", () => {
+    const lines = formatDependencySummary(
+      { conflicts: [{ name: "react", v0: "^19.0.0", project: "^18.3.1" }], install: ["recharts@2.15.0"] },
+      "pnpm add recharts@2.15.0",
+    );
+
+    expect(lines).toEqual([
+      "  version conflict: react — v0 uses ^19.0.0, project has ^18.3.1",
+      "  install packages: pnpm add recharts@2.15.0",
+    ]);
+  });
+
+  it("says so when nothing needs installing", () => {
+    expect(formatDependencySummary({ conflicts: [], install: [] }, null)).toEqual(["  packages to install: none"]);
+  });
+});
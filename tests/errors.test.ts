@@ -0,0 +1,150 @@
+import { describe, expect, it } from "bun:test";
+import {
+  AuthError,
+  createRedactingConsole,
+  createRedactingStream,
+  createRedactor,
+  EXIT_CODES,
+  exitCodeFor,
+  formatFatalError,
+  httpError,
+  InvalidInputError,
+  LocalEditsError,
+  NotFoundError,
+  PlaceholderOnlyError,
+  RateLimitError,
+  V0SetupError,
+  ZipSafetyError,
+} from "../v0-setup/scripts/errors.mjs";
+
+describe("typed errors", () => {
+  it("give each kind its own exit code", () => {
+    const errors = [
+      new InvalidInputError("bad flag"),
+      new AuthError("no key"),
+      new NotFoundError("no chat"),
+      new RateLimitError("slow down"),
+      new ZipSafetyError("zip slip"),
+      new PlaceholderOnlyError("stubs"),
+      new LocalEditsError("edited"),
+    ];
+
+    expect(errors.map((e) => [e.kind, e.exitCode])).toEqual([
+      ["invalid-input", 2],
+      ["auth", 3],
+      ["not-found", 4],
+      ["rate-limited", 5],
+      ["zip-safety", 6],
+      ["placeholder-only", 7],
+      ["local-edits", 9],
+    ]);
+    expect(new Set(Object.values(EXIT_CODES)).size).toBe(Object.keys(EXIT_CODES).length);
+    for (const error of errors) {
+      expect(error).toBeInstanceOf(V0SetupError);
+      expect(error).toBeInstanceOf(Error);
+    }
+  });
+
+  it("maps API statuses with httpError", () => {
+    expect(httpError(401, "x")).toBeInstanceOf(AuthError);
+    expect(httpError(403, "x")).toBeInstanceOf(AuthError);
+    expect(httpError(404, "x")).toBeInstanceOf(NotFoundError);
+    expect(httpError(429, "x")).toBeInstanceOf(RateLimitError);
+    const serverError = httpError(502, "Bad gateway");
+    expect([serverError.kind, serverError.exitCode, serverError.details]).toEqual(["api", 8, { status: 502 }]);
+  });
+
+  it("exits 1 for untyped errors", () => {
+    expect(exitCodeFor(new Error("boom"))).toBe(1);
+    expect(exitCodeFor(new ZipSafetyError("x"))).toBe(6);
+  });
+});
+
+describe("formatFatalError", () => {
+  it("prints the message as text by default", () => {
+    expect(formatFatalError(new NotFoundError("Chat not found"))).toBe("Fatal error: Chat not found");
+  });
+
+  it("prints one JSON line with kind, exit code, message, and details under --json", () => {
+    const line = formatFatalError(httpError(429, "Rate limited"), { json: true });
+
+    expect(line).not.toContain("\n");
+    expect(JSON.parse(line)).toEqual({
+      error: { kind: "rate-limited", exitCode: 5, message: "Rate limited", details: { status: 429 } },
+    });
+    expect(JSON.parse(formatFatalError(new Error("boom"), { json: true })).error).toEqual({
+      kind: "failure",
+      exitCode: 1,
+      message: "boom",
+      details: {},
+    });
+  });
+});
+
+describe("createRedactor", () => {
+  it("strips registered secrets, bearer tokens, and secret-looking assignments", () => {
+    const { addSecret, redact } = createRedactor();
+    addSecret("v1-literal-secret-value");
+
+    expect(redact("key v1-literal-secret-value leaked")).toBe("key [REDACTED] leaked");
+    expect(redact("Authorization: Bearer abc.def-123")).toBe("Authorization: Bearer [REDACTED]");
+    expect(redact("V0_API_KEY=sk_live_abc other")).toBe("V0_API_KEY=[REDACTED] other");
+    expect(redact('{"apiKey": "zzz"}')).toBe('{"apiKey": "[REDACTED]"}');
+  });
+
+  it("keeps version ids, chat slugs, hashes, and file names", () => {
+    const { redact } = createRedactor();
+    const hash = "ab12".repeat(16);
+
+    expect(redact("Selected version b_Xy12Ab34Cd56Ef78Gh90IjKlMnOpQrSt")).toBe(
+      "Selected version b_Xy12Ab34Cd56Ef78Gh90IjKlMnOpQrSt",
+    );
+    expect(redact("Chat book-advertising-dashboard-Ab12Cd34Ef not found")).toBe(
+      "Chat book-advertising-dashboard-Ab12Cd34Ef not found",
+    );
+    expect(redact(`sha256 ${hash}`)).toBe(`sha256 ${hash}`);
+    expect(redact("components/DashboardOverviewChartWithFilters2.tsx")).toBe(
+      "components/DashboardOverviewChartWithFilters2.tsx",
+    );
+  });
+
+  it("ignores secrets too short to redact safely", () => {
+    const { addSecret, redact } = createRedactor();
+    addSecret("abc");
+    addSecret(null);
+
+    expect(redact("abc def")).toBe("abc def");
+  });
+});
+
+describe("createRedactingConsole", () => {
+  it("redacts every argument before logging", () => {
+    const lines: string[] = [];
+    const target = {
+      log: (...args: unknown[]) => lines.push(args.join(" ")),
+      error: (...args: unknown[]) => lines.push(args.join(" ")),
+      warn: (...args: unknown[]) => lines.push(args.join(" ")),
+    };
+    const redactor = createRedactor();
+    redactor.addSecret("super-secret-key");
+    const redacting = createRedactingConsole(target, redactor.redact);
+
+    redacting.log("using", "super-secret-key");
+    redacting.error("Bearer token123");
+
+    expect(lines).toEqual(["using [REDACTED]", "Bearer [REDACTED]"]);
+  });
+});
+
+describe("createRedactingStream", () => {
+  it("redacts every write", () => {
+    const writes: string[] = [];
+    const redactor = createRedactor();
+    redactor.addSecret("super-secret-key");
+    const stream = createRedactingStream({ write: (text: string) => writes.push(text) }, redactor.redact);
+
+    stream.write("\rFetching super-secret-key\x1b[K");
+
+    expect(writes).toEqual(["\rFetching [REDACTED]\x1b[K"]);
+  });
+});
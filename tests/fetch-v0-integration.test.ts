@@ -1,17 +1,40 @@
-import { describe, expect, it } from "bun:test";
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { createHash } from "node:crypto";
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { strToU8, zipSync } from "fflate";
+import { MANIFEST_SCHEMA_VERSION, validateManifest } from "../v0-setup/scripts/manifest.mjs";
+import { createV0Client } from "../v0-setup/scripts/v0-client.mjs";
+import { hasDrifted, verifyDesign } from "../v0-setup/scripts/verify.mjs";
 
 // runPipeline does not exist yet. We use a dynamic import wrapper so the
 // test file loads even when the export is missing. Each test will fail with
 // "runPipeline is not a function" until B.A. implements and exports it.
 let runPipeline: (options: Record<string, unknown>, deps: Record<string, unknown>) => Promise<Record<string, unknown>>;
+let runSyncCommand: (
+  options: Record<string, unknown>,
+  deps: Record<string, unknown>,
+) => Promise<{ replayed: string[]; mismatched: string[] }>;
 
 try {
   const mod = await import("../v0-setup/scripts/fetch-v0.mjs");
   runPipeline = (mod as Record<string, unknown>).runPipeline as typeof runPipeline;
+  runSyncCommand = (mod as Record<string, unknown>).runSyncCommand as typeof runSyncCommand;
 } catch {
   // Module loaded but runPipeline not exported — assign undefined so tests
   // fail with a clear "not a function" error per test case.
   runPipeline = undefined as unknown as typeof runPipeline;
+  runSyncCommand = undefined as unknown as typeof runSyncCommand;
 }
 
 // ---------------------------------------------------------------------------
@@ -46,60 +69,96 @@ const EXTRACTED_FILES = [
 
 const CUSTOM_FILE_NAMES = ["app/page.tsx", "components/chart.tsx"];
 
+// EXTRACTED_FILES with the page still a "GENERATING" placeholder
+const STUB_PAGE_FILES = [{ ...EXTRACTED_FILES[0], content: "GENERATING" }, ...EXTRACTED_FILES.slice(1)];
+
+const CHAT_METADATA = {
+  title: "Book advertising dashboard",
+  createdAt: "2024-01-14T07:55:00Z",
+  updatedAt: "2024-01-15T12:00:00Z",
+  demoUrl: "https://demo-mEnUngV39k5.vusercontent.net",
+  webUrl: null,
+  messages: [
+    { role: "user", content: "Build a dashboard for book ad campaigns", createdAt: "2024-01-14T07:55:00Z" },
+    { role: "assistant", content: "Here is a dashboard…", createdAt: "2024-01-14T07:56:00Z" },
+    { role: "user", content: "Add a spend chart", createdAt: "2024-01-15T10:00:00Z" },
+  ],
+};
+
 function makeDefaultOptions(overrides: Record<string, unknown> = {}) {
   return {
     inputArg: TEST_URL,
     customName: null,
     outputDir: "/tmp/test-output",
-    apiKey: TEST_API_KEY,
     versionId: null,
     listVersions: false,
     ...overrides,
   };
 }
 
+/**
+ * Zips files the way the download endpoint serves them.
+ */
+function zipOf(files: Array<{ name: string; content: string | Uint8Array | null }>): ArrayBuffer {
+  const entries = Object.fromEntries(
+    files.map((f) => [f.name, typeof f.content === "string" ? strToU8(f.content) : (f.content ?? new Uint8Array())]),
+  );
+  return zipSync(entries).buffer as ArrayBuffer;
+}
+
+function sha256(content: string) {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+type MockClient = {
+  listVersions: (slug: string, hashId: string) => Promise<{ versions: unknown[]; resolvedChatId: string }>;
+  getVersion: (
+    chatId: string,
+    versionId: string,
+  ) => Promise<{ files: Array<{ name: string; content: string | null }> }>;
+  downloadVersion: (chatId: string, versionId: string) => Promise<ArrayBuffer>;
+  streamVersion: (chatId: string, versionId: string) => Promise<{ body: Uint8Array[]; size: number }>;
+  getChat: (chatId: string) => Promise<unknown>;
+};
+
+/**
+ * A V0Client serving the fixtures: VERSIONS, CUSTOM_FILE_NAMES as the version's custom files,
+ * EXTRACTED_FILES as its zip, and CHAT_METADATA. Methods can be overridden one by one;
+ * streamVersion serves whatever downloadVersion returns.
+ */
+function makeMockClient(overrides: Partial<MockClient> = {}): MockClient {
+  const client: MockClient = {
+    listVersions: async () => ({ versions: VERSIONS, resolvedChatId: TEST_HASH_ID }),
+    getVersion: async () => ({ files: CUSTOM_FILE_NAMES.map((name) => ({ name, content: null })) }),
+    downloadVersion: async () => zipOf(EXTRACTED_FILES),
+    streamVersion: async (chatId, versionId) => {
+      const zip = await client.downloadVersion(chatId, versionId);
+      return { body: [new Uint8Array(zip)], size: zip.byteLength };
+    },
+    getChat: async () => CHAT_METADATA,
+    ...overrides,
+  };
+  return client;
+}
+
 /**
  * Creates a full set of mock deps with sensible defaults for happy-path testing.
- * Individual mocks can be overridden via the overrides parameter.
+ * Individual mocks can be overridden via the overrides parameter; `client` overrides
+ * individual client methods.
  */
-function makeMockDeps(overrides: Record<string, unknown> = {}) {
+function makeMockDeps({ client, ...overrides }: { client?: Partial<MockClient> } & Record<string, unknown> = {}) {
   const logs: string[] = [];
   const errors: string[] = [];
   const warns: string[] = [];
   const writtenFiles: Array<{ path: string; content: string }> = [];
   const createdDirs: string[] = [];
 
-  const deps: Record<string, unknown> = {
-    fetchVersionList: async (_slug: string, _hashId: string, _apiKey: string) => ({
-      versions: VERSIONS,
-      resolvedChatId: TEST_HASH_ID,
-    }),
-    selectBestVersion: (versions: Array<{ id: string; status: string; createdAt: string }>) => {
-      const completed = versions.find((v) => v.status === "completed");
-      return completed ?? null;
-    },
-    downloadAndExtract: async (_resolvedChatId: string, _versionId: string, _apiKey: string, _targetDir: string) =>
-      EXTRACTED_FILES,
-    fetchCustomFileList: async (_resolvedChatId: string, _versionId: string, _apiKey: string) => CUSTOM_FILE_NAMES,
-    classifyFiles: (allFiles: Array<{ name: string; size: number; content: string }>, customFileNames: string[]) => {
-      const customSet = new Set(customFileNames);
-      const custom = allFiles.filter((f) => customSet.has(f.name)).map((f) => ({ ...f, isCustom: true as const }));
-      const defaultFiles = allFiles
-        .filter((f) => !customSet.has(f.name))
-        .map((f) => ({ ...f, isCustom: false as const }));
-      return { custom, default: defaultFiles };
-    },
-    validateCustomFiles: (
-      customFiles: Array<{ name: string; content: string }>,
-      _isPlaceholderFn: (content: string) => boolean,
-    ) => ({
-      valid: customFiles,
-      warnings: [] as Array<{ name: string; reason: string }>,
-    }),
-    isPlaceholderContent: (content: string) => {
-      if (content == null || typeof content !== "string") return true;
-      const trimmed = content.trim();
-      return trimmed === "" || trimmed.toLowerCase() === "generating";
+  const deps: Record<string, unknown> & { client: MockClient } = {
+    client: makeMockClient(client),
+    readFileSync: (path: string) => {
+      const err = new Error(`ENOENT: no such file or directory, open '${path}'`) as Error & { code: string };
+      err.code = "ENOENT";
+      throw err;
     },
     writeFileSync: (path: string, content: string) => {
       writtenFiles.push({ path, content: typeof content === "string" ? content : String(content) });
@@ -107,6 +166,14 @@ function makeMockDeps(overrides: Record<string, unknown> = {}) {
     mkdirSync: (path: string) => {
       createdDirs.push(path);
     },
+    // Extracted entries are written beside their final path, then renamed into place; staged
+    // directories are renamed as a whole
+    renameSync: (from: string, to: string) => {
+      for (const file of writtenFiles) {
+        if (file.path === from || file.path.startsWith(`${from}/`)) file.path = to + file.path.slice(from.length);
+      }
+    },
+    rmSync: () => {},
     console: {
       log: (...args: unknown[]) => logs.push(args.map(String).join(" ")),
       error: (...args: unknown[]) => errors.push(args.map(String).join(" ")),
@@ -172,33 +239,24 @@ describe("runPipeline", () => {
   // 3. --list-versions flag
   // -------------------------------------------------------------------------
   describe("--list-versions flag", () => {
-    it("should return formatted version list and NOT call download/classify/validate", async () => {
+    it("should return formatted version list without downloading or writing anything", async () => {
       let downloadCalled = false;
-      let classifyCalled = false;
-      let validateCalled = false;
 
-      const { deps } = makeMockDeps({
-        downloadAndExtract: async () => {
-          downloadCalled = true;
-          return [];
-        },
-        classifyFiles: () => {
-          classifyCalled = true;
-          return { custom: [], default: [] };
-        },
-        validateCustomFiles: () => {
-          validateCalled = true;
-          return { valid: [], warnings: [] };
+      const { deps, writtenFiles } = makeMockDeps({
+        client: {
+          downloadVersion: async () => {
+            downloadCalled = true;
+            return zipOf([]);
+          },
         },
       });
       const options = makeDefaultOptions({ listVersions: true });
 
       const result = await runPipeline(options, deps);
 
-      // Should NOT have called download, classify, or validate
+      // Should NOT have downloaded or written anything
       expect(downloadCalled).toBe(false);
-      expect(classifyCalled).toBe(false);
-      expect(validateCalled).toBe(false);
+      expect(writtenFiles).toHaveLength(0);
 
       // Should have listVersionsOutput in the result
       expect(result.listVersionsOutput).toBeDefined();
@@ -223,26 +281,62 @@ describe("runPipeline", () => {
       // Should contain a "selected" marker on the best version
       expect(output).toContain("selected");
     });
+
+    it("should add a detail line per version with --details, without downloading", async () => {
+      let downloadCalled = false;
+      const files: Record<string, Array<{ name: string; content: string | null }>> = {
+        ver_003: [{ name: "app/page.tsx", content: "GENERATING" }],
+        ver_002: [
+          { name: "app/page.tsx", content: "export default function Page() { return <main />; }" },
+          { name: "components/chart.tsx", content: "export function Chart() { return <canvas />; }" },
+        ],
+        ver_001: [{ name: "app/page.tsx", content: "export default function Page() { return null; }" }],
+      };
+      const { deps } = makeMockDeps({
+        client: {
+          downloadVersion: async () => {
+            downloadCalled = true;
+            return zipOf([]);
+          },
+          getVersion: async (_chatId: string, versionId: string) => ({ files: files[versionId] }),
+        },
+      });
+
+      const result = await runPipeline(makeDefaultOptions({ listVersions: true, details: true }), deps);
+
+      expect(downloadCalled).toBe(false);
+      const lines = (result.listVersionsOutput as string).split("\n");
+      expect(lines.slice(1)).toEqual([
+        "  #3  ver_003  generating  2024-01-15T12:00:00Z",
+        "        1 custom files · changed: app/page.tsx · removed: components/chart.tsx · placeholders: app/page.tsx [generating]",
+        "  #2  ver_002  completed  2024-01-15T10:30:00Z  (selected)",
+        "        2 custom files · changed: app/page.tsx, components/chart.tsx",
+        "  #1  ver_001  completed  2024-01-14T08:00:00Z",
+        "        1 custom files · nothing older to compare",
+      ]);
+    });
   });
 
   // -------------------------------------------------------------------------
   // 4. --version flag
   // -------------------------------------------------------------------------
   describe("--version flag", () => {
-    it("should use the specified versionId instead of calling selectBestVersion", async () => {
-      let selectBestCalled = false;
+    it("should download the specified versionId instead of the best version", async () => {
+      const downloaded: string[] = [];
 
       const { deps } = makeMockDeps({
-        selectBestVersion: () => {
-          selectBestCalled = true;
-          return makeVersion("ver_002", "completed", "2024-01-15T10:30:00Z");
+        client: {
+          downloadVersion: async (_chatId: string, versionId: string) => {
+            downloaded.push(versionId);
+            return zipOf(EXTRACTED_FILES);
+          },
         },
       });
       const options = makeDefaultOptions({ versionId: "ver_001" });
 
       const result = await runPipeline(options, deps);
 
-      expect(selectBestCalled).toBe(false);
+      expect(downloaded).toEqual(["ver_001"]);
       expect(result.versionId).toBe("ver_001");
     });
   });
@@ -252,14 +346,7 @@ describe("runPipeline", () => {
   // -------------------------------------------------------------------------
   describe("placeholder warnings", () => {
     it("should include warnings in result and log to stderr with suggested version ID", async () => {
-      const placeholderWarnings = [{ name: "app/page.tsx", reason: "File content is a GENERATING placeholder" }];
-
-      const { deps, errors } = makeMockDeps({
-        validateCustomFiles: () => ({
-          valid: [{ name: "components/chart.tsx", content: "real content" }],
-          warnings: placeholderWarnings,
-        }),
-      });
+      const { deps, errors } = makeMockDeps({ client: { downloadVersion: async () => zipOf(STUB_PAGE_FILES) } });
       const options = makeDefaultOptions();
 
       const result = await runPipeline(options, deps);
@@ -286,13 +373,11 @@ describe("runPipeline", () => {
       ];
 
       const { deps } = makeMockDeps({
-        fetchVersionList: async () => ({
-          versions: nonCompletedVersions,
-          resolvedChatId: TEST_HASH_ID,
-        }),
-        selectBestVersion: (versions: Array<{ id: string; status: string }>) => {
-          // No completed version, fallback to most recent
-          return versions[0] ?? null;
+        client: {
+          listVersions: async () => ({
+            versions: nonCompletedVersions,
+            resolvedChatId: TEST_HASH_ID,
+          }),
         },
       });
       const options = makeDefaultOptions();
@@ -311,11 +396,12 @@ describe("runPipeline", () => {
   describe("empty version list", () => {
     it("should throw or error gracefully when selectBestVersion returns null", async () => {
       const { deps } = makeMockDeps({
-        fetchVersionList: async () => ({
-          versions: [],
-          resolvedChatId: TEST_HASH_ID,
-        }),
-        selectBestVersion: () => null,
+        client: {
+          listVersions: async () => ({
+            versions: [],
+            resolvedChatId: TEST_HASH_ID,
+          }),
+        },
       });
       const options = makeDefaultOptions();
 
@@ -361,6 +447,42 @@ describe("runPipeline", () => {
       // versionSelectedFrom should be the total number of versions available
       expect(manifest.versionSelectedFrom).toBe(3);
     });
+
+    it("should write a manifest that declares and satisfies the current schema", async () => {
+      const { deps, writtenFiles } = makeMockDeps();
+
+      await runPipeline(makeDefaultOptions(), deps);
+
+      const manifest = JSON.parse(writtenFiles.find((f) => f.path.includes("manifest.json"))?.content ?? "{}");
+      expect(manifest.schemaVersion).toBe(MANIFEST_SCHEMA_VERSION);
+      expect(validateManifest(manifest).errors).toEqual([]);
+    });
+
+    it("should record sha256, mimeType, and encoding for each file", async () => {
+      const logo = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01, 0x02]);
+      const { deps, writtenFiles } = makeMockDeps({
+        client: {
+          downloadVersion: async () =>
+            zipOf([
+              { name: "app/page.tsx", content: "x" },
+              { name: "public/logo.png", content: logo },
+            ]),
+        },
+      });
+
+      await runPipeline(makeDefaultOptions(), deps);
+
+      const manifest = JSON.parse(writtenFiles.find((f) => f.path.includes("manifest.json"))?.content ?? "{}");
+      expect(manifest.files[1]).toEqual({
+        name: "public/logo.png",
+        size: 7,
+        sha256: createHash("sha256").update(logo).digest("hex"),
+        mimeType: "image/png",
+        encoding: "binary",
+        isCustom: false,
+      });
+      expect(manifest.files[0].encoding).toBe("utf-8");
+    });
   });
 
   // -------------------------------------------------------------------------
@@ -397,12 +519,7 @@ describe("runPipeline", () => {
   describe("placeholder warning version suggestion", () => {
     it("should suggest the next older completed version when placeholders are found", async () => {
       // ver_002 is selected (most recent completed), ver_001 is the next older completed
-      const { deps, errors } = makeMockDeps({
-        validateCustomFiles: () => ({
-          valid: [],
-          warnings: [{ name: "app/page.tsx", reason: "GENERATING placeholder" }],
-        }),
-      });
+      const { deps, errors } = makeMockDeps({ client: { downloadVersion: async () => zipOf(STUB_PAGE_FILES) } });
       const options = makeDefaultOptions();
 
       await runPipeline(options, deps);
@@ -444,12 +561,7 @@ describe("runPipeline", () => {
   // -------------------------------------------------------------------------
   describe("no placeholder warnings", () => {
     it("should return empty warnings array when all files pass validation", async () => {
-      const { deps } = makeMockDeps({
-        validateCustomFiles: (customFiles: Array<{ name: string; content: string }>) => ({
-          valid: customFiles,
-          warnings: [],
-        }),
-      });
+      const { deps } = makeMockDeps();
       const options = makeDefaultOptions();
 
       const result = await runPipeline(options, deps);
@@ -457,4 +569,1056 @@ describe("runPipeline", () => {
       expect(result.warnings).toEqual([]);
     });
   });
+
+  // -------------------------------------------------------------------------
+  // 14. --sync mode
+  // -------------------------------------------------------------------------
+  describe("--sync mode", () => {
+    const previousManifest = {
+      versionId: "ver_001",
+      files: [{ name: "app/page.tsx" }, { name: "components/removed.tsx" }, { name: "lib/utils.ts" }],
+    };
+
+    function makeSyncDeps(overrides: Record<string, unknown> = {}) {
+      const removedPaths: string[] = [];
+      const mocks = makeMockDeps({
+        readFileSync: (path: string) => {
+          if (path.endsWith("manifest.json")) return JSON.stringify(previousManifest);
+          if (path.endsWith("lib/utils.ts")) return new TextEncoder().encode("unchanged");
+          const err = new Error("ENOENT") as Error & { code: string };
+          err.code = "ENOENT";
+          throw err;
+        },
+        rmSync: (path: string) => {
+          removedPaths.push(path);
+        },
+        client: {
+          downloadVersion: async () =>
+            zipOf(EXTRACTED_FILES.map((f) => (f.name === "lib/utils.ts" ? { ...f, content: "unchanged" } : f))),
+        },
+        ...overrides,
+      });
+      return { ...mocks, removedPaths };
+    }
+
+    it("should report added, modified, and removed files against the previous manifest", async () => {
+      const { deps } = makeSyncDeps();
+
+      const result = await runPipeline(makeDefaultOptions({ sync: true }), deps);
+
+      expect(result.sync.added).toEqual(["app/layout.tsx", "components/chart.tsx"]);
+      expect(result.sync.modified).toEqual(["app/page.tsx"]);
+      expect(result.sync.removed).toEqual(["components/removed.tsx"]);
+      expect(result.sync.unchanged).toEqual(["lib/utils.ts"]);
+    });
+
+    it("should refuse to overwrite files edited since the last fetch", async () => {
+      const hashedManifest = {
+        versionId: "ver_001",
+        files: [{ name: "lib/utils.ts", sha256: "0".repeat(64) }],
+      };
+      const { deps } = makeSyncDeps({
+        readFileSync: (path: string) => {
+          if (path.endsWith("manifest.json")) return JSON.stringify(hashedManifest);
+          if (path.endsWith("designs.lock.json")) return "{}";
+          if (path.endsWith("placeholder-rules.json")) return "[]";
+          return new TextEncoder().encode("edited locally");
+        },
+      });
+
+      await expect(runPipeline(makeDefaultOptions({ sync: true }), deps)).rejects.toThrow(
+        /local edits that --sync would overwrite: lib\/utils\.ts/,
+      );
+    });
+
+    it("should overwrite local edits with --force", async () => {
+      const hashedManifest = {
+        versionId: "ver_001",
+        files: [{ name: "lib/utils.ts", sha256: "0".repeat(64) }],
+      };
+      const { deps } = makeSyncDeps({
+        readFileSync: (path: string) => {
+          if (path.endsWith("manifest.json")) return JSON.stringify(hashedManifest);
+          if (path.endsWith("designs.lock.json")) return "{}";
+          if (path.endsWith("placeholder-rules.json")) return "[]";
+          return new TextEncoder().encode("edited locally");
+        },
+      });
+
+      const result = await runPipeline(makeDefaultOptions({ sync: true, force: true }), deps);
+
+      expect(result.sync.modified).toContain("lib/utils.ts");
+    });
+
+    it("should delete only the stale files tracked by the previous manifest", async () => {
+      const { deps, removedPaths } = makeSyncDeps();
+
+      await runPipeline(makeDefaultOptions({ sync: true }), deps);
+
+      expect(removedPaths).toHaveLength(1);
+      expect(removedPaths[0]).toMatch(/v0-source\/components\/removed\.tsx$/);
+    });
+
+    it("should delete files a narrower filter no longer selects and leave nothing to verify", async () => {
+      const outputDir = mkdtempSync(join(tmpdir(), "v0-sync-filter-"));
+      try {
+        const { deps } = makeMockDeps({
+          client: { downloadVersion: async () => zipOf(EXTRACTED_FILES) },
+          readFileSync,
+          writeFileSync,
+          mkdirSync,
+          rmSync,
+          renameSync,
+        });
+        await runPipeline(makeDefaultOptions({ outputDir }), deps);
+
+        const result = await runPipeline(makeDefaultOptions({ outputDir, sync: true, customOnly: true }), deps);
+
+        const sourceDir = join(outputDir, "designs", TEST_FEATURE_NAME, "v0-source");
+        expect(result.sync.added).toEqual([]);
+        expect(result.sync.removed).toEqual(["app/layout.tsx", "lib/utils.ts"]);
+        expect(existsSync(join(sourceDir, "app", "page.tsx"))).toBe(true);
+        expect(existsSync(join(sourceDir, "lib", "utils.ts"))).toBe(false);
+        const manifest = JSON.parse(readFileSync(join(sourceDir, "manifest.json"), "utf-8"));
+        expect(hasDrifted(verifyDesign(sourceDir, manifest, { readFileSync, readdirSync }))).toBe(false);
+      } finally {
+        rmSync(outputDir, { recursive: true, force: true });
+      }
+    });
+
+    it("should refuse a plain re-fetch over local edits unless forced", async () => {
+      const outputDir = mkdtempSync(join(tmpdir(), "v0-refetch-edits-"));
+      try {
+        const { deps } = makeMockDeps({
+          client: { downloadVersion: async () => zipOf(EXTRACTED_FILES) },
+          readFileSync,
+          writeFileSync,
+          mkdirSync,
+          rmSync,
+          renameSync,
+        });
+        await runPipeline(makeDefaultOptions({ outputDir }), deps);
+        const pagePath = join(outputDir, "designs", TEST_FEATURE_NAME, "v0-source", "app", "page.tsx");
+        writeFileSync(pagePath, `${readFileSync(pagePath, "utf-8")}\n// edited locally`);
+
+        await expect(runPipeline(makeDefaultOptions({ outputDir }), deps)).rejects.toMatchObject({
+          kind: "local-edits",
+          exitCode: 9,
+          details: { files: ["app/page.tsx"] },
+        });
+        expect(readFileSync(pagePath, "utf-8")).toEndWith("// edited locally");
+
+        await runPipeline(makeDefaultOptions({ outputDir, force: true }), deps);
+        expect(readFileSync(pagePath, "utf-8")).toBe(EXTRACTED_FILES[0].content);
+      } finally {
+        rmSync(outputDir, { recursive: true, force: true });
+      }
+    });
+
+    it("should print the sync report", async () => {
+      const { deps, logs } = makeSyncDeps();
+
+      await runPipeline(makeDefaultOptions({ sync: true }), deps);
+
+      const stdout = logs.join("\n");
+      expect(stdout).toContain("Sync: 2 added, 1 modified, 1 removed, 1 unchanged");
+      expect(stdout).toContain("- components/removed.tsx");
+    });
+
+    it("should treat every file as added when no previous manifest exists", async () => {
+      const { deps, removedPaths } = makeSyncDeps({
+        readFileSync: () => {
+          const err = new Error("ENOENT") as Error & { code: string };
+          err.code = "ENOENT";
+          throw err;
+        },
+      });
+
+      const result = await runPipeline(makeDefaultOptions({ sync: true }), deps);
+
+      expect(result.sync.added).toHaveLength(4);
+      expect(removedPaths).toHaveLength(0);
+    });
+
+    it("should not delete anything without --sync", async () => {
+      const { deps, removedPaths } = makeSyncDeps({
+        readFileSync: () => "{}",
+      });
+
+      const result = await runPipeline(makeDefaultOptions(), deps);
+
+      expect(removedPaths).toHaveLength(0);
+      expect(result.sync).toBeUndefined();
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // 15. --diff mode
+  // -------------------------------------------------------------------------
+  describe("--diff mode", () => {
+    const FILES_BY_VERSION: Record<string, Array<{ name: string; content: string }>> = {
+      ver_001: [
+        { name: "app/page.tsx", content: "<Header />\n<Old />\n" },
+        { name: "lib/utils.ts", content: "utils\n" },
+      ],
+      ver_002: [
+        { name: "app/page.tsx", content: "<Header />\n<New />\n" },
+        { name: "lib/utils.ts", content: "utils\n" },
+        { name: "components/hero.tsx", content: "hero\n" },
+      ],
+    };
+
+    function makeDiffDeps() {
+      const downloaded: string[] = [];
+      const mocks = makeMockDeps({
+        client: {
+          downloadVersion: async (_chatId: string, versionId: string) => {
+            downloaded.push(versionId);
+            return zipOf(FILES_BY_VERSION[versionId]);
+          },
+          getVersion: async (_chatId: string, versionId: string) => ({
+            files: (versionId === "ver_002" ? ["app/page.tsx", "components/hero.tsx"] : ["app/page.tsx"]).map(
+              (name) => ({ name, content: null }),
+            ),
+          }),
+        },
+      });
+      return { ...mocks, downloaded };
+    }
+
+    it("should download both versions and return a diff without writing files", async () => {
+      const { deps, downloaded, writtenFiles, createdDirs } = makeDiffDeps();
+
+      const result = await runPipeline(makeDefaultOptions({ diffVersions: ["ver_001", "ver_002"] }), deps);
+
+      expect(downloaded.sort()).toEqual(["ver_001", "ver_002"]);
+      expect(writtenFiles).toHaveLength(0);
+      expect(createdDirs).toHaveLength(0);
+      expect(result.diff.added).toEqual(["components/hero.tsx"]);
+      expect(result.diff.changed).toEqual(["app/page.tsx"]);
+      expect(result.diff.unchanged).toEqual(["lib/utils.ts"]);
+    });
+
+    it("should include a unified diff and custom markers in the output", async () => {
+      const { deps } = makeDiffDeps();
+
+      const result = await runPipeline(makeDefaultOptions({ diffVersions: ["ver_001", "ver_002"] }), deps);
+
+      const output = result.diffOutput as string;
+      expect(output).toContain("--- a/app/page.tsx");
+      expect(output).toContain("-<Old />");
+      expect(output).toContain("+<New />");
+      expect(output).toContain("A components/hero.tsx  [custom]");
+      expect(output).toContain("M app/page.tsx  [custom]");
+    });
+
+    it("should throw when --diff is missing a version ID", async () => {
+      const { deps } = makeDiffDeps();
+
+      await expect(runPipeline(makeDefaultOptions({ diffVersions: ["ver_001"] }), deps)).rejects.toThrow(
+        /requires two version IDs/,
+      );
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // 16. Zip cache
+  // -------------------------------------------------------------------------
+  describe("zip cache", () => {
+    let cacheDir: string;
+
+    beforeEach(() => {
+      cacheDir = mkdtempSync(join(tmpdir(), "v0-zip-cache-"));
+    });
+
+    afterEach(() => {
+      rmSync(cacheDir, { recursive: true, force: true });
+    });
+
+    function trackDownloads() {
+      const downloaded: string[] = [];
+      const mocks = makeMockDeps({
+        client: {
+          downloadVersion: async (_chatId: string, versionId: string) => {
+            downloaded.push(versionId);
+            return zipOf(EXTRACTED_FILES);
+          },
+        },
+      });
+      return { ...mocks, downloaded };
+    }
+
+    it("should store a completed version's zip and serve the next fetch from the cache", async () => {
+      const { deps, downloaded, logs } = trackDownloads();
+
+      await runPipeline(makeDefaultOptions({ cacheDir }), deps);
+      await runPipeline(makeDefaultOptions({ cacheDir }), deps);
+
+      expect(downloaded).toEqual(["ver_002"]);
+      expect(logs.some((l) => l.startsWith(`Cache miss, stored: ${TEST_HASH_ID}/ver_002 (`))).toBe(true);
+      expect(logs.some((l) => l.startsWith(`Cache hit: ${TEST_HASH_ID}/ver_002 (`))).toBe(true);
+    });
+
+    it("should not cache a version that is still generating", async () => {
+      const { deps, downloaded } = trackDownloads();
+
+      await runPipeline(makeDefaultOptions({ cacheDir, versionId: "ver_003" }), deps);
+      await runPipeline(makeDefaultOptions({ cacheDir, versionId: "ver_003" }), deps);
+
+      expect(downloaded).toEqual(["ver_003", "ver_003"]);
+    });
+
+    it("should not use the cache when cacheDir is null (--no-cache)", async () => {
+      const { deps, downloaded, logs } = trackDownloads();
+
+      await runPipeline(makeDefaultOptions({ cacheDir: null }), deps);
+      await runPipeline(makeDefaultOptions({ cacheDir: null }), deps);
+
+      expect(downloaded).toEqual(["ver_002", "ver_002"]);
+      expect(logs.some((l) => l.startsWith("Cache"))).toBe(false);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // 17. v0 client transport
+  // -------------------------------------------------------------------------
+  describe("v0 client", () => {
+    it("should make every API request through the injected client", async () => {
+      const requests: Array<{ url: string; authorization: string | undefined }> = [];
+      const transport = async (url: string, init?: RequestInit) => {
+        requests.push({ url, authorization: (init?.headers as Record<string, string>)?.Authorization });
+        const path = new URL(url).pathname;
+        if (path.endsWith("/download")) return new Response(zipOf(EXTRACTED_FILES));
+        if (path.endsWith("/versions")) return Response.json({ versions: VERSIONS });
+        if (path.includes("/versions/")) return Response.json({ files: CUSTOM_FILE_NAMES.map((name) => ({ name })) });
+        return Response.json({ name: CHAT_METADATA.title, messages: CHAT_METADATA.messages });
+      };
+      const { deps } = makeMockDeps();
+      deps.client = createV0Client({
+        apiKey: TEST_API_KEY,
+        baseUrl: "https://v0-proxy.internal/v1",
+        fetch: transport as unknown as typeof fetch,
+      });
+
+      const result = await runPipeline(makeDefaultOptions(), deps);
+
+      expect(result.customFileCount).toBe(2);
+      expect(result.chat).toMatchObject({ title: "Book advertising dashboard" });
+      // The slug from the URL answered, so every request uses it
+      const chatPath = `/v1/chats/${TEST_FEATURE_NAME}-${TEST_HASH_ID}`;
+      expect(requests.map((r) => new URL(r.url).pathname).sort()).toEqual([
+        chatPath,
+        `${chatPath}/versions`,
+        `${chatPath}/versions/ver_002`,
+        `${chatPath}/versions/ver_002/download`,
+      ]);
+      expect(requests.every((r) => r.url.startsWith("https://v0-proxy.internal/v1/"))).toBe(true);
+      expect(requests.every((r) => r.authorization === `Bearer ${TEST_API_KEY}`)).toBe(true);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // 18. --include / --exclude / --custom-only
+  // -------------------------------------------------------------------------
+  describe("file selection", () => {
+    function makeSelectingDeps(calls: string[] = []) {
+      return makeMockDeps({
+        client: {
+          getVersion: async () => {
+            calls.push("getVersion");
+            return { files: CUSTOM_FILE_NAMES.map((name) => ({ name, content: null })) };
+          },
+          downloadVersion: async () => {
+            calls.push("downloadVersion");
+            return zipOf(EXTRACTED_FILES);
+          },
+        },
+      });
+    }
+
+    it("should fetch the custom file list before extracting with --custom-only", async () => {
+      const calls: string[] = [];
+      const { deps } = makeSelectingDeps(calls);
+
+      await runPipeline(makeDefaultOptions({ customOnly: true }), deps);
+
+      expect(calls).toEqual(["getVersion", "downloadVersion"]);
+    });
+
+    it("should list skipped files in the manifest with written: false", async () => {
+      const { deps, writtenFiles, logs } = makeSelectingDeps();
+
+      const result = await runPipeline(makeDefaultOptions({ customOnly: true }), deps);
+
+      const manifest = JSON.parse(writtenFiles.find((f) => f.path.includes("manifest.json"))?.content ?? "{}");
+      const skipped = manifest.files.filter((f: { written?: boolean }) => f.written === false);
+      expect(skipped.map((f: { name: string }) => f.name)).toEqual(["app/layout.tsx", "lib/utils.ts"]);
+      expect(manifest.files.find((f: { name: string }) => f.name === "app/page.tsx")).not.toHaveProperty("written");
+      expect(manifest.defaultFileCount).toBe(2);
+      expect(result.skippedFileCount).toBe(2);
+      expect(logs.some((l) => l.includes("Skipped 2 files"))).toBe(true);
+      expect(logs.some((l) => l.startsWith("Done! 2 files"))).toBe(true);
+    });
+
+    it("should pass include and exclude globs through to extraction", async () => {
+      const calls: string[] = [];
+      const { deps } = makeSelectingDeps(calls);
+
+      const result = await runPipeline(makeDefaultOptions({ include: ["app/**"], exclude: ["**/layout.tsx"] }), deps);
+
+      expect(result.skippedFileCount).toBe(3);
+      // Without --custom-only the custom file list is fetched after extraction, as before
+      expect(calls).toEqual(["downloadVersion", "getVersion"]);
+    });
+
+    it("should not filter anything by default", async () => {
+      const { deps } = makeSelectingDeps();
+
+      const result = await runPipeline(makeDefaultOptions(), deps);
+
+      expect(result.skippedFileCount).toBe(0);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // 19. designs.lock.json
+  // -------------------------------------------------------------------------
+  describe("designs.lock.json", () => {
+    it("should pin the fetched chat, version, and file hashes", async () => {
+      const { deps, writtenFiles } = makeMockDeps();
+
+      await runPipeline(makeDefaultOptions(), deps);
+
+      const lockWrite = writtenFiles.find((f) => f.path.endsWith("designs/designs.lock.json"));
+      expect(lockWrite?.path).toBe("/tmp/test-output/designs/designs.lock.json");
+      const lock = JSON.parse(lockWrite?.content ?? "{}");
+      expect(lock.designs[TEST_FEATURE_NAME]).toEqual({
+        sourceUrl: `https://v0.app/chat/${TEST_HASH_ID}`,
+        chatId: TEST_HASH_ID,
+        versionId: "ver_002",
+        files: Object.fromEntries(EXTRACTED_FILES.map((f) => [f.name, sha256(f.content)])),
+      });
+    });
+
+    it("should keep the other features already pinned", async () => {
+      const existing = { lockfileVersion: 1, designs: { other: { chatId: "x", versionId: "v", files: {} } } };
+      const { deps, writtenFiles } = makeMockDeps({ readFileSync: () => JSON.stringify(existing) });
+
+      await runPipeline(makeDefaultOptions(), deps);
+
+      const lock = JSON.parse(writtenFiles.find((f) => f.path.endsWith("designs.lock.json"))?.content ?? "{}");
+      expect(Object.keys(lock.designs)).toEqual([TEST_FEATURE_NAME, "other"]);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // 20. sync subcommand (lockfile replay)
+  // -------------------------------------------------------------------------
+  describe("sync subcommand", () => {
+    // Pinned with --custom-only, so only the custom files were written and hashed
+    const CUSTOM_FILES = EXTRACTED_FILES.filter((f) => CUSTOM_FILE_NAMES.includes(f.name));
+    const LOCK = {
+      lockfileVersion: 1,
+      designs: {
+        dashboard: {
+          sourceUrl: `https://v0.app/chat/${TEST_HASH_ID}`,
+          chatId: TEST_HASH_ID,
+          versionId: "ver_001",
+          filters: { include: [], exclude: [], customOnly: true },
+          files: Object.fromEntries(CUSTOM_FILES.map((f) => [f.name, sha256(f.content)])),
+        },
+      },
+    };
+
+    function makeReplayDeps(overrides: Record<string, unknown> = {}) {
+      const removedPaths: string[] = [];
+      const downloads: string[] = [];
+      const mocks = makeMockDeps({
+        readFileSync: (path: string) => {
+          if (path.endsWith("designs.lock.json")) return JSON.stringify(LOCK);
+          const err = new Error("ENOENT") as Error & { code: string };
+          err.code = "ENOENT";
+          throw err;
+        },
+        rmSync: (path: string) => {
+          removedPaths.push(path);
+        },
+        client: {
+          downloadVersion: async (_chatId: string, versionId: string) => {
+            downloads.push(versionId);
+            return zipOf(EXTRACTED_FILES);
+          },
+        },
+        ...overrides,
+      });
+      return { ...mocks, removedPaths, downloads };
+    }
+
+    it("should re-create each pinned feature at its pinned version", async () => {
+      const { deps, removedPaths, downloads, writtenFiles } = makeReplayDeps();
+
+      const result = await runSyncCommand({ outputDir: "/tmp/test-output", commandArgs: [], cacheDir: null }, deps);
+
+      expect(result).toEqual({ replayed: ["dashboard"], mismatched: [] });
+      // Replayed into .v0-sync, which only replaces v0-source once the fetch succeeded
+      const sourceDir = "/tmp/test-output/designs/dashboard/v0-source";
+      const stagingDir = "/tmp/test-output/designs/dashboard/.v0-sync";
+      expect(removedPaths).toEqual([stagingDir, sourceDir, stagingDir]);
+      expect(downloads).toEqual(["ver_001"]);
+      // The pinned filters are replayed too
+      expect(writtenFiles.some((f) => f.path === `${sourceDir}/app/page.tsx`)).toBe(true);
+      expect(writtenFiles.some((f) => f.path === `${sourceDir}/app/layout.tsx`)).toBe(false);
+      // A replay never rewrites the pins
+      expect(writtenFiles.some((f) => f.path.endsWith("designs.lock.json"))).toBe(false);
+    });
+
+    it("should report the v0-source path in the Done line, not the staging directory", async () => {
+      const { deps, logs } = makeReplayDeps();
+
+      await runSyncCommand({ outputDir: "/tmp/test-output", commandArgs: [], cacheDir: null }, deps);
+
+      const doneLines = logs.filter((l) => l.startsWith("Done!"));
+      expect(doneLines).toEqual([
+        "Done! 2 files (2 custom, 2 default) written to /tmp/test-output/designs/dashboard/v0-source",
+      ]);
+      expect(logs.some((l) => l.includes(".v0-sync"))).toBe(false);
+    });
+
+    it("should report files that no longer match their pinned hashes", async () => {
+      const { deps, errors } = makeReplayDeps({
+        client: { downloadVersion: async () => zipOf(STUB_PAGE_FILES) },
+      });
+
+      const result = await runSyncCommand(
+        { outputDir: "/tmp/test-output", commandArgs: ["dashboard"], cacheDir: null },
+        deps,
+      );
+
+      expect(result.mismatched).toEqual(["dashboard"]);
+      expect(errors).toContain("  ~ app/page.tsx");
+    });
+
+    it("should refuse to replace a v0-source with local edits unless forced", async () => {
+      const { deps } = makeReplayDeps({
+        readFileSync: (path: string) => {
+          if (path.endsWith("designs.lock.json")) return JSON.stringify(LOCK);
+          if (path.endsWith("manifest.json")) {
+            return JSON.stringify({ files: [{ name: "app/page.tsx", sha256: "0".repeat(64) }] });
+          }
+          if (path.endsWith("placeholder-rules.json")) return "[]";
+          return new TextEncoder().encode("edited in place");
+        },
+      });
+      const options = { outputDir: "/tmp/test-output", commandArgs: [], cacheDir: null };
+
+      await expect(runSyncCommand(options, deps)).rejects.toThrow(/local edits that sync would overwrite/);
+      expect((await runSyncCommand({ ...options, force: true }, deps)).replayed).toEqual(["dashboard"]);
+    });
+
+    it("should keep the current v0-source when the replay's download fails", async () => {
+      const outputDir = mkdtempSync(join(tmpdir(), "v0-sync-replay-"));
+      try {
+        const sourceDir = join(outputDir, "designs", "dashboard", "v0-source");
+        mkdirSync(join(sourceDir, "app"), { recursive: true });
+        writeFileSync(join(sourceDir, "app", "page.tsx"), "old page");
+        writeFileSync(join(outputDir, "designs", "designs.lock.json"), JSON.stringify(LOCK));
+        const { deps } = makeMockDeps({
+          client: {
+            downloadVersion: async () => {
+              throw new Error("Failed to download zip: HTTP 502 Bad Gateway");
+            },
+          },
+          readFileSync,
+          writeFileSync,
+          mkdirSync,
+          rmSync,
+          renameSync,
+        });
+
+        await expect(runSyncCommand({ outputDir, commandArgs: [], cacheDir: null }, deps)).rejects.toThrow(/HTTP 502/);
+
+        expect(readFileSync(join(sourceDir, "app", "page.tsx"), "utf-8")).toBe("old page");
+        expect(existsSync(join(outputDir, "designs", "dashboard", ".v0-sync"))).toBe(false);
+      } finally {
+        rmSync(outputDir, { recursive: true, force: true });
+      }
+    });
+
+    it("should reject features that are not pinned", async () => {
+      const { deps } = makeReplayDeps();
+
+      await expect(runSyncCommand({ outputDir: "/tmp/test-output", commandArgs: ["nope"] }, deps)).rejects.toThrow(
+        /"nope" is not pinned/,
+      );
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // 21. Placeholder rules
+  // -------------------------------------------------------------------------
+  describe("placeholder rules", () => {
+    const STUB_FILES = [
+      { name: "app/page.tsx", content: "export default function Page() {\n  // ... rest of page\n}" },
+      { name: "components/chart.tsx", content: "<p>Lorem ipsum</p>" },
+    ];
+
+    function readRules(rulesPath: string, rules: unknown) {
+      return (path: string) => {
+        if (path === rulesPath) return JSON.stringify(rules);
+        throw Object.assign(new Error(`ENOENT: ${path}`), { code: "ENOENT" });
+      };
+    }
+
+    it("should record the rule that fired in the manifest warnings", async () => {
+      const { deps, writtenFiles, errors } = makeMockDeps({
+        client: { downloadVersion: async () => zipOf(STUB_FILES) },
+      });
+
+      await runPipeline(makeDefaultOptions(), deps);
+
+      const manifest = JSON.parse(writtenFiles.find((f) => f.path.endsWith("manifest.json"))?.content ?? "{}");
+      expect(manifest.warnings).toEqual([
+        expect.objectContaining({ name: "app/page.tsx", ruleId: "elided-code", severity: "error" }),
+      ]);
+      expect(errors.join("\n")).toContain("[elided-code]");
+      expect(errors.join("\n")).toContain("ver_001");
+    });
+
+    it("should pick up project rules from designs/placeholder-rules.json", async () => {
+      const { deps, writtenFiles } = makeMockDeps({
+        client: { downloadVersion: async () => zipOf(STUB_FILES) },
+        readFileSync: readRules("/tmp/test-output/designs/placeholder-rules.json", {
+          rules: [
+            { id: "lorem", severity: "warning", reason: "Lorem ipsum filler", pattern: "lorem ipsum", flags: "i" },
+            { id: "elided-code", severity: "off" },
+          ],
+        }),
+      });
+
+      await runPipeline(makeDefaultOptions(), deps);
+
+      const manifest = JSON.parse(writtenFiles.find((f) => f.path.endsWith("manifest.json"))?.content ?? "{}");
+      expect(manifest.warnings).toEqual([
+        { name: "components/chart.tsx", reason: "Lorem ipsum filler", ruleId: "lorem", severity: "warning" },
+      ]);
+      expect(validateManifest(manifest).valid).toBe(true);
+    });
+
+    it("should use rules from the project config instead of designs/placeholder-rules.json", async () => {
+      const { deps, writtenFiles } = makeMockDeps({
+        client: { downloadVersion: async () => zipOf(STUB_FILES) },
+        readFileSync: readRules("/tmp/test-output/designs/placeholder-rules.json", [
+          { id: "lorem", severity: "warning", pattern: "lorem ipsum", flags: "i" },
+        ]),
+      });
+
+      await runPipeline(
+        makeDefaultOptions({ configuredPlaceholderRules: [{ id: "elided-code", severity: "warning" }] }),
+        deps,
+      );
+
+      const manifest = JSON.parse(writtenFiles.find((f) => f.path.endsWith("manifest.json"))?.content ?? "{}");
+      expect(manifest.warnings.map((w: { ruleId: string }) => w.ruleId)).toEqual(["elided-code"]);
+      expect(manifest.warnings[0].severity).toBe("warning");
+    });
+
+    it("should mark the result placeholder-only when every custom file hits an error rule", async () => {
+      const { deps } = makeMockDeps({ client: { downloadVersion: async () => zipOf(STUB_FILES) } });
+
+      const partial = await runPipeline(makeDefaultOptions(), deps);
+      const full = await runPipeline(
+        makeDefaultOptions({ configuredPlaceholderRules: [{ id: "lorem", pattern: "lorem ipsum", flags: "i" }] }),
+        deps,
+      );
+
+      expect(partial.placeholderOnly).toBe(false);
+      expect(full.placeholderOnly).toBe(true);
+    });
+
+    it("should not pin a placeholder-only version in the lockfile", async () => {
+      const { deps, writtenFiles, errors } = makeMockDeps({
+        client: { downloadVersion: async () => zipOf(STUB_FILES) },
+      });
+
+      const result = await runPipeline(
+        makeDefaultOptions({ configuredPlaceholderRules: [{ id: "lorem", pattern: "lorem ipsum", flags: "i" }] }),
+        deps,
+      );
+
+      expect(result.placeholderOnly).toBe(true);
+      expect(writtenFiles.some((f) => f.path.endsWith("designs.lock.json"))).toBe(false);
+      expect(errors).toContain("Not pinning ver_002 in designs.lock.json: every custom file is a placeholder");
+    });
+
+    it("should not suggest an older version when only warning rules fire", async () => {
+      const { deps, errors } = makeMockDeps({
+        client: { downloadVersion: async () => zipOf(STUB_FILES) },
+        readFileSync: readRules("/rules/custom.json", [
+          { id: "lorem", severity: "warning", pattern: "lorem ipsum", flags: "i" },
+          { id: "elided-code", severity: "warning" },
+        ]),
+      });
+
+      await runPipeline(makeDefaultOptions({ placeholderRulesPath: "/rules/custom.json" }), deps);
+
+      expect(errors.join("\n")).toContain("[lorem]");
+      expect(errors.join("\n")).not.toContain("Try: --version");
+    });
+
+    it("should fail before downloading when --placeholder-rules points to a missing file", async () => {
+      let downloaded = false;
+      const { deps } = makeMockDeps({
+        client: {
+          downloadVersion: async () => {
+            downloaded = true;
+            return zipOf(STUB_FILES);
+          },
+        },
+      });
+
+      await expect(
+        runPipeline(makeDefaultOptions({ placeholderRulesPath: "/rules/missing.json" }), deps),
+      ).rejects.toThrow(/Placeholder rules file not found: \/rules\/missing\.json/);
+      expect(downloaded).toBe(false);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // 22. --auto-fallback
+  // -------------------------------------------------------------------------
+  describe("--auto-fallback", () => {
+    const FALLBACK_VERSIONS = [
+      makeVersion("ver_004", "completed", "2024-01-16T09:00:00Z"),
+      makeVersion("ver_003", "generating", "2024-01-15T12:00:00Z"),
+      makeVersion("ver_002", "completed", "2024-01-15T10:30:00Z"),
+      makeVersion("ver_001", "completed", "2024-01-14T08:00:00Z"),
+    ];
+    // Versions listed in `stubbed` have a placeholder page; the rest are clean
+    function makeFallbackDeps(stubbed: string[], client: Partial<MockClient> = {}) {
+      const downloads: string[] = [];
+      const removed: string[] = [];
+      const renamed: Array<[string, string]> = [];
+      const mocks = makeMockDeps({
+        client: {
+          listVersions: async () => ({ versions: FALLBACK_VERSIONS, resolvedChatId: TEST_HASH_ID }),
+          downloadVersion: async (_chatId: string, versionId: string) => {
+            downloads.push(versionId);
+            return zipOf(stubbed.includes(versionId) ? STUB_PAGE_FILES : EXTRACTED_FILES);
+          },
+          ...client,
+        },
+        rmSync: (path: string) => {
+          removed.push(path);
+        },
+        renameSync: (from: string, to: string) => {
+          const staged = mocks.writtenFiles.find((f) => f.path === from);
+          if (staged) staged.path = to;
+          else renamed.push([from, to]);
+        },
+      });
+      // Each staged version is extracted into its own directory
+      const stagedPages = () =>
+        mocks.writtenFiles
+          .filter((f) => f.path.endsWith("/app/page.tsx"))
+          .map((f) => f.path.slice(0, -"/app/page.tsx".length));
+      return { ...mocks, downloads, removed, renamed, stagedPages };
+    }
+
+    const featureDir = `/tmp/test-output/designs/${TEST_FEATURE_NAME}`;
+
+    it("should stage older completed versions until one is clean and promote it", async () => {
+      const { deps, downloads, renamed, removed, writtenFiles, logs, stagedPages } = makeFallbackDeps([
+        "ver_004",
+        "ver_002",
+      ]);
+
+      const result = await runPipeline(makeDefaultOptions({ autoFallback: 3 }), deps);
+
+      expect(downloads).toEqual(["ver_004", "ver_002", "ver_001"]);
+      expect(stagedPages()).toEqual([
+        `${featureDir}/.v0-fallback/ver_004`,
+        `${featureDir}/.v0-fallback/ver_002`,
+        `${featureDir}/.v0-fallback/ver_001`,
+      ]);
+      expect(renamed).toEqual([[`${featureDir}/.v0-fallback/ver_001`, `${featureDir}/v0-source`]]);
+      expect(removed).toEqual([`${featureDir}/v0-source`, `${featureDir}/.v0-fallback`]);
+      expect(result.versionId).toBe("ver_001");
+      expect(result.warnings).toEqual([]);
+      expect(logs.join("\n")).toContain("Falling back from ver_004 to ver_001");
+
+      const manifest = JSON.parse(writtenFiles.find((f) => f.path.endsWith("manifest.json"))?.content ?? "{}");
+      expect(manifest.versionId).toBe("ver_001");
+      expect(manifest.fallback).toEqual({
+        requestedVersionId: "ver_004",
+        maxSteps: 3,
+        rejected: [
+          {
+            versionId: "ver_004",
+            warnings: [{ name: "app/page.tsx", reason: expect.stringContaining("GENERATING"), ruleId: "generating" }],
+          },
+          {
+            versionId: "ver_002",
+            warnings: [{ name: "app/page.tsx", reason: expect.stringContaining("GENERATING"), ruleId: "generating" }],
+          },
+        ],
+      });
+      expect(validateManifest(manifest).valid).toBe(true);
+    });
+
+    it("should keep the selected version when it is already clean", async () => {
+      const { deps, downloads, renamed, writtenFiles } = makeFallbackDeps([]);
+
+      await runPipeline(makeDefaultOptions({ autoFallback: 3 }), deps);
+
+      expect(downloads).toEqual(["ver_004"]);
+      expect(renamed).toEqual([[`${featureDir}/.v0-fallback/ver_004`, `${featureDir}/v0-source`]]);
+      const manifest = JSON.parse(writtenFiles.find((f) => f.path.endsWith("manifest.json"))?.content ?? "{}");
+      expect(manifest.fallback).toEqual({ requestedVersionId: "ver_004", maxSteps: 3, rejected: [] });
+    });
+
+    it("should stop after maxSteps older versions and promote the selected version", async () => {
+      const { deps, downloads, renamed, errors } = makeFallbackDeps(["ver_004", "ver_002", "ver_001"]);
+
+      const result = await runPipeline(makeDefaultOptions({ autoFallback: 1 }), deps);
+
+      expect(downloads).toEqual(["ver_004", "ver_002"]);
+      expect(renamed).toEqual([[`${featureDir}/.v0-fallback/ver_004`, `${featureDir}/v0-source`]]);
+      expect(result.versionId).toBe("ver_004");
+      expect(result.warnings).toEqual([expect.objectContaining({ name: "app/page.tsx", ruleId: "generating" })]);
+      const stderrText = errors.join("\n");
+      expect(stderrText).toContain("Rejected version ver_002: placeholder files app/page.tsx [generating]");
+      expect(stderrText).toContain("No version within 1 fallback steps is free of placeholders; kept ver_004");
+      expect(stderrText).toContain("Try: --auto-fallback 2");
+    });
+
+    it("should remove the staging directory when a download fails", async () => {
+      const { deps, removed } = makeFallbackDeps([], {
+        downloadVersion: async () => {
+          throw new Error("Failed to download zip: HTTP 500");
+        },
+      });
+
+      await expect(runPipeline(makeDefaultOptions({ autoFallback: 3 }), deps)).rejects.toThrow(/HTTP 500/);
+      expect(removed).toEqual([`${featureDir}/.v0-fallback`]);
+    });
+
+    it("should refuse to combine with --sync", async () => {
+      const { deps, downloads } = makeFallbackDeps([]);
+
+      await expect(runPipeline(makeDefaultOptions({ autoFallback: 3, sync: true }), deps)).rejects.toThrow(
+        /--auto-fallback cannot be combined with --sync/,
+      );
+      expect(downloads).toEqual([]);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // 23. Version selectors
+  // -------------------------------------------------------------------------
+  describe("version selectors", () => {
+    function trackDownloads(overrides: Record<string, unknown> = {}) {
+      const downloaded: string[] = [];
+      const mocks = makeMockDeps({
+        client: {
+          downloadVersion: async (_chatId: string, versionId: string) => {
+            downloaded.push(versionId);
+            return zipOf(EXTRACTED_FILES);
+          },
+        },
+        ...overrides,
+      });
+      return { ...mocks, downloaded };
+    }
+
+    it("should download the version a #N index points at", async () => {
+      const { deps, downloaded, logs } = trackDownloads();
+
+      const result = await runPipeline(makeDefaultOptions({ versionId: "#1" }), deps);
+
+      expect(downloaded).toEqual(["ver_001"]);
+      expect(result.versionId).toBe("ver_001");
+      expect(logs).toContain("Resolved --version #1 to ver_001");
+    });
+
+    it("should step back from the existing manifest's version with ^", async () => {
+      const { deps, downloaded } = trackDownloads({
+        readFileSync: (path: string) => {
+          if (path === `/tmp/test-output/designs/${TEST_FEATURE_NAME}/v0-source/manifest.json`) {
+            return JSON.stringify({ versionId: "ver_002" });
+          }
+          throw Object.assign(new Error(`ENOENT: ${path}`), { code: "ENOENT" });
+        },
+      });
+
+      await runPipeline(makeDefaultOptions({ versionId: "^" }), deps);
+
+      expect(downloaded).toEqual(["ver_001"]);
+    });
+
+    it("should fail before downloading when a selector is out of range", async () => {
+      const { deps, downloaded } = trackDownloads();
+
+      await expect(runPipeline(makeDefaultOptions({ versionId: "#9" }), deps)).rejects.toThrow(
+        "Version #9 is out of range: the chat has #1–#3",
+      );
+      expect(downloaded).toEqual([]);
+    });
+
+    it("should resolve selectors on both sides of --diff", async () => {
+      const requested: string[] = [];
+      const { deps } = makeMockDeps({
+        client: {
+          downloadVersion: async (_chatId: string, versionId: string) => {
+            requested.push(versionId);
+            return zipOf(EXTRACTED_FILES);
+          },
+        },
+      });
+
+      await runPipeline(makeDefaultOptions({ diffVersions: ["#1", "latest-completed"] }), deps);
+
+      expect(requested).toEqual(["ver_001", "ver_002"]);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // 24. Chat metadata and prompt history
+  // -------------------------------------------------------------------------
+  describe("chat metadata", () => {
+    it("should record the chat title, timestamps, and demo URL in the manifest", async () => {
+      const { deps, writtenFiles } = makeMockDeps();
+
+      await runPipeline(makeDefaultOptions(), deps);
+
+      const manifest = JSON.parse(writtenFiles.find((f) => f.path.endsWith("manifest.json"))?.content ?? "{}");
+      expect(manifest.chat).toEqual({
+        title: "Book advertising dashboard",
+        createdAt: "2024-01-14T07:55:00Z",
+        updatedAt: "2024-01-15T12:00:00Z",
+        demoUrl: "https://demo-mEnUngV39k5.vusercontent.net",
+        promptCount: 2,
+      });
+      expect(validateManifest(manifest).valid).toBe(true);
+    });
+
+    it("should write the user prompts to designs/<feature>/prompt-history.md", async () => {
+      const { deps, writtenFiles } = makeMockDeps();
+
+      await runPipeline(makeDefaultOptions(), deps);
+
+      const history = writtenFiles.find(
+        (f) => f.path === `/tmp/test-output/designs/${TEST_FEATURE_NAME}/prompt-history.md`,
+      );
+      expect(history?.content).toContain(
+        "## Prompt 1 — 2024-01-14T07:55:00Z\n\nBuild a dashboard for book ad campaigns",
+      );
+      expect(history?.content).toContain("## Prompt 2 — 2024-01-15T10:00:00Z\n\nAdd a spend chart");
+      expect(history?.content).not.toContain("Here is a dashboard");
+    });
+
+    it("should name the feature after the chat title when the input is a bare hash", async () => {
+      const { deps, writtenFiles } = makeMockDeps();
+
+      const result = await runPipeline(makeDefaultOptions({ inputArg: TEST_HASH_ID }), deps);
+
+      expect(result.featureName).toBe("book-advertising-dashboard");
+      expect(
+        writtenFiles.some((f) => f.path.endsWith("/designs/book-advertising-dashboard/v0-source/manifest.json")),
+      ).toBe(true);
+    });
+
+    it("should keep a custom name over the chat title", async () => {
+      const { deps } = makeMockDeps();
+
+      const result = await runPipeline(makeDefaultOptions({ inputArg: TEST_HASH_ID, customName: "ads" }), deps);
+
+      expect(result.featureName).toBe("ads");
+    });
+
+    it("should not request the chat for --list-versions or --diff", async () => {
+      const getChatCalls: string[] = [];
+      const { deps } = makeMockDeps({
+        client: {
+          getChat: async (chatId: string) => {
+            getChatCalls.push(chatId);
+            return CHAT_METADATA;
+          },
+        },
+      });
+
+      await runPipeline(makeDefaultOptions({ listVersions: true }), deps);
+      await runPipeline(makeDefaultOptions({ diffVersions: ["ver_001", "ver_002"] }), deps);
+
+      expect(getChatCalls).toEqual([]);
+    });
+
+    it("should carry on without metadata when the request fails", async () => {
+      const { deps, writtenFiles, errors } = makeMockDeps({
+        client: {
+          getChat: async () => {
+            throw new Error("HTTP error 500 fetching chat metadata");
+          },
+        },
+      });
+
+      const result = await runPipeline(makeDefaultOptions({ inputArg: TEST_HASH_ID }), deps);
+
+      expect(result.featureName).toBe(TEST_HASH_ID);
+      expect(errors).toContain("Warning: could not fetch chat metadata — HTTP error 500 fetching chat metadata");
+      const manifest = JSON.parse(writtenFiles.find((f) => f.path.endsWith("manifest.json"))?.content ?? "{}");
+      expect(manifest.chat).toBeUndefined();
+      expect(writtenFiles.some((f) => f.path.endsWith("prompt-history.md"))).toBe(false);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // 25. Designs folder from the project config
+  // -------------------------------------------------------------------------
+  describe("designs folder", () => {
+    it("should write the design and the lockfile under the configured folder", async () => {
+      const { deps, writtenFiles, createdDirs } = makeMockDeps();
+
+      await runPipeline(makeDefaultOptions({ designsDir: "ui/designs" }), deps);
+
+      const base = `/tmp/test-output/ui/designs/${TEST_FEATURE_NAME}`;
+      expect(createdDirs).toContain(`${base}/v0-source`);
+      expect(writtenFiles.some((f) => f.path === `${base}/v0-source/manifest.json`)).toBe(true);
+      expect(writtenFiles.some((f) => f.path === "/tmp/test-output/ui/designs/designs.lock.json")).toBe(true);
+      expect(writtenFiles.some((f) => f.path.startsWith("/tmp/test-output/designs/"))).toBe(false);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // 26. Download progress
+  // -------------------------------------------------------------------------
+  describe("download progress", () => {
+    function makeProgressDeps(client: Partial<MockClient> = {}) {
+      const events: string[] = [];
+      const mocks = makeMockDeps({ client });
+      mocks.deps.progress = {
+        update: (text: string) => events.push(text),
+        done: () => events.push("done"),
+      };
+      return { ...mocks, events };
+    }
+
+    it("should report the streamed zip and end the progress line", async () => {
+      const { deps, events } = makeProgressDeps();
+
+      await runPipeline(makeDefaultOptions(), deps);
+
+      expect(events.at(-2)).toMatch(/^Fetching ver_002: .+ \(100%\), 4 files$/);
+      expect(events.at(-1)).toBe("done");
+    });
+
+    it("should end the progress line when the download fails", async () => {
+      const { deps, events } = makeProgressDeps({
+        streamVersion: async () => ({ body: [new Uint8Array(zipOf(EXTRACTED_FILES)).slice(0, 60)], size: 1000 }),
+      });
+
+      await expect(runPipeline(makeDefaultOptions(), deps)).rejects.toThrow(/zip/i);
+
+      expect(events.at(-1)).toBe("done");
+    });
+  });
 });
@@ -1,5 +1,17 @@
-import { describe, expect, it } from "bun:test";
-import { deriveFeatureName, extractChatId, parseArgs } from "../v0-setup/scripts/fetch-v0.mjs";
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  deriveFeatureName,
+  extractChatId,
+  parseArgs,
+  runAuditCommand,
+  runBriefCommand,
+  runCacheCommand,
+  runMigrateCommand,
+  runVerifyCommand,
+} from "../v0-setup/scripts/fetch-v0.mjs";
 
 describe("extractChatId", () => {
   it("extracts slug, hashId, and featureName from v0.app URL with long hash", () => {
@@ -38,6 +50,18 @@ describe("extractChatId", () => {
     });
   });
 
+  it("names a bare hash after the chat title when one is given", () => {
+    expect(extractChatId("mEnUngV39k5", "Book Advertising Dashboard")).toEqual({
+      slug: "mEnUngV39k5",
+      hashId: "mEnUngV39k5",
+      featureName: "book-advertising-dashboard",
+    });
+    expect(extractChatId("https://v0.app/chat/mEnUngV39k5", "Café menu").featureName).toBe("cafe-menu");
+    // Slugs that already carry a name keep it
+    expect(extractChatId("https://v0.app/chat/my-dashboard-Abc123", "Other title").featureName).toBe("my-dashboard");
+    expect(extractChatId("mEnUngV39k5", "!!!").featureName).toBe("mEnUngV39k5");
+  });
+
   it("handles slug with no hash suffix gracefully (slug and hashId are same)", () => {
     const result = extractChatId("https://v0.app/chat/singleword");
     expect(result.slug).toBe("singleword");
@@ -160,7 +184,8 @@ describe("parseArgs", () => {
     const result = parseArgs(["node", "fetch-v0.mjs", "https://v0.app/chat/abc123"]);
     expect(result.inputArg).toBe("https://v0.app/chat/abc123");
     expect(result.customName).toBeNull();
-    expect(result.outputDir).toBe(process.cwd());
+    // Left unset so the project config or the working directory can supply it
+    expect(result.outputDir).toBeNull();
   });
 
   it("URL + name", () => {
@@ -175,6 +200,24 @@ describe("parseArgs", () => {
     expect(result.outputDir).toBe("/tmp/out");
   });
 
+  it("--designs-dir, --api-base-url, and --config flags", () => {
+    const result = parseArgs([
+      "node",
+      "fetch-v0.mjs",
+      "https://v0.app/chat/abc123",
+      "--designs-dir",
+      "ui-designs",
+      "--api-base-url",
+      "https://v0-proxy.internal/v1",
+      "--config",
+      "configs/v0.json",
+    ]);
+    expect(result.inputArg).toBe("https://v0.app/chat/abc123");
+    expect(result.designsDir).toBe("ui-designs");
+    expect(result.apiBaseUrl).toBe("https://v0-proxy.internal/v1");
+    expect(result.configPath).toBe("configs/v0.json");
+  });
+
   it("flag before positionals", () => {
     const result = parseArgs(["node", "fetch-v0.mjs", "--output-dir", "/tmp/out", "https://v0.app/chat/abc123"]);
     expect(result.inputArg).toBe("https://v0.app/chat/abc123");
@@ -237,6 +280,136 @@ describe("parseArgs", () => {
     expect(result.listVersions).toBe(false);
   });
 
+  it("--sync flag", () => {
+    const result = parseArgs(["node", "fetch-v0.mjs", "https://v0.app/chat/abc123", "--sync"]);
+    expect(result.inputArg).toBe("https://v0.app/chat/abc123");
+    expect(result.sync).toBe(true);
+    expect(result.customName).toBeNull();
+  });
+
+  it("--sync defaults to false", () => {
+    const result = parseArgs(["node", "fetch-v0.mjs", "https://v0.app/chat/abc123"]);
+    expect(result.sync).toBe(false);
+  });
+
+  it("--force flag", () => {
+    expect(parseArgs(["node", "fetch-v0.mjs", "abc123", "--sync", "--force"]).force).toBe(true);
+    expect(parseArgs(["node", "fetch-v0.mjs", "abc123", "--sync"]).force).toBe(false);
+  });
+
+  it("--include and --exclude are repeatable; --custom-only is a flag", () => {
+    const result = parseArgs([
+      "node",
+      "fetch-v0.mjs",
+      "abc123",
+      "--include",
+      "app/**",
+      "--include",
+      "components/**",
+      "--exclude",
+      "components/ui/**",
+      "--custom-only",
+    ]);
+    expect(result.include).toEqual(["app/**", "components/**"]);
+    expect(result.exclude).toEqual(["components/ui/**"]);
+    expect(result.customOnly).toBe(true);
+    expect(result.customName).toBeNull();
+  });
+
+  it("filters default to empty", () => {
+    const result = parseArgs(["node", "fetch-v0.mjs", "abc123"]);
+    expect(result.include).toEqual([]);
+    expect(result.exclude).toEqual([]);
+    expect(result.customOnly).toBe(false);
+  });
+
+  it("--placeholder-rules takes a path", () => {
+    expect(parseArgs(["node", "fetch-v0.mjs", "abc123", "--placeholder-rules", "rules.json"]).placeholderRules).toBe(
+      "rules.json",
+    );
+    expect(parseArgs(["node", "fetch-v0.mjs", "abc123"]).placeholderRules).toBeNull();
+  });
+
+  it("--details is an opt-in flag", () => {
+    expect(parseArgs(["node", "fetch-v0.mjs", "abc123", "--list-versions", "--details"]).details).toBe(true);
+    expect(parseArgs(["node", "fetch-v0.mjs", "abc123", "--list-versions"]).details).toBe(false);
+  });
+
+  it("--auto-fallback takes an optional step count", () => {
+    expect(parseArgs(["node", "fetch-v0.mjs", "abc123", "--auto-fallback"]).autoFallback).toBe(3);
+    expect(parseArgs(["node", "fetch-v0.mjs", "abc123", "--auto-fallback", "5"]).autoFallback).toBe(5);
+    expect(parseArgs(["node", "fetch-v0.mjs", "abc123", "--auto-fallback", "dashboard"])).toMatchObject({
+      autoFallback: 3,
+      customName: "dashboard",
+    });
+    expect(parseArgs(["node", "fetch-v0.mjs", "abc123"]).autoFallback).toBeNull();
+  });
+
+  it("verify subcommand takes the feature name", () => {
+    const result = parseArgs(["node", "fetch-v0.mjs", "verify", "dashboard", "--output-dir", "/tmp/out"]);
+    expect(result.command).toBe("verify");
+    expect(result.commandArgs).toEqual(["dashboard"]);
+    expect(result.outputDir).toBe("/tmp/out");
+  });
+
+  it("--diff flag consumes two version IDs", () => {
+    const result = parseArgs(["node", "fetch-v0.mjs", "https://v0.app/chat/abc123", "--diff", "ver_1", "ver_2"]);
+    expect(result.inputArg).toBe("https://v0.app/chat/abc123");
+    expect(result.diffVersions).toEqual(["ver_1", "ver_2"]);
+    expect(result.customName).toBeNull();
+  });
+
+  it("--diff followed by another flag keeps only the IDs it found", () => {
+    const result = parseArgs(["node", "fetch-v0.mjs", "https://v0.app/chat/abc123", "--diff", "ver_1", "--sync"]);
+    expect(result.diffVersions).toEqual(["ver_1"]);
+    expect(result.sync).toBe(true);
+  });
+
+  it("--diff defaults to null", () => {
+    const result = parseArgs(["node", "fetch-v0.mjs", "https://v0.app/chat/abc123"]);
+    expect(result.diffVersions).toBeNull();
+  });
+
+  it("--no-cache and --cache-dir flags", () => {
+    const result = parseArgs([
+      "node",
+      "fetch-v0.mjs",
+      "https://v0.app/chat/abc123",
+      "--cache-dir",
+      "/tmp/cache",
+      "--no-cache",
+    ]);
+    expect(result.inputArg).toBe("https://v0.app/chat/abc123");
+    expect(result.cacheDir).toBe("/tmp/cache");
+    expect(result.noCache).toBe(true);
+  });
+
+  it("cache prune subcommand with limits", () => {
+    const result = parseArgs(["node", "fetch-v0.mjs", "cache", "prune", "--max-size", "100", "--max-age", "7"]);
+    expect(result.command).toBe("cache");
+    expect(result.commandArgs).toEqual(["prune"]);
+    expect(result.inputArg).toBeNull();
+    expect(result.maxSizeMb).toBe(100);
+    expect(result.maxAgeDays).toBe(7);
+  });
+
+  it("'cache' after a URL is a feature name, not a subcommand", () => {
+    const result = parseArgs(["node", "fetch-v0.mjs", "https://v0.app/chat/abc123", "cache"]);
+    expect(result.command).toBeNull();
+    expect(result.customName).toBe("cache");
+  });
+
+  it("--max-attempts flag", () => {
+    const result = parseArgs(["node", "fetch-v0.mjs", "https://v0.app/chat/abc123", "--max-attempts", "6"]);
+    expect(result.maxAttempts).toBe(6);
+    expect(result.customName).toBeNull();
+  });
+
+  it("--max-attempts rejects values below 1", () => {
+    const result = parseArgs(["node", "fetch-v0.mjs", "https://v0.app/chat/abc123", "--max-attempts", "0"]);
+    expect(result.maxAttempts).toBeNull();
+  });
+
   it("--version before positionals", () => {
     const result = parseArgs(["node", "fetch-v0.mjs", "--version", "ver_abc123", "https://v0.app/chat/abc123"]);
     expect(result.inputArg).toBe("https://v0.app/chat/abc123");
@@ -327,3 +500,330 @@ describe("parseArgs", () => {
     expect(result.customName).toBe("--unknown-flag");
   });
 });
+
+describe("runCacheCommand", () => {
+  it("prunes with limits converted from MB and days", () => {
+    const logs: string[] = [];
+    let received: Record<string, number> = {};
+    const pruneZipCache = (_dir: string, limits: Record<string, number>) => {
+      received = limits;
+      return { removedEntries: 2, removedBlobs: 1, freedBytes: 2048, remainingBytes: 0 };
+    };
+
+    runCacheCommand(
+      { commandArgs: ["prune"], cacheDir: "/tmp/cache", maxSizeMb: 1, maxAgeDays: 2 },
+      { pruneZipCache, console: { log: (msg: string) => logs.push(msg) } },
+    );
+
+    expect(received).toEqual({ maxBytes: 1024 * 1024, maxAgeMs: 2 * 24 * 60 * 60 * 1000 });
+    expect(logs[0]).toContain("Pruned 2 cache entries and 1 archives (2.0 KB freed");
+  });
+
+  it("throws on an unknown cache action", () => {
+    expect(() =>
+      runCacheCommand({ commandArgs: ["clear"], cacheDir: "/tmp/cache" }, { pruneZipCache: () => ({}), console }),
+    ).toThrow(/Unknown cache command/);
+  });
+});
+
+describe("runMigrateCommand", () => {
+  let outputDir: string;
+  const legacyManifest = {
+    chatId: "abc123XYZ",
+    featureName: "dashboard",
+    fetchedAt: "2024-01-01T00:00:00.000Z",
+    sourceUrl: "https://v0.app/chat/abc123XYZ",
+    versionId: "ver_001",
+    customFileCount: 1,
+    defaultFileCount: 0,
+    warnings: [],
+    files: [{ name: "app/page.tsx", size: 10, isCustom: true }],
+  };
+
+  function writeDesign(feature: string, manifest: unknown) {
+    const dir = path.join(outputDir, "designs", feature, "v0-source");
+    fs.mkdirSync(path.join(dir, "app"), { recursive: true });
+    fs.writeFileSync(path.join(dir, "app", "page.tsx"), "export {};");
+    fs.writeFileSync(path.join(dir, "manifest.json"), JSON.stringify(manifest));
+    return path.join(dir, "manifest.json");
+  }
+
+  function makeDeps(logs: string[], errors: string[]) {
+    return {
+      ...fs,
+      console: { log: (msg: string) => logs.push(msg), error: (msg: string) => errors.push(msg) },
+    };
+  }
+
+  beforeEach(() => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), "migrate-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it("upgrades outdated manifests in place", () => {
+    const manifestPath = writeDesign("dashboard", legacyManifest);
+    const logs: string[] = [];
+
+    const result = runMigrateCommand({ outputDir, commandArgs: [] }, makeDeps(logs, []));
+
+    expect(result).toEqual({ migrated: 1, upToDate: 0, invalid: 0 });
+    const migrated = JSON.parse(fs.readFileSync(manifestPath, "utf8"));
+    expect(migrated.schemaVersion).toBe(2);
+    expect(migrated.files[0].sha256).toMatch(/^[0-9a-f]{64}$/);
+    expect(logs[0]).toContain("migrated from schema 1 to 2");
+  });
+
+  it("is idempotent", () => {
+    writeDesign("dashboard", legacyManifest);
+    runMigrateCommand({ outputDir, commandArgs: [] }, makeDeps([], []));
+
+    const result = runMigrateCommand({ outputDir, commandArgs: [] }, makeDeps([], []));
+
+    expect(result).toEqual({ migrated: 0, upToDate: 1, invalid: 0 });
+  });
+
+  it("only reports with --check", () => {
+    const manifestPath = writeDesign("dashboard", legacyManifest);
+    const logs: string[] = [];
+
+    const result = runMigrateCommand({ outputDir, commandArgs: ["--check"] }, makeDeps(logs, []));
+
+    expect(result.migrated).toBe(1);
+    expect(JSON.parse(fs.readFileSync(manifestPath, "utf8")).schemaVersion).toBeUndefined();
+    expect(logs[0]).toContain("needs migration from schema 1 to 2");
+  });
+
+  it("reports manifests that are still invalid after migration", () => {
+    writeDesign("broken", { featureName: "broken", files: [] });
+    writeDesign("garbage", "not an object");
+    fs.writeFileSync(path.join(outputDir, "designs", "garbage", "v0-source", "manifest.json"), "{oops");
+    const errors: string[] = [];
+
+    const result = runMigrateCommand({ outputDir, commandArgs: [] }, makeDeps([], errors));
+
+    expect(result.invalid).toBe(2);
+    expect(errors).toContain('  manifest: missing required property "chatId"');
+    expect(errors.some((e) => e.includes("not valid JSON"))).toBe(true);
+  });
+});
+
+describe("runVerifyCommand", () => {
+  let outputDir: string;
+
+  function fetchDesign(feature: string, files: Record<string, string>) {
+    const dir = path.join(outputDir, "designs", feature, "v0-source");
+    const manifestFiles = [];
+    for (const [name, content] of Object.entries(files)) {
+      fs.mkdirSync(path.dirname(path.join(dir, name)), { recursive: true });
+      fs.writeFileSync(path.join(dir, name), content);
+      const sha256 = new Bun.CryptoHasher("sha256").update(content).digest("hex");
+      manifestFiles.push({ name, size: content.length, sha256, isCustom: true });
+    }
+    fs.writeFileSync(path.join(dir, "manifest.json"), JSON.stringify({ schemaVersion: 2, files: manifestFiles }));
+    return dir;
+  }
+
+  function makeDeps(logs: string[]) {
+    return { ...fs, console: { log: (msg: string) => logs.push(msg) } };
+  }
+
+  beforeEach(() => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), "verify-cmd-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it("passes on an untouched design", () => {
+    fetchDesign("dashboard", { "app/page.tsx": "page" });
+    const logs: string[] = [];
+
+    const result = runVerifyCommand({ outputDir, commandArgs: ["dashboard"] }, makeDeps(logs));
+
+    expect(result.drifted).toBe(false);
+    expect(logs[0]).toContain("v0-source matches the fetch");
+  });
+
+  it("flags drift when a file was edited in place", () => {
+    const dir = fetchDesign("dashboard", { "app/page.tsx": "page" });
+    fs.writeFileSync(path.join(dir, "app/page.tsx"), "edited");
+    const logs: string[] = [];
+
+    const result = runVerifyCommand({ outputDir, commandArgs: ["dashboard"] }, makeDeps(logs));
+
+    expect(result.drifted).toBe(true);
+    expect(result.modified).toEqual(["app/page.tsx"]);
+    expect(logs[0]).toContain("~ app/page.tsx");
+  });
+
+  it("looks for the design in the configured designs folder", () => {
+    fetchDesign("dashboard", { "app/page.tsx": "page" });
+    fs.renameSync(path.join(outputDir, "designs"), path.join(outputDir, "ui-designs"));
+
+    const result = runVerifyCommand({ outputDir, designsDir: "ui-designs", commandArgs: ["dashboard"] }, makeDeps([]));
+
+    expect(result.drifted).toBe(false);
+    expect(() => runVerifyCommand({ outputDir, commandArgs: ["dashboard"] }, makeDeps([]))).toThrow(
+      /No manifest found/,
+    );
+  });
+
+  it("throws when the design has no manifest", () => {
+    expect(() => runVerifyCommand({ outputDir, commandArgs: ["missing"] }, makeDeps([]))).toThrow(/No manifest found/);
+  });
+
+  it("requires a feature name and rejects path traversal", () => {
+    expect(() => runVerifyCommand({ outputDir, commandArgs: [] }, makeDeps([]))).toThrow(/Usage: verify/);
+    expect(() => runVerifyCommand({ outputDir, commandArgs: ["../etc"] }, makeDeps([]))).toThrow(/path traversal/);
+  });
+});
+
+describe("runBriefCommand", () => {
+  let outputDir: string;
+
+  beforeEach(() => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), "brief-cmd-test-"));
+    const sourceDir = path.join(outputDir, "designs", "dashboard", "v0-source");
+    fs.mkdirSync(path.join(sourceDir, "app"), { recursive: true });
+    fs.writeFileSync(path.join(sourceDir, "app", "page.tsx"), 'import { Badge } from "@/components/ui/badge";');
+    fs.writeFileSync(
+      path.join(sourceDir, "manifest.json"),
+      JSON.stringify({
+        schemaVersion: 2,
+        featureName: "dashboard",
+        files: [{ name: "app/page.tsx", size: 1, isCustom: true, encoding: "utf-8" }],
+      }),
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it("writes adaptation-brief.json next to v0-source", () => {
+    const logs: string[] = [];
+
+    runBriefCommand(
+      { outputDir, commandArgs: ["dashboard"] },
+      { ...fs, console: { log: (msg: string) => logs.push(msg) } },
+    );
+
+    const briefPath = path.join(outputDir, "designs", "dashboard", "adaptation-brief.json");
+    const brief = JSON.parse(fs.readFileSync(briefPath, "utf8"));
+    expect(brief.shadcn.missing).toEqual(["badge"]);
+    expect(brief.shadcn.addCommand).toBe("pnpm dlx shadcn@latest add badge");
+    expect(logs[0]).toContain(`Wrote ${briefPath}`);
+  });
+
+  it("throws when the design has not been fetched", () => {
+    expect(() => runBriefCommand({ outputDir, commandArgs: ["missing"] }, { ...fs, console })).toThrow(
+      /No manifest found/,
+    );
+  });
+});
+
+describe("runAuditCommand", () => {
+  let outputDir: string;
+  let pagePath: string;
+
+  beforeEach(() => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), "audit-cmd-test-"));
+    const sourceDir = path.join(outputDir, "designs", "hero", "v0-source");
+    pagePath = path.join(sourceDir, "app", "page.tsx");
+    fs.mkdirSync(path.dirname(pagePath), { recursive: true });
+    fs.writeFileSync(pagePath, '<main className="bg-white text-zinc-500 bg-emerald-500" />');
+    fs.writeFileSync(path.join(sourceDir, "components.json"), "{}");
+    fs.writeFileSync(
+      path.join(sourceDir, "manifest.json"),
+      JSON.stringify({
+        schemaVersion: 2,
+        featureName: "hero",
+        files: [
+          { name: "app/page.tsx", size: 1, isCustom: true, encoding: "utf-8" },
+          { name: "components.json", size: 2, isCustom: false, encoding: "utf-8" },
+        ],
+      }),
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it("reports hard-coded classes without touching the files", () => {
+    const logs: string[] = [];
+
+    const result = runAuditCommand(
+      { outputDir, commandArgs: ["hero"] },
+      { ...fs, console: { log: (msg: string) => logs.push(msg) } },
+    );
+
+    expect(result.findings.map((f: { className: string }) => f.className)).toEqual([
+      "bg-white",
+      "text-zinc-500",
+      "bg-emerald-500",
+    ]);
+    expect(result.fixed).toBe(0);
+    expect(logs[0]).toContain("app/page.tsx:1:18  bg-white → bg-background");
+    expect(fs.readFileSync(pagePath, "utf8")).toContain("bg-white");
+  });
+
+  it("writes fixed copies next to v0-source with --fix and reports what remains", () => {
+    const result = runAuditCommand(
+      { outputDir, commandArgs: ["hero", "--fix"] },
+      { ...fs, console: { log: () => {} } },
+    );
+
+    expect(result.fixed).toBe(2);
+    expect(result.findings.map((f: { className: string }) => f.className)).toEqual(["bg-emerald-500"]);
+    const fixedPath = path.join(outputDir, "designs", "hero", "audit-fixed", "app", "page.tsx");
+    expect(result.fixDir).toBe(path.join(outputDir, "designs", "hero", "audit-fixed"));
+    expect(fs.readFileSync(fixedPath, "utf8")).toBe(
+      '<main className="bg-background text-muted-foreground bg-emerald-500" />',
+    );
+    // The pinned source stays as fetched, so verify and --sync see no drift
+    expect(fs.readFileSync(pagePath, "utf8")).toBe('<main className="bg-white text-zinc-500 bg-emerald-500" />');
+  });
+
+  it("fixes the adapted copy in place with --fix-dir", () => {
+    const adaptedDir = path.join(outputDir, "src");
+    const adaptedPage = path.join(adaptedDir, "app", "page.tsx");
+    fs.mkdirSync(path.dirname(adaptedPage), { recursive: true });
+    fs.writeFileSync(adaptedPage, 'export const Hero = () => <section className="bg-white p-8" />;');
+
+    const result = runAuditCommand(
+      { outputDir, commandArgs: ["hero", "--fix", "--fix-dir", adaptedDir] },
+      { ...fs, console: { log: () => {} } },
+    );
+
+    expect(result.fixed).toBe(1);
+    expect(fs.readFileSync(adaptedPage, "utf8")).toBe(
+      'export const Hero = () => <section className="bg-background p-8" />;',
+    );
+    expect(fs.readFileSync(pagePath, "utf8")).toContain("bg-white");
+  });
+
+  it("applies a custom mapping from --mapping", () => {
+    const mappingPath = path.join(outputDir, "mapping.json");
+    fs.writeFileSync(mappingPath, JSON.stringify({ "bg-emerald-500": "bg-success" }));
+
+    const result = runAuditCommand(
+      { outputDir, commandArgs: ["--mapping", mappingPath, "hero"] },
+      { ...fs, console: { log: () => {} } },
+    );
+
+    expect(result.findings.map((f: { suggestion: string | null }) => f.suggestion)).toEqual([
+      "bg-background",
+      "text-muted-foreground",
+      "bg-success",
+    ]);
+  });
+
+  it("requires a feature name", () => {
+    expect(() => runAuditCommand({ outputDir, commandArgs: ["--fix"] }, { ...fs, console })).toThrow(/Usage: audit/);
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, expect, it, mock } from "bun:test";
 import { classifyFiles, fetchCustomFileList, validateCustomFiles } from "../v0-setup/scripts/file-filter.mjs";
+import { createPlaceholderRules } from "../v0-setup/scripts/placeholder-detection.mjs";
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -379,6 +380,15 @@ describe("validateCustomFiles", () => {
     expect(result.valid).toHaveLength(0);
     expect(result.warnings).toHaveLength(2);
   });
+
+  it("skips the placeholder check for binary files", () => {
+    const customFiles = [{ name: "public/hero.png", content: null, encoding: "binary" }];
+
+    const result = validateCustomFiles(customFiles, isPlaceholderFn);
+
+    expect(result.warnings).toHaveLength(0);
+    expect(result.valid).toHaveLength(1);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -496,3 +506,59 @@ describe("fetchCustomFileList — edge cases", () => {
     expect(result).toHaveLength(0);
   });
 });
+
+describe("validateCustomFiles with placeholder rules", () => {
+  it("reports which rule fired for each file", () => {
+    const result = validateCustomFiles([
+      { name: "app/page.tsx", content: "GENERATING" },
+      { name: "components/form.tsx", content: "export function Form() {\n  // ... rest of component\n}" },
+      { name: "app/layout.tsx", content: "export default function Layout({ children }) { return children; }" },
+    ]);
+
+    expect(result.warnings).toEqual([
+      {
+        name: "app/page.tsx",
+        reason: "File content is a GENERATING placeholder — generation may still be in progress",
+        ruleId: "generating",
+        severity: "error",
+      },
+      {
+        name: "components/form.tsx",
+        reason: 'File elides code with a stub comment ("// ... rest of component") instead of the full source',
+        ruleId: "elided-code",
+        severity: "error",
+      },
+    ]);
+    expect(result.valid.map((f) => f.name)).toEqual(["app/layout.tsx"]);
+  });
+
+  it("keeps files that only match warning rules", () => {
+    const result = validateCustomFiles([{ name: "lib/api.ts", content: "// TODO: implement\nexport {};" }]);
+
+    expect(result.warnings[0]).toMatchObject({ ruleId: "todo-stub", severity: "warning" });
+    expect(result.valid.map((f) => f.name)).toEqual(["lib/api.ts"]);
+  });
+
+  it("includes the line and column of syntax findings", () => {
+    const result = validateCustomFiles([{ name: "app/globals.css", content: ":root {\n  --radius: 0.5rem;\n" }]);
+
+    expect(result.warnings[0]).toMatchObject({ name: "app/globals.css", ruleId: "truncated", line: 3, column: 1 });
+    expect(result.valid).toHaveLength(0);
+  });
+
+  it("uses the rules passed in", () => {
+    const rules = createPlaceholderRules([{ id: "lorem", pattern: "lorem ipsum", flags: "i" }]);
+
+    const result = validateCustomFiles([{ name: "app/page.tsx", content: "<p>Lorem ipsum dolor</p>" }], rules);
+
+    expect(result.warnings).toEqual([
+      { name: "app/page.tsx", reason: 'File matches placeholder rule "lorem"', ruleId: "lorem", severity: "error" },
+    ]);
+  });
+
+  it("falls back to a generic rule id when a predicate flags a file no rule explains", () => {
+    const result = validateCustomFiles([{ name: "a.tsx", content: "export const a = 1;" }], () => true);
+
+    expect(result.warnings[0]).toMatchObject({ ruleId: "placeholder", severity: "error" });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "bun:test";
+import { describeFile, isBinaryFile, lookupMimeType, sha256Hex } from "../v0-setup/scripts/file-metadata.mjs";
+
+const PNG_HEADER = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d]);
+
+function text(value: string): Uint8Array {
+  return new TextEncoder().encode(value);
+}
+
+// ---------------------------------------------------------------------------
+// lookupMimeType
+// ---------------------------------------------------------------------------
+
+describe("lookupMimeType", () => {
+  it("maps source, style, and asset extensions", () => {
+    expect(lookupMimeType("app/page.tsx")).toBe("text/tsx");
+    expect(lookupMimeType("app/globals.css")).toBe("text/css");
+    expect(lookupMimeType("public/logo.PNG")).toBe("image/png");
+    expect(lookupMimeType("public/fonts/inter.woff2")).toBe("font/woff2");
+  });
+
+  it("returns null for unknown extensions and dotfiles", () => {
+    expect(lookupMimeType("Makefile")).toBeNull();
+    expect(lookupMimeType(".gitignore")).toBeNull();
+    expect(lookupMimeType("data.unknownext")).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// isBinaryFile
+// ---------------------------------------------------------------------------
+
+describe("isBinaryFile", () => {
+  it("treats known binary extensions as binary regardless of content", () => {
+    expect(isBinaryFile("public/favicon.ico", text("not really an icon"))).toBe(true);
+  });
+
+  it("treats SVG as text", () => {
+    expect(isBinaryFile("public/icon.svg", text("<svg></svg>"))).toBe(false);
+  });
+
+  it("detects NUL bytes in files with unknown extensions", () => {
+    expect(isBinaryFile("assets/blob.dat", PNG_HEADER)).toBe(true);
+  });
+
+  it("detects invalid UTF-8", () => {
+    expect(isBinaryFile("assets/latin1.txt", new Uint8Array([0x63, 0x61, 0x66, 0xe9]))).toBe(true);
+  });
+
+  it("treats valid UTF-8 source as text", () => {
+    expect(isBinaryFile("app/page.tsx", text("export const title = 'Café ☕';"))).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// describeFile
+// ---------------------------------------------------------------------------
+
+describe("describeFile", () => {
+  it("decodes text files and records their hash and MIME type", () => {
+    const data = text("export {};\n");
+
+    expect(describeFile("lib/utils.ts", data)).toEqual({
+      size: data.byteLength,
+      sha256: sha256Hex(data),
+      mimeType: "text/typescript",
+      encoding: "utf-8",
+      content: "export {};\n",
+    });
+  });
+
+  it("never decodes binary files", () => {
+    const result = describeFile("public/logo.png", PNG_HEADER);
+
+    expect(result.encoding).toBe("binary");
+    expect(result.mimeType).toBe("image/png");
+    expect(result.content).toBeNull();
+    expect(result.sha256).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it("falls back to generic MIME types for unknown extensions", () => {
+    expect(describeFile("LICENSE", text("MIT")).mimeType).toBe("text/plain");
+    expect(describeFile("blob.dat", PNG_HEADER).mimeType).toBe("application/octet-stream");
+  });
+});
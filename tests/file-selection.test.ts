@@ -0,0 +1,78 @@
+import { describe, expect, it } from "bun:test";
+import { compileGlob, createFileSelector, globToRegExp } from "../v0-setup/scripts/file-selection.mjs";
+
+// ---------------------------------------------------------------------------
+// globToRegExp / compileGlob
+// ---------------------------------------------------------------------------
+
+describe("globToRegExp", () => {
+  it("matches * within a single path segment", () => {
+    const re = globToRegExp("components/*.tsx");
+    expect(re.test("components/header.tsx")).toBe(true);
+    expect(re.test("components/ui/button.tsx")).toBe(false);
+  });
+
+  it("matches ** across segments, including none", () => {
+    const re = globToRegExp("components/**/*.tsx");
+    expect(re.test("components/ui/button.tsx")).toBe(true);
+    expect(re.test("components/header.tsx")).toBe(true);
+    expect(re.test("app/page.tsx")).toBe(false);
+  });
+
+  it("supports ? and {a,b}", () => {
+    expect(globToRegExp("file?.ts").test("file1.ts")).toBe(true);
+    expect(globToRegExp("*.{ts,tsx}").test("page.tsx")).toBe(true);
+    expect(globToRegExp("*.{ts,tsx}").test("page.css")).toBe(false);
+  });
+
+  it("escapes regex metacharacters", () => {
+    expect(globToRegExp("app/(marketing)/page.tsx").test("app/(marketing)/page.tsx")).toBe(true);
+    expect(globToRegExp("a.ts").test("abts")).toBe(false);
+  });
+
+  it("rejects an unclosed brace", () => {
+    expect(() => globToRegExp("*.{ts")).toThrow(/unclosed/);
+  });
+});
+
+describe("compileGlob", () => {
+  it("matches patterns without a slash against the file name in any directory", () => {
+    const match = compileGlob("*.css");
+    expect(match("app/globals.css")).toBe(true);
+    expect(match("styles.css")).toBe(true);
+  });
+
+  it("anchors patterns with a slash to the full path", () => {
+    const match = compileGlob("app/*.css");
+    expect(match("app/globals.css")).toBe(true);
+    expect(match("styles/app/globals.css")).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// createFileSelector
+// ---------------------------------------------------------------------------
+
+describe("createFileSelector", () => {
+  it("returns null when nothing is filtered", () => {
+    expect(createFileSelector()).toBeNull();
+    expect(createFileSelector({ include: [], exclude: [] })).toBeNull();
+  });
+
+  it("applies include, then exclude", () => {
+    const select = createFileSelector({ include: ["app/**", "components/**"], exclude: ["components/ui/**"] });
+
+    expect(select?.("app/page.tsx")).toBe(true);
+    expect(select?.("components/header.tsx")).toBe(true);
+    expect(select?.("components/ui/button.tsx")).toBe(false);
+    expect(select?.("package.json")).toBe(false);
+  });
+
+  it("restricts to custom files", () => {
+    const select = createFileSelector({ customFileNames: ["app/page.tsx", "app/globals.css"], exclude: ["*.css"] });
+
+    expect(select?.("app/page.tsx")).toBe(true);
+    expect(select?.("app/globals.css")).toBe(false);
+    expect(select?.("components/ui/button.tsx")).toBe(false);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "bun:test";
+import {
+  buildImportInventory,
+  classifySpecifier,
+  isScriptFile,
+  packageNameOf,
+  parseImports,
+} from "../v0-setup/scripts/import-inventory.mjs";
+
+// ---------------------------------------------------------------------------
+// parseImports
+// ---------------------------------------------------------------------------
+
+describe("parseImports", () => {
+  it("finds default, named, namespace, type, and multi-line imports", () => {
+    const source = [
+      'import React from "react";',
+      "import { Button } from '@/components/ui/button';",
+      'import * as Icons from "lucide-react";',
+      'import type { Metadata } from "next";',
+      "import {",
+      "  Card,",
+      "  CardHeader,",
+      '} from "@/components/ui/card";',
+    ].join("\n");
+
+    expect(parseImports(source)).toEqual([
+      "react",
+      "@/components/ui/button",
+      "lucide-react",
+      "next",
+      "@/components/ui/card",
+    ]);
+  });
+
+  it("finds side-effect imports, re-exports, dynamic imports, and require", () => {
+    const source = [
+      'import "./globals.css";',
+      'export { cn } from "@/lib/utils";',
+      'export * from "./types";',
+      'const Chart = dynamic(() => import("@/components/chart"));',
+      'const fs = require("node:fs");',
+    ].join("\n");
+
+    expect(parseImports(source)).toEqual(["./globals.css", "@/lib/utils", "./types", "@/components/chart", "node:fs"]);
+  });
+
+  it("ignores commented-out imports", () => {
+    const source = ['// import { Old } from "old-package";', '/* import "gone"; */', 'import x from "kept";'].join(
+      "\n",
+    );
+
+    expect(parseImports(source)).toEqual(["kept"]);
+  });
+
+  it("is not thrown off by apostrophes in JSX text", () => {
+    const source = [
+      'import { Button } from "@/components/ui/button";',
+      "export default function Page() { return <p>Don't have an account?</p>; }",
+      'const Lazy = lazy(() => import("@/components/lazy"));',
+    ].join("\n");
+
+    expect(parseImports(source)).toEqual(["@/components/ui/button", "@/components/lazy"]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// classifySpecifier / packageNameOf / isScriptFile
+// ---------------------------------------------------------------------------
+
+describe("classifySpecifier", () => {
+  it("classifies each kind of specifier", () => {
+    expect(classifySpecifier("@/components/ui/dropdown-menu")).toEqual({ kind: "ui", name: "dropdown-menu" });
+    expect(classifySpecifier("@/lib/utils")).toEqual({ kind: "alias", name: "@/lib/utils" });
+    expect(classifySpecifier("./chart")).toEqual({ kind: "relative", name: "./chart" });
+    expect(classifySpecifier("node:path")).toEqual({ kind: "builtin", name: "node:path" });
+    expect(classifySpecifier("path")).toEqual({ kind: "builtin", name: "path" });
+    expect(classifySpecifier("@radix-ui/react-slot")).toEqual({ kind: "package", name: "@radix-ui/react-slot" });
+    expect(classifySpecifier("date-fns/locale")).toEqual({ kind: "package", name: "date-fns" });
+  });
+
+  it("honors a custom ui alias", () => {
+    expect(classifySpecifier("~/ui/button", { uiAlias: "~/ui" })).toEqual({ kind: "ui", name: "button" });
+    expect(classifySpecifier("@/components/ui/button", { uiAlias: "~/ui" }).kind).toBe("alias");
+  });
+});
+
+describe("packageNameOf", () => {
+  it("keeps the scope for scoped packages", () => {
+    expect(packageNameOf("@tanstack/react-table/build")).toBe("@tanstack/react-table");
+    expect(packageNameOf("recharts")).toBe("recharts");
+  });
+});
+
+describe("isScriptFile", () => {
+  it("accepts JS and TS sources only", () => {
+    expect(isScriptFile("app/page.tsx")).toBe(true);
+    expect(isScriptFile("lib/util.mjs")).toBe(true);
+    expect(isScriptFile("app/globals.css")).toBe(false);
+    expect(isScriptFile("types/env.d.ts")).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// buildImportInventory
+// ---------------------------------------------------------------------------
+
+describe("buildImportInventory", () => {
+  it("groups imports by kind with the files that import them", () => {
+    const inventory = buildImportInventory([
+      {
+        name: "app/page.tsx",
+        content: 'import { Button } from "@/components/ui/button";\nimport { cn } from "@/lib/utils";',
+      },
+      {
+        name: "components/chart.tsx",
+        content: 'import { Button } from "@/components/ui/button";\nimport { LineChart } from "recharts";',
+      },
+      { name: "app/globals.css", content: '@import "tailwindcss";' },
+    ]);
+
+    expect(inventory).toEqual({
+      uiComponents: [{ name: "button", importedBy: ["app/page.tsx", "components/chart.tsx"] }],
+      packages: [{ name: "recharts", importedBy: ["components/chart.tsx"] }],
+      aliases: [{ name: "@/lib/utils", importedBy: ["app/page.tsx"] }],
+    });
+  });
+});
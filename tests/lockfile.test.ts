@@ -0,0 +1,129 @@
+import { describe, expect, it } from "bun:test";
+import { InvalidInputError } from "../v0-setup/scripts/errors.mjs";
+import {
+  buildLockEntry,
+  compareLockedFiles,
+  LOCKFILE_VERSION,
+  lockfilePath,
+  readLockfile,
+  writeLockfile,
+} from "../v0-setup/scripts/lockfile.mjs";
+
+function enoent(): never {
+  const err = new Error("ENOENT") as Error & { code: string };
+  err.code = "ENOENT";
+  throw err;
+}
+
+const MANIFEST = {
+  schemaVersion: 2,
+  chatId: "abc123XYZ",
+  featureName: "dashboard",
+  fetchedAt: "2024-06-01T00:00:00.000Z",
+  sourceUrl: "https://v0.app/chat/abc123XYZ",
+  versionId: "ver_002",
+  files: [
+    { name: "lib/utils.ts", size: 3, sha256: "b".repeat(64), isCustom: false },
+    { name: "app/page.tsx", size: 4, sha256: "a".repeat(64), isCustom: true },
+    { name: "components/ui/button.tsx", size: 5, sha256: "c".repeat(64), isCustom: false, written: false },
+  ],
+};
+
+// ---------------------------------------------------------------------------
+// readLockfile / writeLockfile
+// ---------------------------------------------------------------------------
+
+describe("readLockfile", () => {
+  it("returns an empty lockfile when none exists", () => {
+    expect(readLockfile("/project", enoent)).toEqual({ lockfileVersion: LOCKFILE_VERSION, designs: {} });
+  });
+
+  it("reads designs/designs.lock.json under the output directory", () => {
+    let readPath = "";
+    const lock = readLockfile("/project", (path: string) => {
+      readPath = path;
+      return JSON.stringify({ lockfileVersion: 1, designs: { dashboard: { versionId: "ver_002" } } });
+    });
+
+    expect(readPath).toBe(lockfilePath("/project"));
+    expect(readPath).toMatch(/designs\/designs\.lock\.json$/);
+    expect(lock.designs.dashboard.versionId).toBe("ver_002");
+  });
+
+  it("reads the lockfile from a renamed designs folder", () => {
+    let readPath = "";
+    readLockfile(
+      "/project",
+      (path: string) => {
+        readPath = path;
+        return JSON.stringify({ lockfileVersion: 1, designs: {} });
+      },
+      "ui/designs",
+    );
+
+    expect(readPath).toBe("/project/ui/designs/designs.lock.json");
+  });
+
+  it("throws on invalid JSON", () => {
+    expect(() => readLockfile("/project", () => "<<<<<<< HEAD")).toThrow(/not valid JSON/);
+    expect(() => readLockfile("/project", () => "<<<<<<< HEAD")).toThrow(InvalidInputError);
+  });
+
+  it("refuses a lockfile from a newer version of the script", () => {
+    expect(() => readLockfile("/project", () => JSON.stringify({ lockfileVersion: 99, designs: {} }))).toThrow(
+      /newer than this script supports/,
+    );
+  });
+});
+
+describe("writeLockfile", () => {
+  it("writes designs sorted by feature name with a trailing newline", () => {
+    let written = "";
+    writeLockfile("/project", { designs: { zeta: {}, alpha: {} } }, (_path: string, data: string) => {
+      written = data;
+    });
+
+    expect(Object.keys(JSON.parse(written).designs)).toEqual(["alpha", "zeta"]);
+    expect(written.endsWith("}\n")).toBe(true);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// buildLockEntry
+// ---------------------------------------------------------------------------
+
+describe("buildLockEntry", () => {
+  it("pins the chat, version, and hashes of files written to disk", () => {
+    expect(buildLockEntry(MANIFEST)).toEqual({
+      sourceUrl: "https://v0.app/chat/abc123XYZ",
+      chatId: "abc123XYZ",
+      versionId: "ver_002",
+      files: { "app/page.tsx": "a".repeat(64), "lib/utils.ts": "b".repeat(64) },
+    });
+  });
+
+  it("records the fetch filters so a replay selects the same files", () => {
+    const entry = buildLockEntry(MANIFEST, { include: [], exclude: ["*.css"], customOnly: true });
+
+    expect(entry.filters).toEqual({ include: [], exclude: ["*.css"], customOnly: true });
+  });
+
+  it("does not record timestamps", () => {
+    expect(JSON.stringify(buildLockEntry(MANIFEST))).not.toContain("2024-06-01");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// compareLockedFiles
+// ---------------------------------------------------------------------------
+
+describe("compareLockedFiles", () => {
+  it("reports changed, missing, and unexpected files", () => {
+    const result = compareLockedFiles(
+      { "a.ts": "1", "b.ts": "2", "c.ts": "3" },
+      { "a.ts": "1", "b.ts": "x", "d.ts": "4" },
+    );
+
+    expect(result).toEqual({ changed: ["b.ts"], missing: ["c.ts"], unexpected: ["d.ts"] });
+  });
+});
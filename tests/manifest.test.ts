@@ -0,0 +1,202 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  findDesignManifests,
+  getManifestVersion,
+  loadManifestSchema,
+  MANIFEST_SCHEMA_VERSION,
+  migrateManifest,
+  validateManifest,
+} from "../v0-setup/scripts/manifest.mjs";
+
+const tmpDirs: string[] = [];
+
+function makeTempDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "manifest-test-"));
+  tmpDirs.push(dir);
+  return dir;
+}
+
+afterEach(() => {
+  for (const dir of tmpDirs) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+  tmpDirs.length = 0;
+});
+
+function makeManifest(overrides: Record<string, unknown> = {}) {
+  return {
+    schemaVersion: MANIFEST_SCHEMA_VERSION,
+    chatId: "abc123XYZ",
+    featureName: "dashboard",
+    fetchedAt: "2024-06-01T00:00:00.000Z",
+    sourceUrl: "https://v0.app/chat/abc123XYZ",
+    versionId: "ver_002",
+    versionSelectedFrom: 3,
+    customFileCount: 1,
+    defaultFileCount: 1,
+    warnings: [],
+    files: [
+      {
+        name: "app/page.tsx",
+        size: 10,
+        sha256: "a".repeat(64),
+        mimeType: "text/tsx",
+        encoding: "utf-8",
+        isCustom: true,
+      },
+      { name: "lib/utils.ts", size: 5, isCustom: false },
+    ],
+    ...overrides,
+  };
+}
+
+/** The shape written before schemaVersion existed. */
+function makeLegacyManifest() {
+  const { schemaVersion: _schemaVersion, ...rest } = makeManifest({
+    files: [
+      { name: "app/page.tsx", size: 10, isCustom: true },
+      { name: "lib/utils.ts", size: 5, isCustom: false },
+    ],
+  });
+  return rest;
+}
+
+// ---------------------------------------------------------------------------
+// validateManifest
+// ---------------------------------------------------------------------------
+
+describe("validateManifest", () => {
+  it("accepts a current manifest", () => {
+    expect(validateManifest(makeManifest())).toEqual({ valid: true, errors: [] });
+  });
+
+  it("publishes a schema pinned to the current version", () => {
+    expect(loadManifestSchema().properties.schemaVersion.const).toBe(MANIFEST_SCHEMA_VERSION);
+  });
+
+  it("reports missing required properties", () => {
+    const { files: _files, ...manifest } = makeManifest();
+
+    const result = validateManifest(manifest);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('manifest: missing required property "files"');
+  });
+
+  it("reports the path of nested errors", () => {
+    const manifest = makeManifest();
+    (manifest.files[0] as Record<string, unknown>).sha256 = "not-a-hash";
+    (manifest.files[1] as Record<string, unknown>).encoding = "latin1";
+
+    const { errors } = validateManifest(manifest);
+
+    expect(errors).toContain("files[0].sha256: must match ^[0-9a-f]{64}$");
+    expect(errors.some((e: string) => e.startsWith("files[1].encoding: must be one of"))).toBe(true);
+  });
+
+  it("rejects wrong types and an outdated schemaVersion", () => {
+    const { errors } = validateManifest(makeManifest({ schemaVersion: 1, customFileCount: "2" }));
+
+    expect(errors).toContain("schemaVersion: must be 2");
+    expect(errors).toContain("customFileCount: must be integer, got string");
+  });
+
+  it("allows properties the schema does not list", () => {
+    expect(validateManifest(makeManifest({ notes: "extra" })).valid).toBe(true);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// migrateManifest
+// ---------------------------------------------------------------------------
+
+describe("migrateManifest", () => {
+  it("treats an unversioned manifest as version 1", () => {
+    expect(getManifestVersion(makeLegacyManifest())).toBe(1);
+  });
+
+  it("upgrades an unversioned manifest to a valid current one", () => {
+    const { manifest, fromVersion, migrated } = migrateManifest(makeLegacyManifest());
+
+    expect(fromVersion).toBe(1);
+    expect(migrated).toBe(true);
+    expect(manifest.schemaVersion).toBe(MANIFEST_SCHEMA_VERSION);
+    expect(validateManifest(manifest).errors).toEqual([]);
+  });
+
+  it("fills in counts, warnings, and file entries missing from early manifests", () => {
+    const { manifest } = migrateManifest({
+      chatId: "abc",
+      featureName: "x",
+      fetchedAt: "2024-01-01T00:00:00Z",
+      sourceUrl: "https://v0.app/chat/abc",
+      versionId: "v1",
+      files: ["app/page.tsx", { name: "lib/utils.ts", size: 3, isCustom: true }],
+    });
+
+    expect(manifest.files[0]).toEqual({ name: "app/page.tsx", size: 0, isCustom: false });
+    expect(manifest.customFileCount).toBe(1);
+    expect(manifest.defaultFileCount).toBe(1);
+    expect(manifest.warnings).toEqual([]);
+    expect(validateManifest(manifest).valid).toBe(true);
+  });
+
+  it("hashes files from disk when a design directory is given", () => {
+    const designDir = makeTempDir();
+    fs.mkdirSync(path.join(designDir, "app"));
+    fs.writeFileSync(path.join(designDir, "app", "page.tsx"), "export {};");
+
+    const { manifest } = migrateManifest(makeLegacyManifest(), { designDir, readFileSync: fs.readFileSync });
+
+    expect(manifest.files[0].sha256).toMatch(/^[0-9a-f]{64}$/);
+    expect(manifest.files[0].encoding).toBe("utf-8");
+    expect(manifest.files[0].size).toBe(10);
+    // lib/utils.ts is missing on disk
+    expect(manifest.files[1].sha256).toBeUndefined();
+  });
+
+  it("leaves a current manifest untouched", () => {
+    const current = makeManifest();
+
+    const { manifest, migrated } = migrateManifest(current);
+
+    expect(migrated).toBe(false);
+    expect(manifest).toBe(current);
+  });
+
+  it("refuses manifests from a newer version of the script", () => {
+    expect(() => migrateManifest(makeManifest({ schemaVersion: MANIFEST_SCHEMA_VERSION + 1 }))).toThrow(
+      /newer than this script supports/,
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// findDesignManifests
+// ---------------------------------------------------------------------------
+
+describe("findDesignManifests", () => {
+  it("finds v0-source manifests and legacy manifests in the feature folder", () => {
+    const outputDir = makeTempDir();
+    fs.mkdirSync(path.join(outputDir, "designs", "current", "v0-source"), { recursive: true });
+    fs.writeFileSync(path.join(outputDir, "designs", "current", "v0-source", "manifest.json"), "{}");
+    fs.mkdirSync(path.join(outputDir, "designs", "legacy"), { recursive: true });
+    fs.writeFileSync(path.join(outputDir, "designs", "legacy", "manifest.json"), "{}");
+    fs.mkdirSync(path.join(outputDir, "designs", "empty"), { recursive: true });
+    fs.writeFileSync(path.join(outputDir, "designs", "README.md"), "");
+
+    const found = findDesignManifests(outputDir, fs);
+
+    expect(found.map((d: { featureName: string; legacyLayout: boolean }) => [d.featureName, d.legacyLayout])).toEqual([
+      ["current", false],
+      ["legacy", true],
+    ]);
+  });
+
+  it("returns nothing when there is no designs folder", () => {
+    expect(findDesignManifests(makeTempDir(), fs)).toEqual([]);
+  });
+});
@@ -1,5 +1,12 @@
 import { describe, expect, it } from "bun:test";
-import { isPlaceholderContent, validateFiles } from "../v0-setup/scripts/placeholder-detection.mjs";
+import {
+  BUILTIN_PLACEHOLDER_RULES,
+  createPlaceholderRules,
+  findPlaceholderRule,
+  isPlaceholderContent,
+  loadPlaceholderRules,
+  validateFiles,
+} from "../v0-setup/scripts/placeholder-detection.mjs";
 
 describe("isPlaceholderContent", () => {
   it('returns true for "GENERATING"', () => {
@@ -54,6 +61,15 @@ describe("isPlaceholderContent", () => {
     expect(isPlaceholderContent("0")).toBe(false);
   });
 
+  it("treats binary files as valid without checking their (null) content", () => {
+    const files = [{ name: "public/hero.png", content: null, encoding: "binary" }];
+
+    const { valid, placeholders } = validateFiles(files);
+
+    expect(valid).toHaveLength(1);
+    expect(placeholders).toHaveLength(0);
+  });
+
   // --- Edge cases found during probing ---
 
   it("returns true for null input (treated as placeholder — no content)", () => {
@@ -209,3 +225,169 @@ describe("validateFiles", () => {
     expect(valid[0].name).toBeUndefined();
   });
 });
+
+describe("findPlaceholderRule", () => {
+  const ruleFor = (name: string, content: string) => findPlaceholderRule({ name, content })?.id ?? null;
+
+  it("reports empty and GENERATING files under their own rules", () => {
+    expect(ruleFor("app/page.tsx", "  \n")).toBe("empty");
+    expect(ruleFor("app/page.tsx", "GENERATING")).toBe("generating");
+  });
+
+  it("detects elided-code stub comments", () => {
+    expect(ruleFor("components/form.tsx", "export function Form() {\n  // ... rest of component\n}")).toBe(
+      "elided-code",
+    );
+    expect(ruleFor("app/page.tsx", "<main>\n  {/* ... */}\n</main>")).toBe("elided-code");
+    expect(ruleFor("lib/api.ts", "export const a = 1;\n// ...existing code...\n")).toBe("elided-code");
+    expect(ruleFor("lib/api.ts", "export const a = 1;\n// rest of the handlers\n")).toBe("elided-code");
+    expect(ruleFor("lib/api.ts", "export const a = 1;\n/* ... rest of file ... */\n")).toBe("elided-code");
+  });
+
+  it("leaves ordinary explanatory comments alone", () => {
+    const withComment = (comment: string) => `export const items = [1, 2, 3];\n${comment}\nexport const more = 4;\n`;
+
+    expect(ruleFor("lib/list.ts", withComment("// Rest of the items are rendered lazily"))).toBeNull();
+    expect(
+      ruleFor("lib/list.ts", withComment("// rest of the logic lives in useCart so the page stays thin")),
+    ).toBeNull();
+    expect(
+      ruleFor("lib/list.ts", withComment("// ...which is why the cache is invalidated on every save, see #42")),
+    ).toBeNull();
+    expect(ruleFor("lib/list.ts", withComment("// The rest of the form is validated on submit"))).toBeNull();
+    expect(ruleFor("lib/list.ts", "export const a = 1; // ... rest of component\n")).toBeNull();
+  });
+
+  it("detects files cut off mid-JSX", () => {
+    const truncated = 'export default function Page() {\n  return (\n    <div className="p-4">\n      <h1>Dash';
+
+    expect(ruleFor("app/page.tsx", truncated)).toBe("truncated");
+    expect(ruleFor("app/page.tsx", "const s = `unterminated, never closed")).toBe("truncated");
+    expect(ruleFor("app/page.tsx", "/* never closed")).toBe("truncated");
+  });
+
+  it("does not flag complete files with apostrophes, comments, and strings containing brackets", () => {
+    const source = [
+      "// Renders the header (and nav)",
+      "export default function Header() {",
+      '  const label = "open {";',
+      "  return <p>Don't have an account? {label}</p>;",
+      "}",
+    ].join("\n");
+
+    expect(ruleFor("components/header.tsx", source)).toBeNull();
+  });
+
+  it("checks CSS files for truncation and skips other file types", () => {
+    expect(ruleFor("app/globals.css", ":root {\n  --radius: 0.5rem;")).toBe("truncated");
+    expect(ruleFor("app/globals.css", ":root {\n  --radius: 0.5rem;\n}\n")).toBeNull();
+    expect(ruleFor("README.md", "Use `code( here")).toBeNull();
+  });
+
+  it("reports where a file fails to parse", () => {
+    const rule = findPlaceholderRule({
+      name: "components/card.tsx",
+      content: "export function Card() {\n  return <div><span>Title</div>;\n}\n",
+    });
+
+    expect(rule).toMatchObject({ id: "syntax-error", severity: "error", line: 2, column: 26 });
+    expect(rule?.reason).toContain("expected </span>");
+  });
+
+  it("includes the location of the unclosed construct in truncation reasons", () => {
+    const rule = findPlaceholderRule({ name: "app/page.tsx", content: "export default function Page() {\n  return (" });
+
+    expect(rule).toMatchObject({ id: "truncated", line: 2, column: 11 });
+    expect(rule?.reason).toContain("opened at 2:10");
+  });
+
+  it("flags TODO: implement bodies as warnings", () => {
+    const rule = findPlaceholderRule({
+      name: "lib/api.ts",
+      content: "export async function save() {\n  // TODO: implement\n}",
+    });
+
+    expect(rule?.id).toBe("todo-stub");
+    expect(rule?.severity).toBe("warning");
+  });
+
+  it("never matches binary files", () => {
+    expect(findPlaceholderRule({ name: "public/logo.png", content: null, encoding: "binary" })).toBeNull();
+  });
+});
+
+describe("createPlaceholderRules", () => {
+  it("returns the built-in rules by default", () => {
+    expect(createPlaceholderRules().map((r) => r.id)).toEqual(BUILTIN_PLACEHOLDER_RULES.map((r) => r.id));
+  });
+
+  it("adds pattern rules from config, optionally scoped to files", () => {
+    const rules = createPlaceholderRules([
+      { id: "lorem", severity: "warning", reason: "Filler text", pattern: "lorem ipsum", flags: "i" },
+      { id: "mock-data", pattern: "MOCK_", files: ["lib/**"] },
+    ]);
+
+    expect(findPlaceholderRule({ name: "app/page.tsx", content: "<p>Lorem ipsum</p>" }, rules)).toMatchObject({
+      id: "lorem",
+      severity: "warning",
+      reason: "Filler text",
+    });
+    expect(findPlaceholderRule({ name: "app/page.tsx", content: "const MOCK_USERS = [];" }, rules)).toBeNull();
+    expect(findPlaceholderRule({ name: "lib/data.ts", content: "const MOCK_USERS = [];" }, rules)).toMatchObject({
+      id: "mock-data",
+      severity: "error",
+      reason: 'File matches placeholder rule "mock-data"',
+    });
+  });
+
+  it("matches every file with a global or sticky pattern", () => {
+    const rules = createPlaceholderRules([
+      { id: "lorem-g", pattern: "lorem", flags: "gi" },
+      { id: "mock-y", pattern: "MOCK_", flags: "y", files: ["lib/**"] },
+    ]);
+    const lorem = ["a.tsx", "b.tsx", "c.tsx"].map((name) => ({ name, content: "<p>Lorem ipsum</p>" }));
+
+    expect(lorem.map((file) => findPlaceholderRule(file, rules)?.id)).toEqual(["lorem-g", "lorem-g", "lorem-g"]);
+    expect(findPlaceholderRule({ name: "lib/a.ts", content: "MOCK_A" }, rules)?.id).toBe("mock-y");
+    expect(findPlaceholderRule({ name: "lib/b.ts", content: "MOCK_B" }, rules)?.id).toBe("mock-y");
+  });
+
+  it("overrides a built-in rule's severity or disables it by id", () => {
+    const rules = createPlaceholderRules([
+      { id: "todo-stub", severity: "error" },
+      { id: "elided-code", severity: "off" },
+    ]);
+
+    expect(rules.map((r) => r.id)).not.toContain("elided-code");
+    expect(findPlaceholderRule({ name: "a.ts", content: "// TODO: implement" }, rules)?.severity).toBe("error");
+  });
+
+  it("rejects rules without an id, with a bad severity, or without a pattern", () => {
+    expect(() => createPlaceholderRules([{ pattern: "x" }])).toThrow(/missing an id/);
+    expect(() => createPlaceholderRules([{ id: "x", pattern: "x", severity: "fatal" }])).toThrow(/severity/);
+    expect(() => createPlaceholderRules([{ id: "x" }])).toThrow(/needs a pattern/);
+    expect(() => createPlaceholderRules([{ id: "x", pattern: "(" }])).toThrow(/invalid pattern/);
+  });
+});
+
+describe("loadPlaceholderRules", () => {
+  const enoent = () => {
+    throw Object.assign(new Error("ENOENT"), { code: "ENOENT" });
+  };
+
+  it("reads a rules object or a bare array", () => {
+    const rule = { id: "lorem", pattern: "lorem" };
+
+    expect(loadPlaceholderRules("rules.json", () => JSON.stringify({ rules: [rule] }))).toEqual([rule]);
+    expect(loadPlaceholderRules("rules.json", () => JSON.stringify([rule]))).toEqual([rule]);
+  });
+
+  it("returns no rules for a missing optional file and throws for a required one", () => {
+    expect(loadPlaceholderRules("rules.json", enoent)).toEqual([]);
+    expect(() => loadPlaceholderRules("rules.json", enoent, { required: true })).toThrow(/not found: rules.json/);
+  });
+
+  it("throws on invalid JSON", () => {
+    expect(() => loadPlaceholderRules("rules.json", () => "{")).toThrow(/not valid JSON/);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "bun:test";
+import { createProgressLine, formatProgress } from "../v0-setup/scripts/progress.mjs";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * A stream recording every write, with a clock the test advances by hand.
+ */
+function makeTerminal() {
+  const writes: string[] = [];
+  let time = 0;
+  const line = createProgressLine({ write: (text: string) => writes.push(text) }, { intervalMs: 100, now: () => time });
+  return {
+    line,
+    writes,
+    advance: (ms: number) => {
+      time += ms;
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// formatProgress
+// ---------------------------------------------------------------------------
+
+describe("formatProgress", () => {
+  it("shows bytes against the total with a percentage", () => {
+    expect(formatProgress("Fetching ver_1", { bytes: 512 * 1024, totalBytes: 2 * 1024 * 1024, entries: 3 })).toBe(
+      "Fetching ver_1: 512.0 KB of 2.0 MB (25%), 3 files",
+    );
+  });
+
+  it("shows only the bytes read when the total is unknown", () => {
+    expect(formatProgress("Fetching ver_1", { bytes: 2048, totalBytes: null, entries: 1 })).toBe(
+      "Fetching ver_1: 2.0 KB, 1 file",
+    );
+  });
+
+  it("caps the percentage at 100 when the server understated the size", () => {
+    expect(formatProgress("Fetching ver_1", { bytes: 300, totalBytes: 200, entries: 0 })).toContain("(100%)");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// createProgressLine
+// ---------------------------------------------------------------------------
+
+describe("createProgressLine", () => {
+  it("rewrites the same line and clears what the previous text left behind", () => {
+    const { line, writes, advance } = makeTerminal();
+
+    line.update("long progress text");
+    advance(100);
+    line.update("short");
+
+    expect(writes).toEqual(["\rlong progress text\x1b[K", "\rshort\x1b[K"]);
+  });
+
+  it("drops updates closer together than the interval", () => {
+    const { line, writes, advance } = makeTerminal();
+
+    line.update("1");
+    advance(40);
+    line.update("2");
+    advance(40);
+    line.update("3");
+
+    expect(writes).toEqual(["\r1\x1b[K"]);
+  });
+
+  it("prints the last update and ends the line when done", () => {
+    const { line, writes, advance } = makeTerminal();
+
+    line.update("1");
+    advance(10);
+    line.update("2");
+    line.done();
+
+    expect(writes).toEqual(["\r1\x1b[K", "\r2\x1b[K", "\n"]);
+  });
+
+  it("starts a new line after done and writes nothing without updates", () => {
+    const { line, writes } = makeTerminal();
+
+    line.done();
+    line.update("next");
+    line.done();
+    line.done();
+
+    expect(writes).toEqual(["\rnext\x1b[K", "\n"]);
+  });
+});
@@ -0,0 +1,285 @@
+import { describe, expect, it, mock } from "bun:test";
+import {
+  computeBackoffDelay,
+  DEFAULT_RETRY_POLICY,
+  isRetryableStatus,
+  parseRetryAfter,
+  withRetry,
+} from "../v0-setup/scripts/retry.mjs";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+type FakeResponse = { status: number; headers?: Record<string, string> } | Error;
+
+/**
+ * Fake fetch that plays back a scripted sequence of responses (or thrown errors).
+ */
+function makeFakeFetch(...script: FakeResponse[]) {
+  let callIndex = 0;
+  return mock((_url: string, _init?: RequestInit) => {
+    const next = script[callIndex++] ?? script[script.length - 1];
+    if (next instanceof Error) return Promise.reject(next);
+    const headers = new Headers(next.headers ?? {});
+    return Promise.resolve({ ok: next.status >= 200 && next.status < 300, status: next.status, headers } as Response);
+  });
+}
+
+/**
+ * Fake clock: sleep records the requested delays and resolves immediately.
+ */
+function makeFakeClock(nowMs = Date.parse("2024-06-01T00:00:00Z")) {
+  const sleeps: number[] = [];
+  return {
+    sleeps,
+    now: () => nowMs,
+    sleep: (ms: number) => {
+      sleeps.push(ms);
+      return Promise.resolve();
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// isRetryableStatus
+// ---------------------------------------------------------------------------
+
+describe("isRetryableStatus", () => {
+  it("retries 429 and 5xx", () => {
+    for (const status of [429, 500, 502, 503, 504]) {
+      expect(isRetryableStatus(status)).toBe(true);
+    }
+  });
+
+  it("never retries 401, 403, 404, or other 4xx", () => {
+    for (const status of [400, 401, 403, 404, 422]) {
+      expect(isRetryableStatus(status)).toBe(false);
+    }
+  });
+});
+
+// ---------------------------------------------------------------------------
+// parseRetryAfter
+// ---------------------------------------------------------------------------
+
+describe("parseRetryAfter", () => {
+  const now = Date.parse("2024-06-01T00:00:00Z");
+
+  it("parses delta-seconds", () => {
+    expect(parseRetryAfter("3", now)).toBe(3000);
+  });
+
+  it("parses an HTTP date relative to now", () => {
+    expect(parseRetryAfter("Sat, 01 Jun 2024 00:00:10 GMT", now)).toBe(10_000);
+  });
+
+  it("clamps a date in the past to zero", () => {
+    expect(parseRetryAfter("Fri, 31 May 2024 23:59:00 GMT", now)).toBe(0);
+  });
+
+  it("returns null for missing or garbage values", () => {
+    expect(parseRetryAfter(null, now)).toBeNull();
+    expect(parseRetryAfter("", now)).toBeNull();
+    expect(parseRetryAfter("soon", now)).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// computeBackoffDelay
+// ---------------------------------------------------------------------------
+
+describe("computeBackoffDelay", () => {
+  const policy = { baseDelayMs: 100, maxDelayMs: 1000 };
+
+  it("doubles the ceiling per attempt", () => {
+    const justUnderOne = () => 0.999999;
+    expect(computeBackoffDelay(1, policy, justUnderOne)).toBe(99);
+    expect(computeBackoffDelay(2, policy, justUnderOne)).toBe(199);
+    expect(computeBackoffDelay(3, policy, justUnderOne)).toBe(399);
+  });
+
+  it("caps the ceiling at maxDelayMs", () => {
+    expect(computeBackoffDelay(10, policy, () => 0.5)).toBe(500);
+  });
+
+  it("applies full jitter", () => {
+    expect(computeBackoffDelay(3, policy, () => 0)).toBe(0);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// withRetry
+// ---------------------------------------------------------------------------
+
+describe("withRetry", () => {
+  it("returns a successful response without retrying", async () => {
+    const fakeFetch = makeFakeFetch({ status: 200 });
+    const clock = makeFakeClock();
+
+    const response = await withRetry(fakeFetch as unknown as typeof fetch, clock)("https://api.test/x");
+
+    expect(response.status).toBe(200);
+    expect(fakeFetch).toHaveBeenCalledTimes(1);
+    expect(clock.sleeps).toEqual([]);
+  });
+
+  it("retries 503 with backoff, then succeeds", async () => {
+    const fakeFetch = makeFakeFetch({ status: 503 }, { status: 503 }, { status: 200 });
+    const clock = makeFakeClock();
+
+    const response = await withRetry(fakeFetch as unknown as typeof fetch, {
+      ...clock,
+      baseDelayMs: 100,
+      random: () => 0.5,
+    })("https://api.test/x");
+
+    expect(response.status).toBe(200);
+    expect(fakeFetch).toHaveBeenCalledTimes(3);
+    expect(clock.sleeps).toEqual([50, 100]);
+  });
+
+  it("honors Retry-After (seconds) on 429", async () => {
+    const fakeFetch = makeFakeFetch({ status: 429, headers: { "Retry-After": "2" } }, { status: 200 });
+    const clock = makeFakeClock();
+
+    await withRetry(fakeFetch as unknown as typeof fetch, clock)("https://api.test/x");
+
+    expect(clock.sleeps).toEqual([2000]);
+  });
+
+  it("honors Retry-After given as an HTTP date", async () => {
+    const fakeFetch = makeFakeFetch(
+      { status: 503, headers: { "Retry-After": "Sat, 01 Jun 2024 00:00:05 GMT" } },
+      { status: 200 },
+    );
+    const clock = makeFakeClock(Date.parse("2024-06-01T00:00:00Z"));
+
+    await withRetry(fakeFetch as unknown as typeof fetch, clock)("https://api.test/x");
+
+    expect(clock.sleeps).toEqual([5000]);
+  });
+
+  it("gives up immediately when Retry-After exceeds maxRetryAfterMs", async () => {
+    const fakeFetch = makeFakeFetch({ status: 429, headers: { "Retry-After": "3600" } }, { status: 200 });
+    const clock = makeFakeClock();
+
+    const response = await withRetry(fakeFetch as unknown as typeof fetch, clock)("https://api.test/x");
+
+    expect(response.status).toBe(429);
+    expect(fakeFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("never retries 401", async () => {
+    const fakeFetch = makeFakeFetch({ status: 401 }, { status: 200 });
+    const clock = makeFakeClock();
+
+    const response = await withRetry(fakeFetch as unknown as typeof fetch, clock)("https://api.test/x");
+
+    expect(response.status).toBe(401);
+    expect(fakeFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("never retries 404", async () => {
+    const fakeFetch = makeFakeFetch({ status: 404 }, { status: 200 });
+    const clock = makeFakeClock();
+
+    const response = await withRetry(fakeFetch as unknown as typeof fetch, clock)("https://api.test/x");
+
+    expect(response.status).toBe(404);
+    expect(fakeFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("returns the last retryable response after maxAttempts", async () => {
+    const fakeFetch = makeFakeFetch({ status: 500 });
+    const clock = makeFakeClock();
+
+    const response = await withRetry(fakeFetch as unknown as typeof fetch, { ...clock, maxAttempts: 3 })(
+      "https://api.test/x",
+    );
+
+    expect(response.status).toBe(500);
+    expect(fakeFetch).toHaveBeenCalledTimes(3);
+    expect(clock.sleeps).toHaveLength(2);
+  });
+
+  it("retries network errors and rethrows after maxAttempts", async () => {
+    const fakeFetch = makeFakeFetch(new TypeError("fetch failed"));
+    const clock = makeFakeClock();
+
+    await expect(
+      withRetry(fakeFetch as unknown as typeof fetch, { ...clock, maxAttempts: 2 })("https://api.test/x"),
+    ).rejects.toThrow("fetch failed");
+    expect(fakeFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("recovers from a transient network error", async () => {
+    const fakeFetch = makeFakeFetch(new TypeError("fetch failed"), { status: 200 });
+    const clock = makeFakeClock();
+
+    const response = await withRetry(fakeFetch as unknown as typeof fetch, clock)("https://api.test/x");
+
+    expect(response.status).toBe(200);
+  });
+
+  it("does not retry an aborted request", async () => {
+    const abort = new Error("aborted");
+    abort.name = "AbortError";
+    const fakeFetch = makeFakeFetch(abort, { status: 200 });
+    const clock = makeFakeClock();
+
+    await expect(withRetry(fakeFetch as unknown as typeof fetch, clock)("https://api.test/x")).rejects.toThrow(
+      "aborted",
+    );
+    expect(fakeFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports each retry through onRetry", async () => {
+    const fakeFetch = makeFakeFetch({ status: 502 }, { status: 200 });
+    const clock = makeFakeClock();
+    const retries: Array<{ attempt: number; reason: string }> = [];
+
+    await withRetry(fakeFetch as unknown as typeof fetch, {
+      ...clock,
+      onRetry: (info: { attempt: number; reason: string }) => retries.push(info),
+    })("https://api.test/x");
+
+    expect(retries).toHaveLength(1);
+    expect(retries[0].attempt).toBe(1);
+    expect(retries[0].reason).toBe("HTTP 502");
+  });
+
+  it("defaults to DEFAULT_RETRY_POLICY.maxAttempts", async () => {
+    const fakeFetch = makeFakeFetch({ status: 503 });
+    const clock = makeFakeClock();
+
+    await withRetry(fakeFetch as unknown as typeof fetch, clock)("https://api.test/x");
+
+    expect(fakeFetch).toHaveBeenCalledTimes(DEFAULT_RETRY_POLICY.maxAttempts);
+  });
+
+  it("works with the existing API helpers through fetchImpl injection", async () => {
+    const { fetchCustomFileList } = await import("../v0-setup/scripts/file-filter.mjs");
+    let calls = 0;
+    const flakyFetch = mock(() => {
+      calls++;
+      return Promise.resolve({
+        ok: calls > 1,
+        status: calls > 1 ? 200 : 503,
+        headers: new Headers(),
+        json: () => Promise.resolve({ files: [{ name: "app.tsx" }] }),
+      } as Response);
+    });
+    const clock = makeFakeClock();
+
+    const names = await fetchCustomFileList(
+      "chat",
+      "ver",
+      "key",
+      withRetry(flakyFetch as unknown as typeof fetch, clock),
+    );
+
+    expect(names).toEqual(["app.tsx"]);
+    expect(calls).toBe(2);
+  });
+});
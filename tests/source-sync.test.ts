@@ -0,0 +1,202 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { InvalidInputError } from "../v0-setup/scripts/errors.mjs";
+import {
+  diffAgainstManifest,
+  formatSyncReport,
+  hasSameContent,
+  readPreviousManifest,
+  removeStaleFiles,
+} from "../v0-setup/scripts/source-sync.mjs";
+
+const tmpDirs: string[] = [];
+
+function makeTempDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "source-sync-test-"));
+  tmpDirs.push(dir);
+  return dir;
+}
+
+afterEach(() => {
+  for (const dir of tmpDirs) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+  tmpDirs.length = 0;
+});
+
+// ---------------------------------------------------------------------------
+// readPreviousManifest
+// ---------------------------------------------------------------------------
+
+describe("readPreviousManifest", () => {
+  it("returns the parsed manifest when one exists", () => {
+    const dir = makeTempDir();
+    fs.writeFileSync(path.join(dir, "manifest.json"), JSON.stringify({ versionId: "ver_001", files: [] }));
+
+    const manifest = readPreviousManifest(dir, fs.readFileSync);
+
+    expect(manifest.versionId).toBe("ver_001");
+  });
+
+  it("returns null when there is no previous manifest", () => {
+    const dir = makeTempDir();
+
+    expect(readPreviousManifest(dir, fs.readFileSync)).toBeNull();
+  });
+
+  it("throws a clear error when the manifest is not valid JSON", () => {
+    const dir = makeTempDir();
+    fs.writeFileSync(path.join(dir, "manifest.json"), "{ not json");
+
+    expect(() => readPreviousManifest(dir, fs.readFileSync)).toThrow(/not valid JSON/);
+    expect(() => readPreviousManifest(dir, fs.readFileSync)).toThrow(InvalidInputError);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// hasSameContent
+// ---------------------------------------------------------------------------
+
+describe("hasSameContent", () => {
+  it("returns true when the bytes on disk match", () => {
+    const dir = makeTempDir();
+    const filePath = path.join(dir, "a.tsx");
+    fs.writeFileSync(filePath, "export const a = 1;");
+
+    expect(hasSameContent(filePath, new TextEncoder().encode("export const a = 1;"), fs.readFileSync)).toBe(true);
+  });
+
+  it("returns false when the content differs", () => {
+    const dir = makeTempDir();
+    const filePath = path.join(dir, "a.tsx");
+    fs.writeFileSync(filePath, "export const a = 1;");
+
+    expect(hasSameContent(filePath, new TextEncoder().encode("export const a = 2;"), fs.readFileSync)).toBe(false);
+  });
+
+  it("returns false when the file does not exist", () => {
+    const dir = makeTempDir();
+
+    expect(hasSameContent(path.join(dir, "missing.tsx"), new Uint8Array([1]), fs.readFileSync)).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// diffAgainstManifest
+// ---------------------------------------------------------------------------
+
+describe("diffAgainstManifest", () => {
+  it("classifies added, modified, removed, and unchanged files", () => {
+    const previous = [{ name: "app/page.tsx" }, { name: "components/old.tsx" }, { name: "lib/utils.ts" }];
+    const extracted = [
+      { name: "app/page.tsx", written: true },
+      { name: "lib/utils.ts", written: false },
+      { name: "components/new.tsx", written: true },
+    ];
+
+    const diff = diffAgainstManifest(previous, extracted);
+
+    expect(diff.added).toEqual(["components/new.tsx"]);
+    expect(diff.modified).toEqual(["app/page.tsx"]);
+    expect(diff.removed).toEqual(["components/old.tsx"]);
+    expect(diff.unchanged).toEqual(["lib/utils.ts"]);
+  });
+
+  it("ignores files the previous fetch skipped and removes files now filtered out", () => {
+    const previous = [
+      { name: "app/page.tsx" },
+      { name: "components/ui/button.tsx", written: false },
+      { name: "components/ui/card.tsx" },
+    ];
+    const extracted = [
+      { name: "app/page.tsx", selected: true, written: false },
+      { name: "components/ui/button.tsx", selected: true, written: true },
+      { name: "components/ui/card.tsx", selected: false, written: false },
+    ];
+
+    const diff = diffAgainstManifest(previous, extracted);
+
+    expect(diff.added).toEqual(["components/ui/button.tsx"]);
+    expect(diff.unchanged).toEqual(["app/page.tsx"]);
+    expect(diff.removed).toEqual(["components/ui/card.tsx"]);
+  });
+
+  it("only reports files that were written as added", () => {
+    const previous = [{ name: "app/page.tsx" }];
+    const extracted = [
+      { name: "app/page.tsx", selected: true, written: false },
+      { name: "components/ui/card.tsx", selected: false, written: false },
+      { name: "lib/utils.ts", selected: true, written: false },
+    ];
+
+    const diff = diffAgainstManifest(previous, extracted);
+
+    expect(diff.added).toEqual([]);
+    expect(diff.modified).toEqual([]);
+    expect(diff.unchanged).toEqual(["app/page.tsx", "lib/utils.ts"]);
+  });
+
+  it("treats every file as added when there is no previous manifest", () => {
+    const diff = diffAgainstManifest(undefined as unknown as [], [{ name: "a.tsx", written: true }]);
+
+    expect(diff.added).toEqual(["a.tsx"]);
+    expect(diff.removed).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// removeStaleFiles
+// ---------------------------------------------------------------------------
+
+describe("removeStaleFiles", () => {
+  it("deletes the listed files inside the design directory", () => {
+    const dir = makeTempDir();
+    fs.mkdirSync(path.join(dir, "components"));
+    fs.writeFileSync(path.join(dir, "components", "old.tsx"), "old");
+    fs.writeFileSync(path.join(dir, "keep.tsx"), "keep");
+
+    const deleted = removeStaleFiles(dir, ["components/old.tsx"], fs.rmSync);
+
+    expect(deleted).toEqual(["components/old.tsx"]);
+    expect(fs.existsSync(path.join(dir, "components", "old.tsx"))).toBe(false);
+    expect(fs.existsSync(path.join(dir, "keep.tsx"))).toBe(true);
+  });
+
+  it("ignores files that are already gone", () => {
+    const dir = makeTempDir();
+
+    expect(() => removeStaleFiles(dir, ["missing.tsx"], fs.rmSync)).not.toThrow();
+  });
+
+  it("SECURITY: refuses to delete a manifest entry that escapes the design directory", () => {
+    const dir = makeTempDir();
+    const calls: string[] = [];
+
+    expect(() => removeStaleFiles(dir, ["../../etc/passwd"], (p: string) => calls.push(p))).toThrow(/outside/);
+    expect(calls).toHaveLength(0);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// formatSyncReport
+// ---------------------------------------------------------------------------
+
+describe("formatSyncReport", () => {
+  it("prints a summary line and one marked line per changed file", () => {
+    const report = formatSyncReport({
+      added: ["a.tsx"],
+      modified: ["b.tsx"],
+      removed: ["c.tsx"],
+      unchanged: ["d.tsx", "e.tsx"],
+    });
+
+    const lines = report.split("\n");
+    expect(lines[0]).toBe("Sync: 1 added, 1 modified, 1 removed, 2 unchanged");
+    expect(lines).toContain("  + a.tsx");
+    expect(lines).toContain("  ~ b.tsx");
+    expect(lines).toContain("  - c.tsx");
+    expect(report).not.toContain("d.tsx");
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, expect, it } from "bun:test";
+import { checkSyntax, isSyntaxCheckable } from "../v0-setup/scripts/syntax-check.mjs";
+
+const lines = (...source: string[]) => source.join("\n");
+
+describe("isSyntaxCheckable", () => {
+  it("covers scripts and stylesheets only", () => {
+    expect(isSyntaxCheckable("app/page.tsx")).toBe(true);
+    expect(isSyntaxCheckable("lib/utils.ts")).toBe(true);
+    expect(isSyntaxCheckable("scripts/seed.mjs")).toBe(true);
+    expect(isSyntaxCheckable("app/globals.css")).toBe(true);
+    expect(isSyntaxCheckable("README.md")).toBe(false);
+    expect(isSyntaxCheckable("package.json")).toBe(false);
+  });
+});
+
+describe("checkSyntax — scripts", () => {
+  it("accepts a complete component with JSX, regexes, templates, and generics", () => {
+    const source = lines(
+      '"use client";',
+      'import { useState } from "react";',
+      "",
+      "const EMAIL = /^[^@\\s]+@[^@\\s]+$/i;",
+      "",
+      "export function Form<T extends object>({ items }: { items: T[] }) {",
+      '  const [value, setValue] = useState<string>("");',
+      "  const ratio = items.length / 2 / 3;",
+      "  const label = `Items: $" + "{items.length > 0 ? `$" + '{items.length}` : "none"}`;',
+      "  return (",
+      "    <>",
+      "      {/* the form */}",
+      '      <form className="grid gap-4" onSubmit={(e) => e.preventDefault()}>',
+      "        <p>Don't forget: {ratio}</p>",
+      "        <input value={value} onChange={(e) => setValue(e.target.value)} />",
+      "        {EMAIL.test(value) && <span>{label}</span>}",
+      "      </form>",
+      "    </>",
+      "  );",
+      "}",
+      "",
+    );
+
+    expect(checkSyntax("components/form.tsx", source)).toBeNull();
+  });
+
+  it("treats angle brackets in .ts files as generics and comparisons", () => {
+    const source = lines(
+      "export function first<T>(items: Array<T>): T | undefined {",
+      "  return items.length < 1 ? undefined : (items[0] as T);",
+      "}",
+    );
+
+    expect(checkSyntax("lib/first.ts", source)).toBeNull();
+  });
+
+  it("treats generic arrow functions in .tsx files as type parameters, not JSX", () => {
+    expect(checkSyntax("lib/identity.tsx", "const identity = <T,>(x: T) => x;")).toBeNull();
+    expect(checkSyntax("lib/identity.tsx", "const identity = <T extends object>(x: T) => x;")).toBeNull();
+    expect(checkSyntax("lib/identity.tsx", "const identity = <T,>(x: T): T => x;")).toBeNull();
+    expect(checkSyntax("lib/identity.tsx", "const identity = <T>(x: T) => x;")).toBeNull();
+    expect(
+      checkSyntax("lib/pick.tsx", "export const pick = <T, K extends keyof T>(obj: T, key: K) => obj[key];"),
+    ).toBeNull();
+    expect(
+      checkSyntax(
+        "components/list.tsx",
+        lines(
+          "export const List = <T extends { id: string }>({ items }: { items: T[] }) => (",
+          "  <ul>{items.map((item) => <li key={item.id}>{item.id}</li>)}</ul>",
+          ");",
+        ),
+      ),
+    ).toBeNull();
+  });
+
+  it("accepts type arguments on JSX components", () => {
+    expect(checkSyntax("app/page.tsx", 'const a = () => { return <Select<string> value="a" />; };')).toBeNull();
+    expect(
+      checkSyntax(
+        "app/page.tsx",
+        lines(
+          "export default function Page() {",
+          "  return (",
+          "    <Form<Record<string, number>> onSubmit={(v) => v}>",
+          "      <Field<() => void> name='x' />",
+          "    </Form>",
+          "  );",
+          "}",
+        ),
+      ),
+    ).toBeNull();
+    expect(checkSyntax("app/page.tsx", "const a = <Select<string> value='a'")?.kind).toBe("truncated");
+  });
+
+  it("still flags an unclosed JSX tag followed by parentheses", () => {
+    expect(checkSyntax("app/page.tsx", "const a = <Note>(draft)")?.kind).toBe("truncated");
+  });
+
+  it("flags a file cut off inside JSX as truncated", () => {
+    const source = lines(
+      "export default function Page() {",
+      "  return (",
+      '    <div className="p-4">',
+      "      <h1>Dash",
+    );
+
+    expect(checkSyntax("app/page.tsx", source)).toEqual({
+      kind: "truncated",
+      message: "unexpected end of input — <h1> opened at 4:7 is never closed",
+      line: 4,
+      column: 15,
+    });
+  });
+
+  it("flags unterminated templates, comments, and strings at end of file as truncated", () => {
+    expect(checkSyntax("lib/a.ts", "const s = `never closed")?.kind).toBe("truncated");
+    expect(checkSyntax("lib/a.ts", "const a = 1;\n/* never closed")).toMatchObject({ kind: "truncated", line: 2 });
+    expect(checkSyntax("app/page.tsx", '<a href="/docs')?.kind).toBe("truncated");
+  });
+
+  it("flags mismatched JSX closing tags with both locations", () => {
+    const result = checkSyntax("app/page.tsx", lines("const a = (", "  <div>", "    <span>hi</div>", ");"));
+
+    expect(result).toMatchObject({ kind: "syntax", line: 3, column: 13 });
+    expect(result?.message).toBe("expected </span> to close <span> from 3:5, found </div>");
+  });
+
+  it("flags unbalanced brackets and unterminated single-line strings as syntax errors", () => {
+    expect(checkSyntax("lib/a.ts", "const a = [1, 2);")).toMatchObject({ kind: "syntax", line: 1, column: 16 });
+    expect(checkSyntax("lib/a.ts", "}")?.message).toBe('unexpected "}" with nothing open');
+    expect(checkSyntax("lib/a.ts", 'const a = "open\nconst b = 1;')).toMatchObject({
+      kind: "syntax",
+      message: "unterminated string literal",
+    });
+  });
+});
+
+describe("checkSyntax — CSS", () => {
+  it("accepts a complete stylesheet", () => {
+    const css = lines(
+      '@import "tailwindcss";',
+      "@theme inline { --color-primary: var(--primary); }",
+      ":root { --primary: oklch(0.2 0 0); }",
+      '.icon::before { content: "}"; }',
+    );
+
+    expect(checkSyntax("app/globals.css", css)).toBeNull();
+  });
+
+  it("flags an unclosed block as truncated", () => {
+    expect(checkSyntax("app/globals.css", ".dark {\n  --primary: oklch(0.9 0 0);")).toEqual({
+      kind: "truncated",
+      message: 'unexpected end of input — "{" opened at 1:7 is never closed',
+      line: 2,
+      column: 29,
+    });
+  });
+});
+
+describe("checkSyntax — other files", () => {
+  it("returns null for unsupported types and non-string content", () => {
+    expect(checkSyntax("README.md", "```ts\nconst a = (")).toBeNull();
+    expect(checkSyntax("app/page.tsx", null as unknown as string)).toBeNull();
+  });
+});
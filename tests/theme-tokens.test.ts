@@ -0,0 +1,213 @@
+import { describe, expect, it } from "bun:test";
+import {
+  analyzeThemeTokens,
+  collectTokenUsage,
+  colorTokenNames,
+  compareThemeTokens,
+  formatThemeSummary,
+  parseThemeTokens,
+} from "../v0-setup/scripts/theme-tokens.mjs";
+
+const V0_CSS = `
+@import "tailwindcss";
+@custom-variant dark (&:is(.dark *));
+
+:root {
+  --background: oklch(1 0 0);
+  --primary: oklch(0.205 0 0);
+  --radius: 0.625rem;
+  --sidebar-background: oklch(0.985 0 0);
+  --chart-1: oklch(0.646 0.222 41.116);
+}
+
+.dark {
+  --background: oklch(0.145 0 0);
+  --primary: oklch(0.985 0 0);
+}
+
+@theme inline {
+  --color-background: var(--background);
+  --color-primary: var(--primary);
+  --color-chart-1: var(--chart-1);
+  --color-*: initial;
+}
+
+@layer base {
+  * { @apply border-border; }
+  body { --not-a-token: 1px; }
+}
+`;
+
+const PROJECT_CSS = `
+/* Project theme */
+@layer base {
+  :root {
+    --background: oklch(1 0 0);
+    --primary:   OKLCH(0.205 0 0);
+    --radius: 0.5rem;
+    --sidebar: oklch(0.985 0 0);
+  }
+  .dark {
+    --background: oklch(0.145 0 0);
+  }
+}
+
+@theme inline {
+  --color-background: var(--background);
+  --color-primary: var(--primary);
+}
+`;
+
+// ---------------------------------------------------------------------------
+// parseThemeTokens
+// ---------------------------------------------------------------------------
+
+describe("parseThemeTokens", () => {
+  it("extracts :root, .dark, and @theme custom properties", () => {
+    const tokens = parseThemeTokens(V0_CSS);
+
+    expect(tokens.root["--primary"]).toBe("oklch(0.205 0 0)");
+    expect(tokens.dark["--primary"]).toBe("oklch(0.985 0 0)");
+    expect(tokens.theme["--color-chart-1"]).toBe("var(--chart-1)");
+    expect(Object.keys(tokens.root)).toHaveLength(5);
+  });
+
+  it("ignores properties outside theme blocks and wildcard resets", () => {
+    const tokens = parseThemeTokens(V0_CSS);
+
+    expect(Object.values(tokens).some((scope) => "--not-a-token" in scope)).toBe(false);
+    expect(Object.keys(tokens.theme)).toEqual(["--color-background", "--color-primary", "--color-chart-1"]);
+  });
+
+  it("finds blocks nested in @layer and normalizes values", () => {
+    const tokens = parseThemeTokens(PROJECT_CSS);
+
+    expect(tokens.root["--primary"]).toBe("oklch(0.205 0 0)");
+    expect(tokens.dark["--background"]).toBe("oklch(0.145 0 0)");
+  });
+
+  it("treats :root in a dark color-scheme media query as dark", () => {
+    const tokens = parseThemeTokens("@media (prefers-color-scheme: dark) { :root { --background: black; } }");
+
+    expect(tokens.dark).toEqual({ "--background": "black" });
+    expect(tokens.root).toEqual({});
+  });
+
+  it("does not treat braces inside strings as blocks", () => {
+    const tokens = parseThemeTokens(':root { --font: "Brace { Sans"; --radius: 1rem; }');
+
+    expect(tokens.root).toEqual({ "--font": '"brace { sans"', "--radius": "1rem" });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// compareThemeTokens
+// ---------------------------------------------------------------------------
+
+describe("compareThemeTokens", () => {
+  it("reports missing, renamed, and different tokens per scope", () => {
+    const result = compareThemeTokens(parseThemeTokens(V0_CSS), parseThemeTokens(PROJECT_CSS));
+
+    expect(result.different).toEqual([{ scope: "root", name: "--radius", v0: "0.625rem", project: "0.5rem" }]);
+    expect(result.renamed).toEqual([
+      { scope: "root", from: "--sidebar-background", to: "--sidebar", value: "oklch(0.985 0 0)" },
+    ]);
+    expect(result.missing).toEqual([
+      { scope: "root", name: "--chart-1", value: "oklch(0.646 0.222 41.116)" },
+      { scope: "dark", name: "--primary", value: "oklch(0.985 0 0)" },
+      { scope: "theme", name: "--color-chart-1", value: "var(--chart-1)" },
+    ]);
+  });
+
+  it("does not guess a rename when several project tokens share the value", () => {
+    const v0 = parseThemeTokens(":root { --card: white; }");
+    const project = parseThemeTokens(":root { --popover: white; --surface: white; }");
+
+    expect(compareThemeTokens(v0, project)).toEqual({
+      missing: [{ scope: "root", name: "--card", value: "white" }],
+      renamed: [],
+      different: [],
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// colorTokenNames / collectTokenUsage
+// ---------------------------------------------------------------------------
+
+describe("colorTokenNames", () => {
+  it("collects @theme color names and :root variable names", () => {
+    const names = colorTokenNames(parseThemeTokens(V0_CSS));
+
+    expect(names.has("primary")).toBe(true);
+    expect(names.has("chart-1")).toBe(true);
+    expect(names.has("sidebar-background")).toBe(true);
+  });
+});
+
+describe("collectTokenUsage", () => {
+  it("finds color utilities with variants and opacity, and var() references", () => {
+    const usage = collectTokenUsage([
+      {
+        name: "app/page.tsx",
+        content:
+          '<div className="bg-background hover:bg-primary/90 dark:text-muted-foreground text-sm border-t-chart-1" style={{ fill: "var(--color-chart-2)" }} />',
+      },
+    ]);
+
+    expect([...usage.keys()].sort()).toEqual(["background", "chart-1", "chart-2", "muted-foreground", "primary", "sm"]);
+    expect([...(usage.get("primary") ?? [])]).toEqual(["app/page.tsx"]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// analyzeThemeTokens
+// ---------------------------------------------------------------------------
+
+describe("analyzeThemeTokens", () => {
+  it("lists tokens v0 components use that the project does not define", () => {
+    const result = analyzeThemeTokens({
+      v0Css: V0_CSS,
+      projectCss: PROJECT_CSS,
+      files: [
+        { name: "components/chart.tsx", content: '<Bar className="fill-chart-1 text-sm" />' },
+        { name: "app/page.tsx", content: '<main className="bg-background text-blue-500" />' },
+      ],
+    });
+
+    expect(result.undefinedTokens).toEqual([{ name: "chart-1", usedBy: ["components/chart.tsx"] }]);
+  });
+
+  it("treats a missing project globals.css as defining nothing", () => {
+    const result = analyzeThemeTokens({
+      v0Css: V0_CSS,
+      projectCss: null,
+      files: [{ name: "app/page.tsx", content: '<main className="bg-primary" />' }],
+    });
+
+    expect(result.missing).toHaveLength(10);
+    expect(result.undefinedTokens.map((t) => t.name)).toEqual(["primary"]);
+  });
+});
+
+describe("formatThemeSummary", () => {
+  it("summarizes the comparison", () => {
+    const lines = formatThemeSummary({
+      v0Css: "app/globals.css",
+      projectCss: "app/globals.css",
+      missing: [{}],
+      renamed: [],
+      different: [{}, {}],
+      undefinedTokens: [{ name: "chart-1" }],
+    });
+
+    expect(lines).toEqual([
+      "  theme: 1 tokens missing, 0 renamed, 2 different",
+      "  color tokens used but undefined: chart-1",
+    ]);
+  });
+
+  it("notes when v0's globals.css was not fetched", () => {
+    expect(formatThemeSummary({ v0Css: null })[0]).toContain("not fetched");
+  });
+});
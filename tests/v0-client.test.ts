@@ -0,0 +1,240 @@
+import { describe, expect, it, mock } from "bun:test";
+import { AuthError, NotFoundError, RateLimitError, V0SetupError } from "../v0-setup/scripts/errors.mjs";
+import { createV0Client } from "../v0-setup/scripts/v0-client.mjs";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+type MockResponse = { status: number; body?: unknown; statusText?: string };
+
+/**
+ * fetch mock that answers with the given responses in order, repeating the last one.
+ */
+function makeFetchMock(...responses: MockResponse[]) {
+  let callIndex = 0;
+  return mock((_url: string, _init?: RequestInit) => {
+    const response = responses[callIndex++] ?? responses[responses.length - 1];
+    return Promise.resolve({
+      ok: response.status >= 200 && response.status < 300,
+      status: response.status,
+      statusText: response.statusText ?? "",
+      json: () => Promise.resolve(response.body),
+      arrayBuffer: () => Promise.resolve(response.body),
+    } as Response);
+  });
+}
+
+function makeClient(
+  fetchMock: ReturnType<typeof makeFetchMock>,
+  options: { baseUrl?: string; signal?: AbortSignal } = {},
+) {
+  return createV0Client({ apiKey: "test-api-key", fetch: fetchMock as unknown as typeof fetch, ...options });
+}
+
+const urls = (fetchMock: ReturnType<typeof makeFetchMock>) => fetchMock.mock.calls.map(([url]) => url);
+
+// ---------------------------------------------------------------------------
+// Transport
+// ---------------------------------------------------------------------------
+
+describe("createV0Client — transport", () => {
+  it("sends the bearer token to the default API base", async () => {
+    const fetchMock = makeFetchMock({ status: 200, body: {} });
+
+    await makeClient(fetchMock).getChat("Abc123");
+
+    expect(fetchMock.mock.calls[0][0]).toBe("https://api.v0.dev/v1/chats/Abc123");
+    expect(fetchMock.mock.calls[0][1]).toEqual({ headers: { Authorization: "Bearer test-api-key" } });
+  });
+
+  it("uses the configured base URL, ignoring a trailing slash", async () => {
+    const fetchMock = makeFetchMock({ status: 200, body: {} });
+
+    await makeClient(fetchMock, { baseUrl: "https://v0-proxy.internal/v1/" }).getChat("Abc123");
+
+    expect(urls(fetchMock)).toEqual(["https://v0-proxy.internal/v1/chats/Abc123"]);
+  });
+
+  it("passes the abort signal on every request", async () => {
+    const controller = new AbortController();
+    const fetchMock = makeFetchMock({ status: 200, body: { versions: [], cursor: "next" } }, { status: 200, body: {} });
+
+    await makeClient(fetchMock, { signal: controller.signal }).listVersions("Abc123");
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    for (const [, init] of fetchMock.mock.calls) expect(init?.signal).toBe(controller.signal);
+  });
+
+  it("maps failed responses to typed errors", async () => {
+    const call = (status: number) => makeClient(makeFetchMock({ status })).getVersion("Abc123", "v1");
+
+    await expect(call(401)).rejects.toBeInstanceOf(AuthError);
+    await expect(call(403)).rejects.toBeInstanceOf(AuthError);
+    await expect(call(404)).rejects.toBeInstanceOf(NotFoundError);
+    await expect(call(429)).rejects.toBeInstanceOf(RateLimitError);
+    await expect(call(500)).rejects.toMatchObject({ kind: "api", details: { status: 500 } });
+    await expect(call(500)).rejects.toBeInstanceOf(V0SetupError);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// listVersions — chat ID fallback
+// ---------------------------------------------------------------------------
+
+describe("listVersions — chat ID fallback", () => {
+  const slug = "my-chat-Abc123";
+  const hashId = "Abc123";
+
+  it("resolves to the slug when it answers", async () => {
+    const fetchMock = makeFetchMock({ status: 200, body: { versions: [] } });
+
+    const result = await makeClient(fetchMock).listVersions(slug, hashId);
+
+    expect(result.resolvedChatId).toBe(slug);
+    expect(urls(fetchMock)).toEqual([`https://api.v0.dev/v1/chats/${slug}/versions?limit=100`]);
+  });
+
+  it("falls back to the hash ID when the slug returns 404", async () => {
+    const fetchMock = makeFetchMock({ status: 404 }, { status: 200, body: { versions: [] } });
+
+    const result = await makeClient(fetchMock).listVersions(slug, hashId);
+
+    expect(result.resolvedChatId).toBe(hashId);
+    expect(urls(fetchMock)[0]).toContain(`/chats/${slug}/`);
+    expect(urls(fetchMock)[1]).toContain(`/chats/${hashId}/`);
+  });
+
+  it("retries the same ID when slug and hash ID are equal", async () => {
+    const fetchMock = makeFetchMock({ status: 404 }, { status: 200, body: { versions: [] } });
+
+    const result = await makeClient(fetchMock).listVersions(hashId, hashId);
+
+    expect(result.resolvedChatId).toBe(hashId);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not fall back on errors other than 404", async () => {
+    for (const status of [401, 403, 500]) {
+      const fetchMock = makeFetchMock({ status });
+
+      await expect(makeClient(fetchMock).listVersions(slug, hashId)).rejects.toThrow(
+        `Request failed with status ${status} for slug ${slug}`,
+      );
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    }
+  });
+
+  it("throws a NotFoundError when the hash ID is missing too", async () => {
+    const fetchMock = makeFetchMock({ status: 404 }, { status: 404 });
+
+    const promise = makeClient(fetchMock).listVersions(slug, hashId);
+
+    await expect(promise).rejects.toThrow(`Request failed with status 404 for hashId ${hashId}`);
+    await expect(promise).rejects.toBeInstanceOf(NotFoundError);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("throws a descriptive error for a null slug", async () => {
+    const fetchMock = makeFetchMock({ status: 200, body: {} });
+
+    await expect(makeClient(fetchMock).listVersions(null as unknown as string, hashId)).rejects.toThrow(
+      "slug must be a string",
+    );
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// getVersion / downloadVersion / getChat
+// ---------------------------------------------------------------------------
+
+describe("getVersion", () => {
+  it("requests custom files only and normalizes their names and content", async () => {
+    const fetchMock = makeFetchMock({
+      status: 200,
+      body: {
+        id: "v1",
+        status: "completed",
+        files: [
+          { name: "app/page.tsx", content: "export default function Page() {}" },
+          { path: "components/chart.tsx", content: { not: "text" } },
+          { content: "nameless" },
+        ],
+      },
+    });
+
+    const version = await makeClient(fetchMock).getVersion("Abc123", "v1");
+
+    expect(urls(fetchMock)).toEqual(["https://api.v0.dev/v1/chats/Abc123/versions/v1?includeDefaultFiles=false"]);
+    expect(version.status).toBe("completed");
+    expect(version.files).toEqual([
+      { name: "app/page.tsx", content: "export default function Page() {}" },
+      { name: "components/chart.tsx", content: null },
+    ]);
+  });
+});
+
+describe("downloadVersion", () => {
+  it("asks for the zip and returns its bytes", async () => {
+    const zip = new Uint8Array([0x50, 0x4b, 0x03, 0x04]).buffer;
+    const fetchMock = makeFetchMock({ status: 200, body: zip });
+
+    const result = await makeClient(fetchMock).downloadVersion("Abc123", "v1");
+
+    expect(result).toBe(zip);
+    expect(urls(fetchMock)).toEqual(["https://api.v0.dev/v1/chats/Abc123/versions/v1/download"]);
+    expect(fetchMock.mock.calls[0][1]?.headers).toEqual({
+      Authorization: "Bearer test-api-key",
+      Accept: "application/zip",
+    });
+  });
+
+  it("names the failure in the error", async () => {
+    await expect(makeClient(makeFetchMock({ status: 401 })).downloadVersion("a", "b")).rejects.toThrow(/Unauthorized/);
+    await expect(
+      makeClient(makeFetchMock({ status: 502, statusText: "Bad Gateway" })).downloadVersion("a", "b"),
+    ).rejects.toThrow("Failed to download zip: HTTP 502 Bad Gateway");
+  });
+});
+
+describe("streamVersion", () => {
+  it("returns the zip body as a stream with its Content-Length", async () => {
+    const zip = new Uint8Array([0x50, 0x4b, 0x05, 0x06]);
+    const fetchMock = mock((_url: string, _init?: RequestInit) =>
+      Promise.resolve(new Response(zip, { headers: { "Content-Length": "4" } })),
+    );
+    const client = createV0Client({ apiKey: "test-api-key", fetch: fetchMock as unknown as typeof fetch });
+
+    const { body, size } = await client.streamVersion("Abc123", "v1");
+
+    const chunks: Uint8Array[] = [];
+    for await (const chunk of body) chunks.push(chunk);
+    expect(size).toBe(4);
+    expect(new Uint8Array(Buffer.concat(chunks))).toEqual(zip);
+    expect(fetchMock.mock.calls[0][0]).toBe("https://api.v0.dev/v1/chats/Abc123/versions/v1/download");
+    expect(fetchMock.mock.calls[0][1]?.headers).toMatchObject({ Accept: "application/zip" });
+  });
+
+  it("reports an unknown size as null and fails like downloadVersion", async () => {
+    const chunked = new Response(new ReadableStream({ start: (controller) => controller.close() }));
+    const client = createV0Client({
+      apiKey: "test-api-key",
+      fetch: (() => Promise.resolve(chunked)) as unknown as typeof fetch,
+    });
+
+    expect((await client.streamVersion("a", "b")).size).toBeNull();
+    await expect(makeClient(makeFetchMock({ status: 404 })).streamVersion("a", "b")).rejects.toBeInstanceOf(
+      NotFoundError,
+    );
+  });
+});
+
+describe("getChat", () => {
+  it("returns the chat as the API sends it", async () => {
+    const chat = { id: "Abc123", name: "Dashboard", messages: [] };
+    const fetchMock = makeFetchMock({ status: 200, body: chat });
+
+    expect(await makeClient(fetchMock).getChat("Abc123")).toEqual(chat);
+  });
+});
@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { sha256Hex } from "../v0-setup/scripts/file-metadata.mjs";
+import { formatVerifyReport, hasDrifted, listFilesRecursive, verifyDesign } from "../v0-setup/scripts/verify.mjs";
+
+let designDir: string;
+
+function writeFile(name: string, content: string) {
+  const filePath = path.join(designDir, name);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+}
+
+function entry(name: string, content: string) {
+  return { name, size: content.length, sha256: sha256Hex(new TextEncoder().encode(content)), isCustom: false };
+}
+
+beforeEach(() => {
+  designDir = fs.mkdtempSync(path.join(os.tmpdir(), "verify-test-"));
+});
+
+afterEach(() => {
+  fs.rmSync(designDir, { recursive: true, force: true });
+});
+
+// ---------------------------------------------------------------------------
+// listFilesRecursive
+// ---------------------------------------------------------------------------
+
+describe("listFilesRecursive", () => {
+  it("lists nested files with forward-slash relative names", () => {
+    writeFile("app/page.tsx", "");
+    writeFile("components/ui/button.tsx", "");
+    writeFile("manifest.json", "{}");
+
+    expect(listFilesRecursive(designDir, fs.readdirSync)).toEqual([
+      "app/page.tsx",
+      "components/ui/button.tsx",
+      "manifest.json",
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// verifyDesign
+// ---------------------------------------------------------------------------
+
+describe("verifyDesign", () => {
+  it("reports a clean folder as unchanged", () => {
+    writeFile("app/page.tsx", "page");
+    writeFile("manifest.json", "{}");
+
+    const result = verifyDesign(designDir, { files: [entry("app/page.tsx", "page")] }, fs);
+
+    expect(result).toEqual({ modified: [], deleted: [], added: [], unverified: [], unchanged: ["app/page.tsx"] });
+    expect(hasDrifted(result)).toBe(false);
+  });
+
+  it("detects modified, deleted, and added files", () => {
+    writeFile("app/page.tsx", "edited in place");
+    writeFile("notes/scratch.md", "new");
+    writeFile("manifest.json", "{}");
+
+    const result = verifyDesign(
+      designDir,
+      { files: [entry("app/page.tsx", "page"), entry("lib/utils.ts", "utils")] },
+      fs,
+    );
+
+    expect(result.modified).toEqual(["app/page.tsx"]);
+    expect(result.deleted).toEqual(["lib/utils.ts"]);
+    expect(result.added).toEqual(["notes/scratch.md"]);
+    expect(hasDrifted(result)).toBe(true);
+  });
+
+  it("does not expect files skipped by the fetch filters on disk", () => {
+    const result = verifyDesign(
+      designDir,
+      { files: [{ ...entry("components/ui/button.tsx", "button"), written: false }] },
+      fs,
+    );
+
+    expect(result.deleted).toEqual([]);
+    expect(hasDrifted(result)).toBe(false);
+  });
+
+  it("reports files without a recorded hash as unverified", () => {
+    writeFile("app/page.tsx", "page");
+
+    const result = verifyDesign(designDir, { files: [{ name: "app/page.tsx", size: 4, isCustom: true }] }, fs);
+
+    expect(result.unverified).toEqual(["app/page.tsx"]);
+    expect(hasDrifted(result)).toBe(false);
+  });
+
+  it("skips the scan for untracked files without readdirSync", () => {
+    writeFile("extra.ts", "x");
+
+    const result = verifyDesign(designDir, { files: [] }, { readFileSync: fs.readFileSync });
+
+    expect(result.added).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// formatVerifyReport
+// ---------------------------------------------------------------------------
+
+describe("formatVerifyReport", () => {
+  it("lists each drifted file and the verdict", () => {
+    const report = formatVerifyReport("dashboard", {
+      modified: ["app/page.tsx"],
+      deleted: ["lib/utils.ts"],
+      added: ["extra.ts"],
+      unverified: [],
+      unchanged: ["app/layout.tsx"],
+    });
+
+    expect(report).toBe(
+      [
+        "dashboard: 1 modified, 1 deleted, 1 added, 1 unchanged",
+        "  ~ app/page.tsx",
+        "  - lib/utils.ts",
+        "  + extra.ts",
+        "v0-source has drifted from the fetched version",
+      ].join("\n"),
+    );
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "bun:test";
+import { createPlaceholderRules } from "../v0-setup/scripts/placeholder-detection.mjs";
+import { buildVersionDetails, formatVersionDetail, mapWithConcurrency } from "../v0-setup/scripts/version-details.mjs";
+
+describe("mapWithConcurrency", () => {
+  it("keeps results in input order with at most `limit` calls pending", async () => {
+    let pending = 0;
+    let maxPending = 0;
+
+    const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (ms, index) => {
+      pending++;
+      maxPending = Math.max(maxPending, pending);
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      pending--;
+      return `${index}:${ms}`;
+    });
+
+    expect(results).toEqual(["0:30", "1:10", "2:20", "3:5", "4:15"]);
+    expect(maxPending).toBe(2);
+  });
+
+  it("returns an empty array for no items", async () => {
+    expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+  });
+});
+
+describe("buildVersionDetails", () => {
+  const versions = [{ id: "v3" }, { id: "v2" }, { id: "v1" }];
+
+  it("compares each version with the next older one and flags placeholders", async () => {
+    const files: Record<string, Array<{ name: string; content: string | null }>> = {
+      v3: [
+        { name: "app/page.tsx", content: "export default function Page() {\n  // ... rest of page\n}" },
+        { name: "lib/data.ts", content: "export const rows = [];" },
+      ],
+      v2: [
+        { name: "app/page.tsx", content: "export default function Page() { return null; }" },
+        { name: "lib/data.ts", content: "export const rows = [];" },
+        { name: "lib/old.ts", content: "export {};" },
+      ],
+      v1: [{ name: "app/page.tsx", content: null }],
+    };
+
+    const details = await buildVersionDetails(versions, async (id) => files[id]);
+
+    expect(details.get("v3")).toEqual({
+      customFileCount: 2,
+      changed: ["app/page.tsx"],
+      removed: ["lib/old.ts"],
+      placeholders: [{ name: "app/page.tsx", ruleId: "elided-code" }],
+    });
+    expect(details.get("v2")).toEqual({
+      customFileCount: 3,
+      changed: ["app/page.tsx", "lib/data.ts", "lib/old.ts"],
+      removed: [],
+      placeholders: [],
+    });
+    // Files without inline content are counted but not checked for placeholders
+    expect(details.get("v1")).toEqual({ customFileCount: 1, changed: null, removed: [], placeholders: [] });
+  });
+
+  it("records a failed detail request without failing the other versions", async () => {
+    const details = await buildVersionDetails(versions, async (id) => {
+      if (id === "v2") throw new Error("HTTP error 500 fetching version files");
+      return [{ name: "app/page.tsx", content: `// ${id}` }];
+    });
+
+    expect(details.get("v2")).toEqual({ error: "HTTP error 500 fetching version files" });
+    expect(details.get("v3")).toMatchObject({ customFileCount: 1, changed: null });
+    expect(details.get("v1")).toMatchObject({ customFileCount: 1 });
+  });
+
+  it("uses the placeholder rules passed in", async () => {
+    const rules = createPlaceholderRules([{ id: "lorem", pattern: "lorem ipsum", flags: "i" }]);
+
+    const details = await buildVersionDetails([{ id: "v1" }], async () => [{ name: "a.tsx", content: "Lorem ipsum" }], {
+      rules,
+    });
+
+    expect(details.get("v1")).toMatchObject({ placeholders: [{ name: "a.tsx", ruleId: "lorem" }] });
+  });
+});
+
+describe("formatVersionDetail", () => {
+  it("summarizes counts, changes, removals, and placeholders", () => {
+    expect(
+      formatVersionDetail({
+        customFileCount: 2,
+        changed: ["app/page.tsx"],
+        removed: ["lib/old.ts"],
+        placeholders: [{ name: "app/page.tsx", ruleId: "generating" }],
+      }),
+    ).toBe("2 custom files · changed: app/page.tsx · removed: lib/old.ts · placeholders: app/page.tsx [generating]");
+    expect(formatVersionDetail({ customFileCount: 1, changed: [], removed: [], placeholders: [] })).toBe(
+      "1 custom files · no changes",
+    );
+  });
+
+  it("reports unavailable details", () => {
+    expect(formatVersionDetail({ error: "HTTP error 404 fetching version files" })).toBe(
+      "details unavailable: HTTP error 404 fetching version files",
+    );
+  });
+});
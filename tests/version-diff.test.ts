@@ -0,0 +1,154 @@
+import { describe, expect, it } from "bun:test";
+import { compareFileSets, diffLines, formatUnifiedDiff, formatVersionDiff } from "../v0-setup/scripts/version-diff.mjs";
+
+// ---------------------------------------------------------------------------
+// diffLines
+// ---------------------------------------------------------------------------
+
+describe("diffLines", () => {
+  it("returns only context ops for identical input", () => {
+    const ops = diffLines(["a", "b"], ["a", "b"]);
+    expect(ops.map((op) => op.type)).toEqual([" ", " "]);
+  });
+
+  it("marks a replaced line as delete + insert", () => {
+    const ops = diffLines(["a", "b", "c"], ["a", "x", "c"]);
+    expect(ops).toEqual([
+      { type: " ", line: "a" },
+      { type: "-", line: "b" },
+      { type: "+", line: "x" },
+      { type: " ", line: "c" },
+    ]);
+  });
+
+  it("handles pure insertions and deletions", () => {
+    expect(diffLines([], ["a"])).toEqual([{ type: "+", line: "a" }]);
+    expect(diffLines(["a"], [])).toEqual([{ type: "-", line: "a" }]);
+  });
+
+  it("finds a minimal edit script for interleaved changes", () => {
+    const ops = diffLines(["a", "b", "c", "a", "b", "b", "a"], ["c", "b", "a", "b", "a", "c"]);
+    const edits = ops.filter((op) => op.type !== " ");
+    // Classic Myers example: edit distance is 5
+    expect(edits).toHaveLength(5);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// formatUnifiedDiff
+// ---------------------------------------------------------------------------
+
+describe("formatUnifiedDiff", () => {
+  it("returns an empty string for identical content", () => {
+    expect(formatUnifiedDiff("a.tsx", "same\n", "same\n")).toBe("");
+  });
+
+  it("produces headers and a hunk with line ranges", () => {
+    const diff = formatUnifiedDiff("app/page.tsx", "one\ntwo\nthree\n", "one\n2\nthree\n");
+
+    expect(diff).toBe(
+      ["--- a/app/page.tsx", "+++ b/app/page.tsx", "@@ -1,3 +1,3 @@", " one", "-two", "+2", " three"].join("\n"),
+    );
+  });
+
+  it("uses /dev/null for added and removed files", () => {
+    expect(formatUnifiedDiff("new.tsx", null, "x\n")).toContain("--- /dev/null");
+    expect(formatUnifiedDiff("old.tsx", "x\n", null)).toContain("+++ /dev/null");
+  });
+
+  it("splits distant changes into separate hunks", () => {
+    const oldLines = Array.from({ length: 20 }, (_, i) => `line ${i}`);
+    const newLines = [...oldLines];
+    newLines[1] = "changed 1";
+    newLines[18] = "changed 18";
+
+    const diff = formatUnifiedDiff("long.ts", oldLines.join("\n"), newLines.join("\n"));
+
+    expect(diff.match(/^@@/gm)).toHaveLength(2);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// compareFileSets
+// ---------------------------------------------------------------------------
+
+describe("compareFileSets", () => {
+  it("classifies added, removed, changed, and unchanged files", () => {
+    const result = compareFileSets(
+      [
+        { name: "a.tsx", content: "a" },
+        { name: "b.tsx", content: "b" },
+        { name: "c.tsx", content: "c" },
+      ],
+      [
+        { name: "a.tsx", content: "a" },
+        { name: "b.tsx", content: "B" },
+        { name: "d.tsx", content: "d" },
+      ],
+    );
+
+    expect(result).toEqual({ added: ["d.tsx"], removed: ["c.tsx"], changed: ["b.tsx"], unchanged: ["a.tsx"] });
+  });
+
+  it("compares binary files by hash", () => {
+    const result = compareFileSets(
+      [
+        { name: "logo.png", content: null, sha256: "aaa" },
+        { name: "icon.png", content: null, sha256: "bbb" },
+      ],
+      [
+        { name: "logo.png", content: null, sha256: "aaa" },
+        { name: "icon.png", content: null, sha256: "ccc" },
+      ],
+    );
+
+    expect(result.changed).toEqual(["icon.png"]);
+    expect(result.unchanged).toEqual(["logo.png"]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// formatVersionDiff
+// ---------------------------------------------------------------------------
+
+describe("formatVersionDiff", () => {
+  it("prints per-file diffs followed by a summary that marks custom files", () => {
+    const { output, summary } = formatVersionDiff({
+      versionA: "ver_001",
+      versionB: "ver_002",
+      filesA: [
+        { name: "components/header.tsx", content: "<h1>Old</h1>\n" },
+        { name: "components/ui/button.tsx", content: "button\n" },
+      ],
+      filesB: [
+        { name: "components/header.tsx", content: "<h1>New</h1>\n" },
+        { name: "components/ui/button.tsx", content: "button v2\n" },
+      ],
+      customNames: new Set(["components/header.tsx"]),
+    });
+
+    expect(summary.changed).toEqual(["components/header.tsx", "components/ui/button.tsx"]);
+    expect(output).toContain("-<h1>Old</h1>");
+    expect(output).toContain("+<h1>New</h1>");
+    expect(output).toContain("M components/header.tsx  [custom]");
+    expect(output).toMatch(/M components\/ui\/button\.tsx$/m);
+    expect(output).toContain("0 added, 0 removed, 2 changed (1 custom), 0 unchanged");
+  });
+
+  it("prints a git-style notice instead of a text diff for binary files", () => {
+    const { output } = formatVersionDiff({
+      versionA: "ver_001",
+      versionB: "ver_002",
+      filesA: [{ name: "public/logo.png", content: null, encoding: "binary", sha256: "aaa" }],
+      filesB: [
+        { name: "public/logo.png", content: null, encoding: "binary", sha256: "bbb" },
+        { name: "public/new.png", content: null, encoding: "binary", sha256: "ccc" },
+      ],
+      customNames: new Set(),
+    });
+
+    expect(output).toContain("Binary files a/public/logo.png and b/public/logo.png differ");
+    expect(output).toContain("Binary files /dev/null and b/public/new.png differ");
+    expect(output).not.toContain("@@");
+  });
+});
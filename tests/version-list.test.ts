@@ -1,5 +1,6 @@
 import { describe, expect, it, mock } from "bun:test";
-import { fetchVersionList, fetchWithChatIdFallback, selectBestVersion } from "../v0-setup/scripts/version-list.mjs";
+import { InvalidInputError, NotFoundError } from "../v0-setup/scripts/errors.mjs";
+import { fetchVersionList, resolveVersionSelector, selectBestVersion } from "../v0-setup/scripts/version-list.mjs";
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -21,110 +22,6 @@ function makeFetchMock(...responses: Array<{ status: number; body: unknown }>) {
   });
 }
 
-// ---------------------------------------------------------------------------
-// fetchWithChatIdFallback
-// ---------------------------------------------------------------------------
-
-describe("fetchWithChatIdFallback", () => {
-  const slug = "my-chat-Abc123";
-  const hashId = "Abc123";
-  const apiKey = "test-api-key";
-
-  it("returns response and resolvedChatId=slug when first request succeeds (200)", async () => {
-    const fetchMock = makeFetchMock({ status: 200, body: { data: "ok" } });
-    const urlsVisited: string[] = [];
-    const buildUrl = (id: string) => {
-      const url = `https://api.v0.dev/v1/chats/${id}/versions`;
-      urlsVisited.push(url);
-      return url;
-    };
-
-    const result = await fetchWithChatIdFallback(slug, hashId, apiKey, buildUrl, fetchMock as unknown as typeof fetch);
-
-    expect(result.resolvedChatId).toBe(slug);
-    expect(urlsVisited).toHaveLength(1);
-    expect(urlsVisited[0]).toContain(slug);
-    expect(fetchMock).toHaveBeenCalledTimes(1);
-  });
-
-  it("falls back to hashId when slug returns 404, then succeeds", async () => {
-    const fetchMock = makeFetchMock(
-      { status: 404, body: { error: "not found" } },
-      { status: 200, body: { data: "ok" } },
-    );
-    const urlsVisited: string[] = [];
-    const buildUrl = (id: string) => {
-      const url = `https://api.v0.dev/v1/chats/${id}/versions`;
-      urlsVisited.push(url);
-      return url;
-    };
-
-    const result = await fetchWithChatIdFallback(slug, hashId, apiKey, buildUrl, fetchMock as unknown as typeof fetch);
-
-    expect(result.resolvedChatId).toBe(hashId);
-    expect(fetchMock).toHaveBeenCalledTimes(2);
-    expect(urlsVisited[0]).toContain(slug);
-    expect(urlsVisited[1]).toContain(hashId);
-  });
-
-  it("throws on 401 without attempting fallback", async () => {
-    const fetchMock = makeFetchMock({ status: 401, body: { error: "unauthorized" } });
-    const buildUrl = (id: string) => `https://api.v0.dev/v1/chats/${id}/versions`;
-
-    await expect(
-      fetchWithChatIdFallback(slug, hashId, apiKey, buildUrl, fetchMock as unknown as typeof fetch),
-    ).rejects.toThrow();
-
-    expect(fetchMock).toHaveBeenCalledTimes(1);
-  });
-
-  it("throws on 500 without attempting fallback", async () => {
-    const fetchMock = makeFetchMock({ status: 500, body: { error: "server error" } });
-    const buildUrl = (id: string) => `https://api.v0.dev/v1/chats/${id}/versions`;
-
-    await expect(
-      fetchWithChatIdFallback(slug, hashId, apiKey, buildUrl, fetchMock as unknown as typeof fetch),
-    ).rejects.toThrow();
-
-    expect(fetchMock).toHaveBeenCalledTimes(1);
-  });
-
-  it("calls buildUrl with slug on first attempt", async () => {
-    const fetchMock = makeFetchMock({ status: 200, body: {} });
-    const buildUrlCalls: string[] = [];
-    const buildUrl = (id: string) => {
-      buildUrlCalls.push(id);
-      return `https://api.v0.dev/v1/chats/${id}/versions`;
-    };
-
-    await fetchWithChatIdFallback(slug, hashId, apiKey, buildUrl, fetchMock as unknown as typeof fetch);
-
-    expect(buildUrlCalls[0]).toBe(slug);
-  });
-
-  it("calls buildUrl with hashId on fallback attempt", async () => {
-    const fetchMock = makeFetchMock({ status: 404, body: {} }, { status: 200, body: {} });
-    const buildUrlCalls: string[] = [];
-    const buildUrl = (id: string) => {
-      buildUrlCalls.push(id);
-      return `https://api.v0.dev/v1/chats/${id}/versions`;
-    };
-
-    await fetchWithChatIdFallback(slug, hashId, apiKey, buildUrl, fetchMock as unknown as typeof fetch);
-
-    expect(buildUrlCalls).toHaveLength(2);
-    expect(buildUrlCalls[1]).toBe(hashId);
-  });
-
-  it("throws with descriptive message on non-404 error", async () => {
-    const fetchMock = makeFetchMock({ status: 403, body: { error: "forbidden" } });
-    const buildUrl = (id: string) => `https://api.v0.dev/v1/chats/${id}/versions`;
-
-    const promise = fetchWithChatIdFallback(slug, hashId, apiKey, buildUrl, fetchMock as unknown as typeof fetch);
-    await expect(promise).rejects.toThrow();
-  });
-});
-
 // ---------------------------------------------------------------------------
 // fetchVersionList
 // ---------------------------------------------------------------------------
@@ -362,74 +259,6 @@ describe("selectBestVersion", () => {
 // Amy's edge case probes (Raptor Protocol)
 // ---------------------------------------------------------------------------
 
-describe("fetchWithChatIdFallback — edge cases", () => {
-  const apiKey = "test-api-key";
-
-  it("slug === hashId: makes two requests when first 404s (duplicate URL)", async () => {
-    // When slug and hashId are the same value, a 404 will trigger a second
-    // identical request. This is wasteful but should not error.
-    const fetchMock = makeFetchMock(
-      { status: 404, body: { error: "not found" } },
-      { status: 200, body: { data: "ok" } },
-    );
-    const sameId = "Abc123";
-    const buildUrl = (id: string) => `https://api.v0.dev/v1/chats/${id}/versions`;
-
-    const result = await fetchWithChatIdFallback(
-      sameId,
-      sameId,
-      apiKey,
-      buildUrl,
-      fetchMock as unknown as typeof fetch,
-    );
-
-    // Falls back and resolves with hashId (same value)
-    expect(result.resolvedChatId).toBe(sameId);
-    // Two requests are made — implementation doesn't optimise same-slug-as-hashId
-    expect(fetchMock).toHaveBeenCalledTimes(2);
-  });
-
-  it("double 404: slug 404 then hashId 404 throws an error", async () => {
-    const fetchMock = makeFetchMock(
-      { status: 404, body: { error: "not found" } },
-      { status: 404, body: { error: "not found either" } },
-    );
-    const buildUrl = (id: string) => `https://api.v0.dev/v1/chats/${id}/versions`;
-
-    await expect(
-      fetchWithChatIdFallback("my-chat-Abc123", "Abc123", apiKey, buildUrl, fetchMock as unknown as typeof fetch),
-    ).rejects.toThrow();
-
-    expect(fetchMock).toHaveBeenCalledTimes(2);
-  });
-
-  it("null slug: throws a descriptive error", async () => {
-    const fetchMock = makeFetchMock({ status: 200, body: { data: "ok" } });
-    const buildUrl = (id: string) => `https://api.v0.dev/v1/chats/${id}/versions`;
-
-    await expect(
-      fetchWithChatIdFallback(
-        null as unknown as string,
-        "Abc123",
-        apiKey,
-        buildUrl,
-        fetchMock as unknown as typeof fetch,
-      ),
-    ).rejects.toThrow("slug must be a string");
-  });
-
-  it("buildUrl throwing propagates the error", async () => {
-    const fetchMock = makeFetchMock({ status: 200, body: {} });
-    const buildUrl = (_id: string): string => {
-      throw new Error("URL builder exploded");
-    };
-
-    await expect(
-      fetchWithChatIdFallback("slug", "hash", apiKey, buildUrl, fetchMock as unknown as typeof fetch),
-    ).rejects.toThrow("URL builder exploded");
-  });
-});
-
 describe("fetchVersionList — edge cases", () => {
   const slug = "my-chat-Abc123";
   const hashId = "Abc123";
@@ -488,3 +317,68 @@ describe("selectBestVersion — edge cases", () => {
     expect(result?.id).toBe("v1");
   });
 });
+
+// ---------------------------------------------------------------------------
+// resolveVersionSelector
+// ---------------------------------------------------------------------------
+
+describe("resolveVersionSelector", () => {
+  // Newest first, as fetchVersionList returns them; --list-versions prints these as #4..#1
+  const versions = [
+    makeVersion("v_dd4", "generating", "2024-07-02T09:00:00Z"),
+    makeVersion("v_cc3", "completed", "2024-06-15T09:00:00Z"),
+    makeVersion("v_bb2", "failed", "2024-05-30T09:00:00Z"),
+    makeVersion("v_ba1", "completed", "2024-05-01T09:00:00Z"),
+  ];
+
+  it("resolves #N indexes as printed by --list-versions", () => {
+    expect(resolveVersionSelector("#4", versions)).toBe("v_dd4");
+    expect(resolveVersionSelector("#1", versions)).toBe("v_ba1");
+  });
+
+  it("rejects out-of-range indexes", () => {
+    expect(() => resolveVersionSelector("#5", versions)).toThrow("Version #5 is out of range: the chat has #1–#4");
+    expect(() => resolveVersionSelector("#0", versions)).toThrow(/out of range/);
+    expect(() => resolveVersionSelector("#1", [])).toThrow("the chat has no versions");
+    expect(() => resolveVersionSelector("#5", versions)).toThrow(InvalidInputError);
+  });
+
+  it("reports selectors with nothing to resolve to as not found", () => {
+    expect(() => resolveVersionSelector("latest", [])).toThrow(NotFoundError);
+    expect(() => resolveVersionSelector("before:2020-01-01", versions)).toThrow(NotFoundError);
+  });
+
+  it("resolves latest and latest-completed", () => {
+    expect(resolveVersionSelector("latest", versions)).toBe("v_dd4");
+    expect(resolveVersionSelector("latest-completed", versions)).toBe("v_cc3");
+    expect(() => resolveVersionSelector("latest-completed", [versions[0]])).toThrow(/no completed versions/);
+  });
+
+  it("resolves before:<date> to the newest completed version created earlier", () => {
+    expect(resolveVersionSelector("before:2024-06-01", versions)).toBe("v_ba1");
+    expect(resolveVersionSelector("before:2024-07-01T00:00:00Z", versions)).toBe("v_cc3");
+    expect(() => resolveVersionSelector("before:2024-01-01", versions)).toThrow(
+      /no completed version was created before 2024-01-01/,
+    );
+    expect(() => resolveVersionSelector("before:soon", versions)).toThrow(/Invalid date/);
+  });
+
+  it("resolves ^ to the version before the current one", () => {
+    expect(resolveVersionSelector("^", versions, { currentVersionId: "v_cc3" })).toBe("v_bb2");
+    expect(() => resolveVersionSelector("^", versions)).toThrow(/needs an existing manifest/);
+    expect(() => resolveVersionSelector("^", versions, { currentVersionId: "v_ba1" })).toThrow(/already the oldest/);
+    expect(() => resolveVersionSelector("^", versions, { currentVersionId: "gone" })).toThrow(/not in the chat/);
+  });
+
+  it("resolves ids and unambiguous prefixes, passing unknown ids through", () => {
+    expect(resolveVersionSelector("v_bb2", versions)).toBe("v_bb2");
+    expect(resolveVersionSelector("v_c", versions)).toBe("v_cc3");
+    expect(resolveVersionSelector("v_unknown", versions)).toBe("v_unknown");
+  });
+
+  it("rejects ambiguous prefixes", () => {
+    expect(() => resolveVersionSelector("v_b", versions)).toThrow(
+      "--version v_b is ambiguous: it matches v_bb2, v_ba1 — use more characters",
+    );
+  });
+});
@@ -0,0 +1,227 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  createCachedZipWriter,
+  formatBytes,
+  openCachedZip,
+  pruneZipCache,
+  resolveCacheDir,
+} from "../v0-setup/scripts/zip-cache.mjs";
+
+const tmpDirs: string[] = [];
+
+function makeTempDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "zip-cache-test-"));
+  tmpDirs.push(dir);
+  return dir;
+}
+
+function bytes(text: string): ArrayBuffer {
+  return new TextEncoder().encode(text).buffer as ArrayBuffer;
+}
+
+function decode(buffer: Uint8Array | null): string {
+  return buffer ? new TextDecoder().decode(buffer) : "";
+}
+
+/**
+ * Stores a whole archive through the streaming writer.
+ */
+function cacheZip(dir: string, chatId: string, versionId: string, data: ArrayBuffer, now?: number) {
+  const writer = createCachedZipWriter(dir, chatId, versionId);
+  writer.write(new Uint8Array(data));
+  return writer.commit(now);
+}
+
+/**
+ * Reads a cached archive's bytes, or null on a miss.
+ */
+function readCached(dir: string, chatId: string, versionId: string, now?: number): Uint8Array | null {
+  const cached = openCachedZip(dir, chatId, versionId, now);
+  return cached ? fs.readFileSync(cached.path) : null;
+}
+
+afterEach(() => {
+  for (const dir of tmpDirs) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+  tmpDirs.length = 0;
+});
+
+// ---------------------------------------------------------------------------
+// resolveCacheDir
+// ---------------------------------------------------------------------------
+
+describe("resolveCacheDir", () => {
+  it("prefers V0_SETUP_CACHE_DIR", () => {
+    expect(resolveCacheDir({ V0_SETUP_CACHE_DIR: "/custom/cache", XDG_CACHE_HOME: "/xdg" })).toBe("/custom/cache");
+  });
+
+  it("falls back to XDG_CACHE_HOME/v0-setup", () => {
+    expect(resolveCacheDir({ XDG_CACHE_HOME: "/xdg" })).toBe("/xdg/v0-setup");
+  });
+
+  it("defaults to ~/.cache/v0-setup", () => {
+    expect(resolveCacheDir({})).toBe(path.join(os.homedir(), ".cache", "v0-setup"));
+  });
+});
+
+// ---------------------------------------------------------------------------
+// openCachedZip
+// ---------------------------------------------------------------------------
+
+describe("openCachedZip", () => {
+  it("returns null on a miss", () => {
+    expect(readCached(makeTempDir(), "chat-1", "ver_1")).toBeNull();
+  });
+
+  it("returns the stored zip on a hit", () => {
+    const dir = makeTempDir();
+    const { sha256 } = cacheZip(dir, "chat-1", "ver_1", bytes("zip-data"));
+
+    expect(openCachedZip(dir, "chat-1", "ver_1")).toEqual({
+      path: path.join(dir, "blobs", `${sha256}.zip`),
+      sha256,
+      size: 8,
+    });
+    expect(decode(readCached(dir, "chat-1", "ver_1"))).toBe("zip-data");
+  });
+
+  it("keys entries by chat and version", () => {
+    const dir = makeTempDir();
+    cacheZip(dir, "chat-1", "ver_1", bytes("one"));
+
+    expect(readCached(dir, "chat-1", "ver_2")).toBeNull();
+    expect(readCached(dir, "chat-2", "ver_1")).toBeNull();
+  });
+
+  it("stores identical archives once (content-addressed)", () => {
+    const dir = makeTempDir();
+    const first = cacheZip(dir, "chat-1", "ver_1", bytes("same"));
+    const second = cacheZip(dir, "chat-1", "ver_2", bytes("same"));
+
+    expect(first.sha256).toBe(second.sha256);
+    expect(fs.readdirSync(path.join(dir, "blobs"))).toHaveLength(1);
+  });
+
+  it("treats a corrupted blob as a miss and drops it", () => {
+    const dir = makeTempDir();
+    const { sha256 } = cacheZip(dir, "chat-1", "ver_1", bytes("original"));
+    fs.writeFileSync(path.join(dir, "blobs", `${sha256}.zip`), "tampered");
+
+    expect(readCached(dir, "chat-1", "ver_1")).toBeNull();
+    expect(fs.existsSync(path.join(dir, "blobs", `${sha256}.zip`))).toBe(false);
+  });
+
+  it("SECURITY: chat and version IDs cannot escape the cache directory", () => {
+    const dir = makeTempDir();
+    cacheZip(dir, "../../escape", "../ver", bytes("data"));
+
+    expect(fs.existsSync(path.join(dir, "index"))).toBe(true);
+    expect(fs.existsSync(path.join(dir, "..", "..", "escape"))).toBe(false);
+    expect(decode(readCached(dir, "../../escape", "../ver"))).toBe("data");
+
+    cacheZip(dir, "..", "..", bytes("dots"));
+    expect(fs.readdirSync(path.join(dir, "index"))).toContain("%2E%2E");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// pruneZipCache
+// ---------------------------------------------------------------------------
+
+describe("pruneZipCache", () => {
+  const DAY = 24 * 60 * 60 * 1000;
+
+  it("removes entries older than maxAgeMs and their blobs", () => {
+    const dir = makeTempDir();
+    const now = 100 * DAY;
+    cacheZip(dir, "chat", "old", bytes("old archive"), now - 40 * DAY);
+    cacheZip(dir, "chat", "new", bytes("new archive"), now - DAY);
+
+    const result = pruneZipCache(dir, { maxAgeMs: 30 * DAY, now });
+
+    expect(result.removedEntries).toBe(1);
+    expect(result.removedBlobs).toBe(1);
+    expect(readCached(dir, "chat", "old", now)).toBeNull();
+    expect(decode(readCached(dir, "chat", "new", now))).toBe("new archive");
+  });
+
+  it("evicts least recently used entries until the cache fits maxBytes", () => {
+    const dir = makeTempDir();
+    const now = 10 * DAY;
+    cacheZip(dir, "chat", "a", bytes("a".repeat(100)), now - 3 * DAY);
+    cacheZip(dir, "chat", "b", bytes("b".repeat(100)), now - 2 * DAY);
+    cacheZip(dir, "chat", "c", bytes("c".repeat(100)), now - DAY);
+
+    const result = pruneZipCache(dir, { maxBytes: 250, now });
+
+    expect(result.remainingBytes).toBe(200);
+    expect(readCached(dir, "chat", "a", now)).toBeNull();
+    expect(readCached(dir, "chat", "b", now)).not.toBeNull();
+    expect(readCached(dir, "chat", "c", now)).not.toBeNull();
+  });
+
+  it("removes temp files left by a download whose process has exited", () => {
+    const dir = makeTempDir();
+    const tmpDir = path.join(dir, "tmp");
+    fs.mkdirSync(tmpDir);
+    // pid 2^22 + 1 is above Linux's pid_max, so no process can hold it
+    fs.writeFileSync(path.join(tmpDir, `${2 ** 22 + 1}-chat-ver.zip`), "killed mid-download");
+    const inFlight = createCachedZipWriter(dir, "chat", "other");
+    inFlight.write(new TextEncoder().encode("still downloading"));
+
+    const result = pruneZipCache(dir);
+
+    expect(result.freedBytes).toBe(19);
+    expect(fs.readdirSync(tmpDir)).toEqual([`${process.pid}-chat-other.zip`]);
+    inFlight.abort();
+  });
+
+  it("is a no-op on a missing cache directory", () => {
+    const dir = path.join(makeTempDir(), "does-not-exist");
+
+    expect(pruneZipCache(dir)).toEqual({ removedEntries: 0, removedBlobs: 0, freedBytes: 0, remainingBytes: 0 });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// createCachedZipWriter
+// ---------------------------------------------------------------------------
+
+describe("createCachedZipWriter", () => {
+  it("stores streamed chunks as one blob, readable like a buffered write", () => {
+    const dir = makeTempDir();
+    const writer = createCachedZipWriter(dir, "chat", "ver");
+
+    writer.write(new TextEncoder().encode("arch"));
+    writer.write(new TextEncoder().encode("ive"));
+    const stored = writer.commit(1000);
+
+    expect(stored).toEqual(cacheZip(makeTempDir(), "chat", "ver", bytes("archive")));
+    expect(stored.size).toBe(7);
+    expect(decode(readCached(dir, "chat", "ver"))).toBe("archive");
+    expect(fs.readdirSync(path.join(dir, "tmp"))).toEqual([]);
+  });
+
+  it("leaves no entry or temp file behind when aborted", () => {
+    const dir = makeTempDir();
+    const writer = createCachedZipWriter(dir, "chat", "ver");
+
+    writer.write(new TextEncoder().encode("partial"));
+    writer.abort();
+
+    expect(readCached(dir, "chat", "ver")).toBeNull();
+    expect(fs.readdirSync(path.join(dir, "tmp"))).toEqual([]);
+  });
+});
+
+describe("formatBytes", () => {
+  it("formats bytes, kilobytes, and megabytes", () => {
+    expect(formatBytes(512)).toBe("512 B");
+    expect(formatBytes(2048)).toBe("2.0 KB");
+    expect(formatBytes(5 * 1024 * 1024)).toBe("5.0 MB");
+  });
+});
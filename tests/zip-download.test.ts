@@ -2,8 +2,18 @@ import { afterEach, describe, expect, it, mock } from "bun:test";
 import * as fs from "node:fs";
 import * as os from "node:os";
 import * as path from "node:path";
-import { strToU8, zipSync } from "fflate";
-import { downloadAndExtract, downloadVersionZip, extractZipToDirectory } from "../v0-setup/scripts/zip-download.mjs";
+import { strToU8, Zip, ZipDeflate, zipSync } from "fflate";
+import { AuthError, NotFoundError, ZipSafetyError } from "../v0-setup/scripts/errors.mjs";
+import { createV0Client } from "../v0-setup/scripts/v0-client.mjs";
+import {
+  DEFAULT_ZIP_LIMITS,
+  downloadAndExtract,
+  downloadVersionZip,
+  extractZipStream,
+  extractZipToDirectory,
+  unzipInMemory,
+  unzipWithLimits,
+} from "../v0-setup/scripts/zip-download.mjs";
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -35,6 +45,55 @@ function makeFetchMockOk(zipBuffer: ArrayBuffer) {
   );
 }
 
+/**
+ * Build a zip the way a streaming producer does: local headers carry no sizes, which
+ * follow each entry in a data descriptor instead.
+ */
+function makeStreamedZip(files: Record<string, string>): Uint8Array {
+  const parts: Uint8Array[] = [];
+  const zip = new Zip((err, chunk) => {
+    if (err) throw err;
+    parts.push(chunk);
+  });
+  for (const [name, content] of Object.entries(files)) {
+    const entry = new ZipDeflate(name);
+    zip.add(entry);
+    entry.push(strToU8(content), true);
+  }
+  zip.end();
+  return new Uint8Array(Buffer.concat(parts));
+}
+
+/**
+ * Split zip data into chunks, as a network response would deliver it.
+ */
+function chunksOf(data: Uint8Array | ArrayBuffer, chunkSize: number): Uint8Array[] {
+  const bytes = new Uint8Array(data);
+  const chunks: Uint8Array[] = [];
+  for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+    chunks.push(bytes.slice(offset, offset + chunkSize));
+  }
+  return chunks;
+}
+
+/**
+ * Create a mock fetch that streams a zip response in chunks of the given size.
+ */
+function makeStreamingFetchMock(zipBuffer: ArrayBuffer, chunkSize = 64) {
+  return mock((_url: string, _init?: RequestInit) => {
+    const bytes = new Uint8Array(zipBuffer);
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+          controller.enqueue(bytes.slice(offset, offset + chunkSize));
+        }
+        controller.close();
+      },
+    });
+    return Promise.resolve(new Response(body, { headers: { "Content-Length": String(bytes.length) } }));
+  });
+}
+
 /**
  * Create a mock fetch that returns an error status.
  */
@@ -142,6 +201,9 @@ describe("downloadVersionZip", () => {
     await expect(
       downloadVersionZip(resolvedChatId, versionId, apiKey, fetchMock as unknown as typeof fetch),
     ).rejects.toThrow(/unauthorized/i);
+    await expect(
+      downloadVersionZip(resolvedChatId, versionId, apiKey, fetchMock as unknown as typeof fetch),
+    ).rejects.toBeInstanceOf(AuthError);
   });
 
   it("404 response throws an error mentioning 'not found'", async () => {
@@ -150,6 +212,9 @@ describe("downloadVersionZip", () => {
     await expect(
       downloadVersionZip(resolvedChatId, versionId, apiKey, fetchMock as unknown as typeof fetch),
     ).rejects.toThrow(/not found/i);
+    await expect(
+      downloadVersionZip(resolvedChatId, versionId, apiKey, fetchMock as unknown as typeof fetch),
+    ).rejects.toBeInstanceOf(NotFoundError);
   });
 
   it("500 response throws a descriptive error", async () => {
@@ -284,6 +349,40 @@ describe("extractZipToDirectory", () => {
     }
   });
 
+  it("shouldWrite returning false leaves the entry off disk but still returns it", async () => {
+    const targetDir = makeTempDir();
+    tmpDirs.push(targetDir);
+
+    const zipBuffer = makeZipBuffer({ "keep.txt": "new content", "skip.txt": "skipped" });
+    const files = await extractZipToDirectory(zipBuffer, targetDir, {
+      shouldWrite: (name: string) => name !== "skip.txt",
+    });
+
+    expect(fs.existsSync(path.join(targetDir, "keep.txt"))).toBe(true);
+    expect(fs.existsSync(path.join(targetDir, "skip.txt"))).toBe(false);
+    expect(files).toHaveLength(2);
+    expect(files.find((f) => f.name === "keep.txt")?.written).toBe(true);
+    expect(files.find((f) => f.name === "skip.txt")?.written).toBe(false);
+  });
+
+  it("select returning false skips the entry and marks it unselected", async () => {
+    const targetDir = makeTempDir();
+    tmpDirs.push(targetDir);
+
+    const zipBuffer = makeZipBuffer({ "app/page.tsx": "page", "components/ui/button.tsx": "button" });
+    const files = await extractZipToDirectory(zipBuffer, targetDir, {
+      select: (name: string) => !name.startsWith("components/ui/"),
+      shouldWrite: () => true,
+    });
+
+    expect(fs.existsSync(path.join(targetDir, "components/ui/button.tsx"))).toBe(false);
+    const button = files.find((f) => f.name === "components/ui/button.tsx");
+    expect(button?.selected).toBe(false);
+    expect(button?.written).toBe(false);
+    expect(button?.sha256).toMatch(/^[0-9a-f]{64}$/);
+    expect(files.find((f) => f.name === "app/page.tsx")?.selected).toBe(true);
+  });
+
   it("returns size matching the file byte length", async () => {
     const targetDir = makeTempDir();
     tmpDirs.push(targetDir);
@@ -297,6 +396,23 @@ describe("extractZipToDirectory", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// unzipInMemory
+// ---------------------------------------------------------------------------
+
+describe("unzipInMemory", () => {
+  it("returns decoded entries without writing to disk", () => {
+    const zipBuffer = makeZipBuffer({ "app/page.tsx": "export default 1;", "README.md": "# Hi" });
+
+    const files = unzipInMemory(zipBuffer);
+
+    expect(files).toHaveLength(2);
+    const page = files.find((f) => f.name === "app/page.tsx");
+    expect(page?.content).toBe("export default 1;");
+    expect(page?.size).toBe(17);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // downloadAndExtract
 // ---------------------------------------------------------------------------
@@ -306,6 +422,7 @@ describe("downloadAndExtract", () => {
   const versionId = "ver_xyz789";
   const apiKey = "test-api-key";
   const tmpDirs: string[] = [];
+  const clientFor = (fetchMock: unknown) => createV0Client({ apiKey, fetch: fetchMock as typeof fetch });
 
   afterEach(() => {
     for (const dir of tmpDirs) {
@@ -322,15 +439,9 @@ describe("downloadAndExtract", () => {
       "app.tsx": "export default function App() { return null; }",
       "styles.css": "body { margin: 0; }",
     });
-    const fetchMock = makeFetchMockOk(zipBuffer);
+    const fetchMock = makeStreamingFetchMock(zipBuffer);
 
-    const files = await downloadAndExtract(
-      resolvedChatId,
-      versionId,
-      apiKey,
-      targetDir,
-      fetchMock as unknown as typeof fetch,
-    );
+    const files = await downloadAndExtract(clientFor(fetchMock), resolvedChatId, versionId, targetDir);
 
     // Should return the file list from extract
     expect(Array.isArray(files)).toBe(true);
@@ -347,9 +458,9 @@ describe("downloadAndExtract", () => {
 
     const fetchMock = makeFetchMockError(401, "Unauthorized");
 
-    await expect(
-      downloadAndExtract(resolvedChatId, versionId, apiKey, targetDir, fetchMock as unknown as typeof fetch),
-    ).rejects.toThrow(/unauthorized/i);
+    await expect(downloadAndExtract(clientFor(fetchMock), resolvedChatId, versionId, targetDir)).rejects.toThrow(
+      /unauthorized/i,
+    );
   });
 
   it("passes through 404 errors from the download step", async () => {
@@ -358,12 +469,12 @@ describe("downloadAndExtract", () => {
 
     const fetchMock = makeFetchMockError(404, "Not Found");
 
-    await expect(
-      downloadAndExtract(resolvedChatId, versionId, apiKey, targetDir, fetchMock as unknown as typeof fetch),
-    ).rejects.toThrow(/not found/i);
+    await expect(downloadAndExtract(clientFor(fetchMock), resolvedChatId, versionId, targetDir)).rejects.toThrow(
+      /not found/i,
+    );
   });
 
-  it("calls downloadVersionZip with correct URL parameters", async () => {
+  it("downloads from the version's download URL", async () => {
     const targetDir = makeTempDir();
     tmpDirs.push(targetDir);
 
@@ -371,32 +482,88 @@ describe("downloadAndExtract", () => {
     let capturedUrl = "";
     const fetchMock = mock((url: string) => {
       capturedUrl = url;
-      return Promise.resolve({
-        ok: true,
-        status: 200,
-        arrayBuffer: () => Promise.resolve(zipBuffer),
-      } as unknown as Response);
+      return Promise.resolve(new Response(zipBuffer));
     });
 
-    await downloadAndExtract(resolvedChatId, versionId, apiKey, targetDir, fetchMock as unknown as typeof fetch);
+    await downloadAndExtract(clientFor(fetchMock), resolvedChatId, versionId, targetDir);
 
     expect(capturedUrl).toBe(`https://api.v0.dev/v1/chats/${resolvedChatId}/versions/${versionId}/download`);
   });
 
+  it("streams the download and reports its Content-Length as the total", async () => {
+    const targetDir = makeTempDir();
+    tmpDirs.push(targetDir);
+    const zipBuffer = makeZipBuffer({ "app.tsx": "export {}", "styles.css": "body {}" });
+    const events: Array<{ bytes: number; totalBytes: number | null; entries: number }> = [];
+
+    await downloadAndExtract(clientFor(makeStreamingFetchMock(zipBuffer, 16)), resolvedChatId, versionId, targetDir, {
+      onProgress: (progress: { bytes: number; totalBytes: number | null; entries: number }) => events.push(progress),
+    });
+
+    expect(events.length).toBeGreaterThan(2);
+    expect(events.at(-1)).toEqual({ bytes: zipBuffer.byteLength, totalBytes: zipBuffer.byteLength, entries: 2 });
+    expect(fs.readFileSync(path.join(targetDir, "styles.css"), "utf-8")).toBe("body {}");
+  });
+
+  it("stores a streamed download in the cache and extracts the cached copy next time", async () => {
+    const targetDir = makeTempDir();
+    const cacheDir = makeTempDir();
+    tmpDirs.push(targetDir, cacheDir);
+    const zipBuffer = makeZipBuffer({ "app.tsx": "export {}" });
+    const fetchMock = makeStreamingFetchMock(zipBuffer, 16);
+    const results: Array<{ hit: boolean; size: number }> = [];
+    const cache = { dir: cacheDir, onResult: (r: { hit: boolean; size: number }) => results.push(r) };
+
+    const events: Array<{ bytes: number; totalBytes: number | null; entries: number }> = [];
+
+    await downloadAndExtract(clientFor(fetchMock), resolvedChatId, versionId, targetDir, { cache });
+    const files = await downloadAndExtract(clientFor(fetchMock), resolvedChatId, versionId, targetDir, {
+      cache,
+      onProgress: (progress: { bytes: number; totalBytes: number | null; entries: number }) => events.push(progress),
+    });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(events.at(-1)).toEqual({ bytes: zipBuffer.byteLength, totalBytes: zipBuffer.byteLength, entries: 1 });
+    expect(results).toEqual([
+      { hit: false, size: zipBuffer.byteLength },
+      { hit: true, size: zipBuffer.byteLength },
+    ]);
+    expect(files.map((f: { name: string }) => f.name)).toEqual(["app.tsx"]);
+  });
+
+  it("caches nothing when a streamed download is cut short", async () => {
+    const targetDir = makeTempDir();
+    const cacheDir = makeTempDir();
+    tmpDirs.push(targetDir, cacheDir);
+    const zipBuffer = makeZipBuffer({ "app.tsx": "export {}" });
+    const results: Array<{ hit: boolean; size: number }> = [];
+    const cache = { dir: cacheDir, onResult: (r: { hit: boolean; size: number }) => results.push(r) };
+
+    await expect(
+      downloadAndExtract(
+        clientFor(makeStreamingFetchMock(zipBuffer.slice(0, -30), 16)),
+        resolvedChatId,
+        versionId,
+        targetDir,
+        {
+          cache,
+        },
+      ),
+    ).rejects.toThrow(/truncated/);
+
+    expect(results).toEqual([]);
+    expect(fs.existsSync(path.join(cacheDir, "index"))).toBe(false);
+    expect(fs.readdirSync(path.join(cacheDir, "tmp"))).toEqual([]);
+  });
+
   it("each returned entry has name, size, and content fields", async () => {
     const targetDir = makeTempDir();
     tmpDirs.push(targetDir);
 
     const zipBuffer = makeZipBuffer({ "component.tsx": "export const Foo = () => null;" });
-    const fetchMock = makeFetchMockOk(zipBuffer);
+    const fetchMock = makeStreamingFetchMock(zipBuffer);
 
-    const files = await downloadAndExtract(
-      resolvedChatId,
-      versionId,
-      apiKey,
-      targetDir,
-      fetchMock as unknown as typeof fetch,
-    );
+    const files = await downloadAndExtract(clientFor(fetchMock), resolvedChatId, versionId, targetDir);
 
     expect(files.length).toBeGreaterThan(0);
     for (const f of files) {
@@ -407,6 +574,144 @@ describe("downloadAndExtract", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// extractZipStream
+// ---------------------------------------------------------------------------
+
+describe("extractZipStream", () => {
+  const tmpDirs: string[] = [];
+
+  afterEach(() => {
+    for (const dir of tmpDirs) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+    tmpDirs.length = 0;
+  });
+
+  function makeTarget(): string {
+    const baseDir = makeTempDir();
+    tmpDirs.push(baseDir);
+    return path.join(baseDir, "v0-source");
+  }
+
+  async function* slowly(chunks: Uint8Array[]) {
+    for (const chunk of chunks) yield chunk;
+  }
+
+  it("extracts an archive delivered in small chunks", async () => {
+    const targetDir = makeTarget();
+    const zipBuffer = makeZipBuffer({ "app/page.tsx": "export default function Page() {}", "README.md": "# hi" });
+
+    const files = await extractZipStream(slowly(chunksOf(zipBuffer, 7)), targetDir);
+
+    expect(files.map((f: { name: string }) => f.name)).toEqual(["app/page.tsx", "README.md"]);
+    expect(fs.readFileSync(path.join(targetDir, "app/page.tsx"), "utf-8")).toBe("export default function Page() {}");
+    expect(fs.readdirSync(path.join(targetDir, "app"))).toEqual(["page.tsx"]);
+  });
+
+  it("extracts archives whose sizes follow the data", async () => {
+    const targetDir = makeTarget();
+
+    const files = await extractZipStream(
+      chunksOf(makeStreamedZip({ "a.txt": "alpha", "b.txt": "beta" }), 16),
+      targetDir,
+    );
+
+    expect(files.map((f: { content: string | null }) => f.content)).toEqual(["alpha", "beta"]);
+  });
+
+  it("removes partial files a killed extraction left behind", async () => {
+    const targetDir = makeTarget();
+    fs.mkdirSync(path.join(targetDir, "app"), { recursive: true });
+    // pid 2^22 + 1 is above Linux's pid_max, so no process can hold it
+    const leftover = path.join(targetDir, "app", `page.tsx.${2 ** 22 + 1}.partial`);
+    fs.writeFileSync(leftover, "half a file");
+
+    await extractZipStream(chunksOf(makeZipBuffer({ "README.md": "# hi" }), 16), targetDir);
+
+    expect(fs.existsSync(leftover)).toBe(false);
+    expect(fs.readFileSync(path.join(targetDir, "README.md"), "utf-8")).toBe("# hi");
+  });
+
+  it("reports bytes read and entries extracted", async () => {
+    const zipBuffer = makeZipBuffer({ "a.txt": "a", "b.txt": "b" });
+    const events: Array<{ bytes: number; totalBytes: number | null; entries: number }> = [];
+
+    await extractZipStream(chunksOf(zipBuffer, 32), makeTarget(), {
+      totalBytes: zipBuffer.byteLength,
+      onProgress: (progress: { bytes: number; totalBytes: number | null; entries: number }) => events.push(progress),
+    });
+
+    expect(events.at(-1)).toEqual({ bytes: zipBuffer.byteLength, totalBytes: zipBuffer.byteLength, entries: 2 });
+    expect(events.map((e) => e.bytes)).toEqual([...events.map((e) => e.bytes)].sort((a, b) => a - b));
+    expect(events.some((e) => e.entries === 1)).toBe(true);
+  });
+
+  it("leaves the target untouched when the download is cut short", async () => {
+    const targetDir = makeTarget();
+    // Incompressible, so b.txt's data spans the middle of the archive
+    const noise = Array.from({ length: 2000 }, (_, i) =>
+      String.fromCharCode(33 + Math.floor(Math.abs(Math.sin(i)) * 94)),
+    );
+    const zipped = makeStreamedZip({ "a.txt": "first", "b.txt": noise.join("") });
+
+    await expect(extractZipStream([zipped.slice(0, zipped.length / 2)], targetDir)).rejects.toThrow(
+      /ended before "b.txt" was complete/,
+    );
+    await expect(extractZipStream([zipped.slice(0, zipped.length - 30)], targetDir)).rejects.toThrow(/truncated/);
+    expect(fs.existsSync(targetDir)).toBe(false);
+  });
+
+  it("SECURITY: removes entries already written when a later one escapes the target", async () => {
+    const targetDir = makeTarget();
+    const zipped = zipSync({ "good.txt": strToU8("fine"), "../escape.txt": strToU8("bad") });
+
+    await expect(extractZipStream(chunksOf(zipped, 16), targetDir)).rejects.toBeInstanceOf(ZipSafetyError);
+    expect(fs.existsSync(targetDir)).toBe(false);
+    expect(fs.existsSync(path.join(targetDir, "..", "escape.txt"))).toBe(false);
+  });
+
+  it("keeps existing files as they were when extraction fails", async () => {
+    const targetDir = makeTarget();
+    fs.mkdirSync(targetDir, { recursive: true });
+    fs.writeFileSync(path.join(targetDir, "good.txt"), "old");
+    const zipped = zipSync({ "good.txt": strToU8("new"), "../escape.txt": strToU8("bad") });
+
+    await expect(extractZipStream([zipped], targetDir)).rejects.toThrow(/Zip Slip/);
+    expect(fs.readdirSync(targetDir)).toEqual(["good.txt"]);
+    expect(fs.readFileSync(path.join(targetDir, "good.txt"), "utf-8")).toBe("old");
+  });
+
+  it("enforces the size limits on inflated bytes when the headers declare none", async () => {
+    const targetDir = makeTarget();
+    const zipped = makeStreamedZip({ "small.txt": "ok", "big.txt": "x".repeat(1000) });
+
+    await expect(extractZipStream([zipped], targetDir, { limits: { maxEntryBytes: 500 } })).rejects.toThrow(
+      /"big.txt" expands to more than 500 bytes/,
+    );
+    await expect(extractZipStream([zipped], targetDir, { limits: { maxTotalBytes: 500 } })).rejects.toThrow(
+      /archive expands to more than 500 bytes/,
+    );
+    expect(fs.existsSync(targetDir)).toBe(false);
+  });
+
+  it("stops at the entry count limit", async () => {
+    const targetDir = makeTarget();
+    const zipBuffer = makeZipBuffer({ "a.txt": "a", "b.txt": "b", "c.txt": "c" });
+
+    await expect(extractZipStream(chunksOf(zipBuffer, 16), targetDir, { limits: { maxEntries: 2 } })).rejects.toThrow(
+      /more than 2 entries/,
+    );
+    expect(fs.existsSync(targetDir)).toBe(false);
+  });
+
+  it("rejects data that is not a zip", async () => {
+    await expect(extractZipStream([strToU8("<html>Bad Gateway</html>")], makeTarget())).rejects.toThrow(
+      /Invalid zip data/,
+    );
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Edge-case / security probing tests (Amy - Raptor Protocol)
 // ---------------------------------------------------------------------------
@@ -526,3 +831,153 @@ describe("extractZipToDirectory - security and edge cases", () => {
     ).rejects.toThrow();
   });
 });
+
+// ---------------------------------------------------------------------------
+// Resource limits (zip bomb protection)
+// ---------------------------------------------------------------------------
+
+describe("extractZipToDirectory - resource limits", () => {
+  const tmpDirs: string[] = [];
+
+  afterEach(() => {
+    for (const dir of tmpDirs) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+    tmpDirs.length = 0;
+  });
+
+  function makeTarget(): string {
+    const baseDir = makeTempDir();
+    tmpDirs.push(baseDir);
+    return path.join(baseDir, "v0-source");
+  }
+
+  it("has sensible defaults for every limit", () => {
+    expect(DEFAULT_ZIP_LIMITS.maxTotalBytes).toBeGreaterThan(0);
+    expect(DEFAULT_ZIP_LIMITS.maxEntryBytes).toBeGreaterThan(0);
+    expect(DEFAULT_ZIP_LIMITS.maxEntries).toBeGreaterThan(0);
+    expect(DEFAULT_ZIP_LIMITS.maxCompressionRatio).toBeGreaterThan(1);
+  });
+
+  it("rejects an archive with too many entries and writes nothing", async () => {
+    const targetDir = makeTarget();
+    const zipBuffer = makeZipBuffer({ "a.txt": "a", "b.txt": "b", "c.txt": "c" });
+
+    await expect(extractZipToDirectory(zipBuffer, targetDir, { limits: { maxEntries: 2 } })).rejects.toThrow(
+      /3 entries \(limit 2\)/,
+    );
+    expect(fs.existsSync(targetDir)).toBe(false);
+  });
+
+  it("rejects an entry over the per-entry size limit", async () => {
+    const targetDir = makeTarget();
+    const zipBuffer = makeZipBuffer({ "small.txt": "ok", "big.txt": "x".repeat(1000) });
+
+    await expect(extractZipToDirectory(zipBuffer, targetDir, { limits: { maxEntryBytes: 500 } })).rejects.toThrow(
+      /"big.txt" is 1000 bytes uncompressed/,
+    );
+    expect(fs.existsSync(targetDir)).toBe(false);
+  });
+
+  it("rejects an archive over the total uncompressed size limit", async () => {
+    const targetDir = makeTarget();
+    const zipBuffer = makeZipBuffer({ "a.txt": "x".repeat(300), "b.txt": "y".repeat(300) });
+
+    await expect(extractZipToDirectory(zipBuffer, targetDir, { limits: { maxTotalBytes: 500 } })).rejects.toThrow(
+      /expands to more than 500 bytes/,
+    );
+    expect(fs.existsSync(targetDir)).toBe(false);
+  });
+
+  it("rejects a large entry with a suspicious compression ratio", async () => {
+    const targetDir = makeTarget();
+    const zipped = zipSync({ "bomb.bin": new Uint8Array(2 * 1024 * 1024) });
+
+    await expect(extractZipToDirectory(zipped.buffer as ArrayBuffer, targetDir)).rejects.toThrow(/compression ratio/);
+    expect(fs.existsSync(targetDir)).toBe(false);
+  });
+
+  it("allows small, highly compressible files", async () => {
+    const targetDir = makeTarget();
+    const zipBuffer = makeZipBuffer({ "spaces.txt": " ".repeat(50_000) });
+
+    const files = await extractZipToDirectory(zipBuffer, targetDir);
+
+    expect(files).toHaveLength(1);
+  });
+
+  it("overrides merge with the defaults", () => {
+    const zipBuffer = makeZipBuffer({ "a.txt": "a", "b.txt": "b" });
+
+    expect(Object.keys(unzipWithLimits(zipBuffer, { maxEntries: 2 }))).toHaveLength(2);
+    expect(() => unzipWithLimits(zipBuffer, { maxEntries: 1 })).toThrow(/Zip limit exceeded/);
+  });
+
+  it("unzipInMemory applies the same limits", () => {
+    const zipBuffer = makeZipBuffer({ "a.txt": "a", "b.txt": "b" });
+
+    expect(() => unzipInMemory(zipBuffer, { maxEntries: 1 })).toThrow(/Zip limit exceeded/);
+    expect(() => unzipInMemory(zipBuffer, { maxEntries: 1 })).toThrow(ZipSafetyError);
+  });
+
+  it("SECURITY: a Zip Slip entry later in the archive leaves earlier entries unwritten", async () => {
+    const targetDir = makeTarget();
+    const zipped = zipSync({ "good.txt": strToU8("fine"), "../escape.txt": strToU8("bad") });
+
+    await expect(extractZipToDirectory(zipped.buffer as ArrayBuffer, targetDir)).rejects.toThrow(/Zip Slip/);
+    await expect(extractZipToDirectory(zipped.buffer as ArrayBuffer, targetDir)).rejects.toBeInstanceOf(ZipSafetyError);
+    expect(fs.existsSync(path.join(targetDir, "good.txt"))).toBe(false);
+  });
+
+  it("SECURITY: a sibling directory sharing the target prefix is treated as outside", async () => {
+    const targetDir = makeTarget();
+    const zipped = zipSync({ "../v0-source-evil/x.txt": strToU8("bad") });
+
+    await expect(extractZipToDirectory(zipped.buffer as ArrayBuffer, targetDir)).rejects.toThrow(/Zip Slip/);
+    expect(fs.existsSync(path.join(targetDir, "..", "v0-source-evil"))).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Binary entries
+// ---------------------------------------------------------------------------
+
+describe("extractZipToDirectory - binary entries", () => {
+  const tmpDirs: string[] = [];
+  const pngBytes = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0xff, 0xfe]);
+
+  afterEach(() => {
+    for (const dir of tmpDirs) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+    tmpDirs.length = 0;
+  });
+
+  it("writes binary files byte-for-byte without decoding them", async () => {
+    const baseDir = makeTempDir();
+    tmpDirs.push(baseDir);
+    const zipped = zipSync({ "public/logo.png": pngBytes, "app/page.tsx": strToU8("export {};") });
+
+    const files = await extractZipToDirectory(zipped.buffer as ArrayBuffer, baseDir);
+
+    const logo = files.find((f: { name: string }) => f.name === "public/logo.png");
+    expect(logo?.encoding).toBe("binary");
+    expect(logo?.mimeType).toBe("image/png");
+    expect(logo?.content).toBeNull();
+    expect(new Uint8Array(fs.readFileSync(path.join(baseDir, "public/logo.png")))).toEqual(pngBytes);
+
+    const page = files.find((f: { name: string }) => f.name === "app/page.tsx");
+    expect(page?.encoding).toBe("utf-8");
+    expect(page?.content).toBe("export {};");
+    expect(page?.sha256).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it("unzipInMemory reports the same metadata", () => {
+    const zipped = zipSync({ "public/logo.png": pngBytes });
+
+    const [logo] = unzipInMemory(zipped.buffer as ArrayBuffer);
+
+    expect(logo.encoding).toBe("binary");
+    expect(logo.content).toBeNull();
+  });
+});
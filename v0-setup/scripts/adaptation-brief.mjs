@@ -0,0 +1,261 @@
+import { join } from "node:path";
+import { diffDependencies, formatDependencySummary } from "./dependency-diff.mjs";
+import { buildImportInventory } from "./import-inventory.mjs";
+import { analyzeThemeTokens, formatThemeSummary, GLOBALS_CSS_CANDIDATES } from "./theme-tokens.mjs";
+
+const DEFAULT_UI_ALIAS = "@/components/ui";
+
+const COMPONENT_EXTENSIONS = [".tsx", ".jsx", ".ts", ".js"];
+
+// Lockfile → package manager, in detection order
+const PACKAGE_MANAGERS = [
+  ["pnpm-lock.yaml", "pnpm"],
+  ["bun.lock", "bun"],
+  ["bun.lockb", "bun"],
+  ["yarn.lock", "yarn"],
+  ["package-lock.json", "npm"],
+];
+
+// Command prefixes for running a package binary (the shadcn CLI) and adding dependencies
+const PACKAGE_RUNNERS = { pnpm: "pnpm dlx", bun: "bunx --bun", yarn: "yarn dlx", npm: "npx" };
+const PACKAGE_ADDERS = { pnpm: "pnpm add", bun: "bun add", yarn: "yarn add", npm: "npm install" };
+
+/**
+ * Reads and parses a JSON file, returning null when it doesn't exist.
+ *
+ * @param {string} path
+ * @param {(path: string, encoding: string) => string} readFileSync
+ * @returns {object | null}
+ */
+function readJsonIfExists(path, readFileSync) {
+  let raw;
+  try {
+    raw = readFileSync(path, "utf8");
+  } catch (err) {
+    if (err?.code === "ENOENT") return null;
+    throw err;
+  }
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new Error(`${path} is not valid JSON`);
+  }
+}
+
+// Ranges like ">=18 <20" must be quoted for the install command to be pasteable
+function quoteShellArg(arg) {
+  return /^[\w@/.^~:-]+$/.test(arg) ? arg : `'${arg.replaceAll("'", "'\\''")}'`;
+}
+
+/**
+ * Reads the first globals.css candidate that exists under a directory.
+ *
+ * @param {string} dir
+ * @param {string[]} candidates - Paths relative to dir, in order of preference
+ * @param {(path: string, encoding: string) => string} readFileSync
+ * @returns {{ path: string, css: string } | null}
+ */
+function readGlobalsCss(dir, candidates, readFileSync) {
+  for (const candidate of candidates) {
+    try {
+      return { path: candidate, css: readFileSync(join(dir, candidate), "utf8") };
+    } catch (err) {
+      if (err?.code !== "ENOENT") throw err;
+    }
+  }
+  return null;
+}
+
+/**
+ * Reads the project's shadcn configuration.
+ *
+ * @param {string} projectDir
+ * @param {(path: string, encoding: string) => string} readFileSync
+ * @returns {{ found: boolean, uiAlias: string, cssPath: string | null }}
+ */
+export function readComponentsConfig(projectDir, readFileSync) {
+  const config = readJsonIfExists(join(projectDir, "components.json"), readFileSync);
+  if (!config) return { found: false, uiAlias: DEFAULT_UI_ALIAS, cssPath: null };
+  const uiAlias = config.aliases?.ui ?? (config.aliases?.components ? `${config.aliases.components}/ui` : null);
+  return { found: true, uiAlias: uiAlias ?? DEFAULT_UI_ALIAS, cssPath: config.tailwind?.css || null };
+}
+
+/**
+ * Resolves an "@/" alias to a project directory. "@/" maps to the project root, or to src/
+ * when the project keeps its code there.
+ *
+ * @param {string} projectDir
+ * @param {string} alias - e.g. "@/components/ui"
+ * @param {(path: string) => boolean} existsSync
+ * @returns {string}
+ */
+export function resolveAliasDir(projectDir, alias, existsSync) {
+  const relativePath = alias.replace(/^[@~]\//, "");
+  const srcPath = join(projectDir, "src", relativePath);
+  return existsSync(srcPath) ? srcPath : join(projectDir, relativePath);
+}
+
+/**
+ * Lists the shadcn components installed in the project's ui directory, by file name.
+ *
+ * @param {string} uiDir
+ * @param {{ readdirSync: Function, existsSync: Function }} fs
+ * @returns {string[]}
+ */
+export function listInstalledComponents(uiDir, { readdirSync, existsSync }) {
+  if (!existsSync(uiDir)) return [];
+  return readdirSync(uiDir)
+    .filter((file) => COMPONENT_EXTENSIONS.some((ext) => file.endsWith(ext)))
+    .map((file) => file.replace(/\.[jt]sx?$/, ""))
+    .sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Picks the project's package manager from its lockfile. Defaults to pnpm, the package
+ * manager the adaptation rules assume.
+ *
+ * @param {string} projectDir
+ * @param {(path: string) => boolean} existsSync
+ * @returns {"pnpm" | "bun" | "yarn" | "npm"}
+ */
+export function detectPackageManager(projectDir, existsSync) {
+  for (const [lockfile, manager] of PACKAGE_MANAGERS) {
+    if (existsSync(join(projectDir, lockfile))) return manager;
+  }
+  return "pnpm";
+}
+
+/**
+ * Picks the command prefix for running the shadcn CLI from the project's lockfile.
+ *
+ * @param {string} projectDir
+ * @param {(path: string) => boolean} existsSync
+ * @returns {string}
+ */
+export function detectPackageRunner(projectDir, existsSync) {
+  return PACKAGE_RUNNERS[detectPackageManager(projectDir, existsSync)];
+}
+
+/**
+ * Builds adaptation-brief.json for a fetched design: the import inventory of its custom
+ * files, which imported shadcn components the project already has, how the design's
+ * package.json dependencies compare with the project's, and how its globals.css theme tokens
+ * compare with the project's. Components the design ships itself (custom files under its own
+ * ui directory) are not reported missing.
+ *
+ * @param {object} params
+ * @param {object} params.manifest - The design's manifest
+ * @param {string} params.designDir - The v0-source directory
+ * @param {string} params.projectDir - The project root (holds components.json)
+ * @param {object} params.fs - readFileSync, readdirSync, existsSync
+ * @returns {object} The brief
+ */
+export function buildAdaptationBrief({ manifest, designDir, projectDir, fs }) {
+  const config = readComponentsConfig(projectDir, fs.readFileSync);
+  const uiPrefix = `${config.uiAlias.replace(/^[@~]\//, "")}/`;
+
+  const customFiles = [];
+  const unreadable = [];
+  for (const file of manifest.files ?? []) {
+    if (!file.isCustom || file.encoding === "binary" || file.written === false) continue;
+    try {
+      customFiles.push({ name: file.name, content: fs.readFileSync(join(designDir, file.name), "utf8") });
+    } catch {
+      unreadable.push(file.name);
+    }
+  }
+
+  const imports = buildImportInventory(customFiles, { uiAlias: config.uiAlias });
+  const uiDir = resolveAliasDir(projectDir, config.uiAlias, fs.existsSync);
+  const installed = new Set(listInstalledComponents(uiDir, fs));
+  const providedByDesign = new Set(
+    customFiles.filter((f) => f.name.startsWith(uiPrefix)).map((f) => f.name.slice(uiPrefix.length).split(/[./]/)[0]),
+  );
+
+  const manager = detectPackageManager(projectDir, fs.existsSync);
+  const dependencies = diffDependencies({
+    v0Package: readJsonIfExists(join(designDir, "package.json"), fs.readFileSync),
+    projectPackage: readJsonIfExists(join(projectDir, "package.json"), fs.readFileSync),
+    importedPackages: imports.packages,
+  });
+
+  const v0Globals = readGlobalsCss(designDir, GLOBALS_CSS_CANDIDATES, fs.readFileSync);
+  const projectGlobals = readGlobalsCss(
+    projectDir,
+    config.cssPath ? [config.cssPath] : GLOBALS_CSS_CANDIDATES,
+    fs.readFileSync,
+  );
+  const theme = analyzeThemeTokens({
+    v0Css: v0Globals?.css ?? null,
+    projectCss: projectGlobals?.css ?? null,
+    files: customFiles,
+  });
+
+  const existing = [];
+  const missing = [];
+  const fromDesign = [];
+  for (const { name } of imports.uiComponents) {
+    if (installed.has(name)) existing.push(name);
+    else if (providedByDesign.has(name)) fromDesign.push(name);
+    else missing.push(name);
+  }
+
+  return {
+    featureName: manifest.featureName,
+    sourceUrl: manifest.sourceUrl,
+    chatId: manifest.chatId,
+    versionId: manifest.versionId,
+    customFiles: customFiles.map((f) => f.name),
+    unreadableFiles: unreadable,
+    imports,
+    shadcn: {
+      componentsJson: config.found,
+      uiAlias: config.uiAlias,
+      existing,
+      missing,
+      providedByDesign: fromDesign,
+      addCommand: missing.length > 0 ? `${PACKAGE_RUNNERS[manager]} shadcn@latest add ${missing.join(" ")}` : null,
+    },
+    dependencies: {
+      ...dependencies,
+      installCommand:
+        dependencies.install.length > 0
+          ? `${PACKAGE_ADDERS[manager]} ${dependencies.install.map(quoteShellArg).join(" ")}`
+          : null,
+    },
+    theme: {
+      v0Css: v0Globals?.path ?? null,
+      projectCss: projectGlobals?.path ?? null,
+      ...theme,
+    },
+  };
+}
+
+/**
+ * Formats the summary printed by the `brief` subcommand.
+ *
+ * @param {object} brief
+ * @param {string} briefPath
+ * @returns {string}
+ */
+export function formatBriefSummary(brief, briefPath) {
+  const { shadcn, imports } = brief;
+  const lines = [
+    `${brief.featureName}: ${brief.customFiles.length} custom files, ${imports.uiComponents.length} shadcn components, ${imports.packages.length} packages, ${imports.aliases.length} alias imports`,
+    `  shadcn components present: ${shadcn.existing.join(", ") || "none"}`,
+    `  shadcn components missing: ${shadcn.missing.join(", ") || "none"}`,
+  ];
+  if (shadcn.providedByDesign.length > 0) {
+    lines.push(`  shipped by the design: ${shadcn.providedByDesign.join(", ")}`);
+  }
+  if (!shadcn.componentsJson) {
+    lines.push("  components.json not found — run shadcn init before adding components");
+  }
+  if (shadcn.addCommand) {
+    lines.push(`  install: ${shadcn.addCommand}`);
+  }
+  lines.push(...formatDependencySummary(brief.dependencies, brief.dependencies.installCommand));
+  lines.push(...formatThemeSummary(brief.theme));
+  lines.push(`Wrote ${briefPath}`);
+  return lines.join("\n");
+}
@@ -0,0 +1,70 @@
+// Where the prompts are written, in designs/<feature>/
+export const PROMPT_HISTORY_FILE = "prompt-history.md";
+
+/**
+ * Picks the fields the pipeline keeps from a chat detail response. The API has used both
+ * `title` and `name` for the chat title, and reports the demo URL on the latest version.
+ *
+ * @param {object} data - The chat detail response body
+ * @returns {{ title: string | null, createdAt: string | null, updatedAt: string | null,
+ *   demoUrl: string | null, webUrl: string | null,
+ *   messages: Array<{ role: string, content: string, createdAt: string | null }> }}
+ */
+export function normalizeChatMetadata(data) {
+  const messages = (Array.isArray(data?.messages) ? data.messages : [])
+    .filter((m) => typeof m?.content === "string" && m.content.trim() !== "")
+    .map((m) => ({ role: m.role ?? "user", content: m.content, createdAt: m.createdAt ?? null }))
+    .sort((a, b) => new Date(a.createdAt ?? 0).getTime() - new Date(b.createdAt ?? 0).getTime());
+
+  return {
+    title: data?.title ?? data?.name ?? null,
+    createdAt: data?.createdAt ?? null,
+    updatedAt: data?.updatedAt ?? null,
+    demoUrl: data?.latestVersion?.demoUrl ?? data?.demo ?? data?.demoUrl ?? null,
+    webUrl: data?.webUrl ?? data?.url ?? null,
+    messages,
+  };
+}
+
+/**
+ * Turns a chat title into a feature folder name: "Book Advertising Dashboard!" →
+ * "book-advertising-dashboard". Returns "" when nothing usable is left.
+ *
+ * @param {string | null} title
+ * @returns {string}
+ */
+export function featureNameFromTitle(title) {
+  if (typeof title !== "string") return "";
+  return title
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60)
+    .replace(/-+$/, "");
+}
+
+/**
+ * Renders the user prompts of a chat as markdown, oldest first, for prompt-history.md.
+ *
+ * @param {ReturnType<typeof normalizeChatMetadata>} metadata
+ * @param {{ featureName: string, sourceUrl: string, versionId: string }} context
+ * @returns {string | null} null when the chat has no user prompts
+ */
+export function formatPromptHistory(metadata, { featureName, sourceUrl, versionId }) {
+  const prompts = metadata.messages.filter((m) => m.role === "user");
+  if (prompts.length === 0) return null;
+
+  const lines = [`# Prompt history: ${metadata.title ?? featureName}`, ""];
+  lines.push(`- Chat: ${sourceUrl}`);
+  if (metadata.demoUrl) lines.push(`- Demo: ${metadata.demoUrl}`);
+  lines.push(`- Fetched version: ${versionId}`);
+  if (metadata.createdAt) lines.push(`- Created: ${metadata.createdAt}`);
+  if (metadata.updatedAt) lines.push(`- Updated: ${metadata.updatedAt}`);
+
+  prompts.forEach((prompt, i) => {
+    lines.push("", `## Prompt ${i + 1}${prompt.createdAt ? ` — ${prompt.createdAt}` : ""}`, "", prompt.content.trim());
+  });
+  return `${lines.join("\n")}\n`;
+}
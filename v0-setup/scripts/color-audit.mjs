@@ -0,0 +1,252 @@
+import { readFileSync as fsReadFileSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import { InvalidInputError } from "./errors.mjs";
+
+export const DEFAULT_COLOR_MAPPING_PATH = fileURLToPath(new URL("../references/color-mapping.json", import.meta.url));
+
+const COLOR_PREFIX =
+  "bg|text|border(?:-[trblxyse])?|ring(?:-offset)?|outline|fill|stroke|from|via|to|divide|placeholder|accent|caret|decoration|shadow";
+const PALETTE =
+  "slate|gray|zinc|neutral|stone|red|orange|amber|yellow|lime|green|emerald|teal|cyan|sky|blue|indigo|violet|purple|fuchsia|pink|rose";
+const SPACING_PREFIX =
+  "p|px|py|pt|pr|pb|pl|ps|pe|m|mx|my|mt|mr|mb|ml|ms|me|gap|gap-x|gap-y|space-x|space-y|inset|inset-x|inset-y|top|right|bottom|left|start|end|w|h|size|min-w|min-h|max-w|max-h";
+const OPACITY = "(\\/[\\w.%\\[\\]]+)?";
+
+// Each rule matches a utility with its variants and important marker already stripped
+const CLASS_RULES = [
+  { kind: "palette", pattern: new RegExp(`^((?:${COLOR_PREFIX})-(?:(?:${PALETTE})-\\d{2,3}|white|black))${OPACITY}$`) },
+  {
+    kind: "arbitrary-color",
+    pattern: new RegExp(
+      `^((?:${COLOR_PREFIX})-\\[(?:#[0-9a-fA-F]{3,8}|(?:rgba?|hsla?|oklch|oklab|lab|lch)\\(.+\\))\\])${OPACITY}$`,
+    ),
+  },
+  { kind: "arbitrary-spacing", pattern: new RegExp(`^(-?(?:${SPACING_PREFIX})-\\[-?\\d*\\.?\\d+(?:px|rem|em)\\])$`) },
+];
+
+// Where class strings appear: className="…", className={…}, and class-merging helpers
+const CLASS_CONTEXT = /\bclassName\s*=\s*|\b(?:cn|clsx|cva|twMerge|twJoin)\s*\(/g;
+
+/**
+ * Loads the table mapping hard-coded utilities to semantic ones. A custom mapping file is
+ * merged over the defaults in references/color-mapping.json; a null value removes a default.
+ *
+ * @param {string | null} [customPath]
+ * @param {(path: string, encoding: string) => string} [readFileSync]
+ * @returns {Record<string, string>}
+ */
+export function loadColorMapping(customPath = null, readFileSync = fsReadFileSync) {
+  const mapping = JSON.parse(readFileSync(DEFAULT_COLOR_MAPPING_PATH, "utf8"));
+  if (customPath) {
+    let raw;
+    try {
+      raw = readFileSync(customPath, "utf8");
+    } catch (err) {
+      if (err?.code === "ENOENT") throw new InvalidInputError(`Color mapping not found: ${customPath}`);
+      throw err;
+    }
+    let custom;
+    try {
+      custom = JSON.parse(raw);
+    } catch {
+      throw new InvalidInputError(`${customPath} is not valid JSON`);
+    }
+    for (const [key, value] of Object.entries(custom)) {
+      if (value === null) delete mapping[key];
+      else mapping[key] = value;
+    }
+  }
+  return Object.fromEntries(Object.entries(mapping).filter(([key]) => !key.startsWith("$")));
+}
+
+// Index just past the string literal opening at `start`
+function skipString(source, start) {
+  const quote = source[start];
+  let i = start + 1;
+  while (i < source.length && source[i] !== quote) {
+    if (source[i] === "\\") i++;
+    i++;
+  }
+  return i + 1;
+}
+
+// Index of the bracket closing the one at `start`, skipping string literals
+function findClosing(source, start) {
+  const open = source[start];
+  const close = open === "{" ? "}" : ")";
+  let depth = 0;
+  let i = start;
+  while (i < source.length) {
+    const char = source[i];
+    if (char === '"' || char === "'" || char === "`") {
+      i = skipString(source, i);
+      continue;
+    }
+    if (char === open) depth++;
+    else if (char === close && --depth === 0) return i;
+    i++;
+  }
+  return source.length;
+}
+
+/**
+ * Finds the string literals holding Tailwind classes: className attribute values and the
+ * string arguments of cn(), clsx(), cva(), twMerge() and twJoin().
+ *
+ * @param {string} source
+ * @returns {Array<{ start: number, end: number }>} Offsets of each literal's contents
+ */
+export function findClassStrings(source) {
+  const literals = new Map();
+  for (const match of source.matchAll(CLASS_CONTEXT)) {
+    let start = match.index + match[0].length;
+    let end;
+    if (match[0].endsWith("(")) {
+      start--;
+      end = findClosing(source, start);
+    } else if (source[start] === "{") {
+      end = findClosing(source, start);
+    } else if (source[start] === '"' || source[start] === "'") {
+      end = skipString(source, start);
+    } else {
+      continue;
+    }
+
+    let i = start;
+    while (i < end) {
+      const char = source[i];
+      if (char === '"' || char === "'" || char === "`") {
+        const close = skipString(source, i);
+        literals.set(i + 1, { start: i + 1, end: close - 1 });
+        i = close;
+      } else {
+        i++;
+      }
+    }
+  }
+  return [...literals.values()].sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Splits a class into its variant prefix ("hover:", "md:dark:", "[&>svg]:"), the bare
+ * utility, and the important marker around it ("!bg-x" in Tailwind v3, "bg-x!" in v4).
+ *
+ * @param {string} className
+ * @returns {{ variants: string, leading: string, utility: string, trailing: string }}
+ */
+export function splitClass(className) {
+  let depth = 0;
+  let split = -1;
+  for (let i = 0; i < className.length; i++) {
+    if (className[i] === "[") depth++;
+    else if (className[i] === "]") depth--;
+    else if (className[i] === ":" && depth === 0) split = i;
+  }
+  const rest = className.slice(split + 1);
+  const leading = rest.startsWith("!") ? "!" : "";
+  const trailing = !leading && rest.endsWith("!") ? "!" : "";
+  return {
+    variants: className.slice(0, split + 1),
+    leading,
+    utility: rest.slice(leading.length, rest.length - trailing.length),
+    trailing,
+  };
+}
+
+/**
+ * Classifies one class. Returns null for classes that don't hard-code a color or spacing value.
+ *
+ * @param {string} className - e.g. "hover:bg-zinc-900/80"
+ * @param {Record<string, string>} [mapping]
+ * @returns {{ kind: string, utility: string, suggestion: string | null } | null}
+ */
+export function classifyClass(className, mapping = {}) {
+  const { variants, leading, utility, trailing } = splitClass(className);
+  for (const { kind, pattern } of CLASS_RULES) {
+    const match = utility.match(pattern);
+    if (!match) continue;
+    const base = match[1];
+    const replacement = mapping[base] ?? mapping[base.toLowerCase()];
+    const suggestion = replacement ? `${variants}${leading}${replacement}${match[2] ?? ""}${trailing}` : null;
+    return { kind, utility: base, suggestion };
+  }
+  return null;
+}
+
+function lineStarts(source) {
+  const starts = [0];
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === "\n") starts.push(i + 1);
+  }
+  return starts;
+}
+
+/**
+ * Audits one source file for hard-coded palette colors, arbitrary colors, and arbitrary
+ * spacing in its class strings.
+ *
+ * @param {string} source
+ * @param {Record<string, string>} [mapping]
+ * @returns {Array<{ line: number, column: number, start: number, end: number, className: string,
+ *   kind: string, utility: string, suggestion: string | null }>}
+ */
+export function auditSource(source, mapping = {}) {
+  const starts = lineStarts(source);
+  const findings = [];
+  for (const literal of findClassStrings(source)) {
+    const text = source.slice(literal.start, literal.end);
+    for (const match of text.matchAll(/[^\s"'`]+/g)) {
+      if (match[0].includes("${")) continue;
+      const result = classifyClass(match[0], mapping);
+      if (!result) continue;
+      const start = literal.start + match.index;
+      let line = starts.length - 1;
+      while (starts[line] > start) line--;
+      findings.push({
+        line: line + 1,
+        column: start - starts[line] + 1,
+        start,
+        end: start + match[0].length,
+        className: match[0],
+        ...result,
+      });
+    }
+  }
+  return findings;
+}
+
+/**
+ * Rewrites every finding that has a suggested replacement.
+ *
+ * @param {string} source
+ * @param {Array<{ start: number, end: number, suggestion: string | null }>} findings - From auditSource
+ * @returns {{ content: string, fixed: number }}
+ */
+export function applyAuditFixes(source, findings) {
+  const fixable = findings.filter((f) => f.suggestion).sort((a, b) => b.start - a.start);
+  let content = source;
+  for (const finding of fixable) {
+    content = content.slice(0, finding.start) + finding.suggestion + content.slice(finding.end);
+  }
+  return { content, fixed: fixable.length };
+}
+
+/**
+ * Formats the report printed by `audit <feature>`.
+ *
+ * @param {string} featureName
+ * @param {Array<{ file: string, line: number, column: number, className: string, suggestion: string | null }>} findings
+ * @param {{ fixed?: number }} [options]
+ * @returns {string}
+ */
+export function formatAuditReport(featureName, findings, { fixed = 0 } = {}) {
+  const lines = [];
+  for (const f of findings) {
+    const hint = f.suggestion ? ` → ${f.suggestion}` : " (no mapping)";
+    lines.push(`  ${f.file}:${f.line}:${f.column}  ${f.className}${hint}`);
+  }
+  const fixable = findings.filter((f) => f.suggestion).length;
+  const summary = [`${featureName}: ${findings.length} hard-coded classes, ${fixable} with a semantic replacement`];
+  if (fixed > 0) summary.push(`fixed ${fixed}`);
+  return [summary.join(", "), ...lines].join("\n");
+}
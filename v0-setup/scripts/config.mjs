@@ -0,0 +1,160 @@
+import { dirname, isAbsolute, join, resolve } from "node:path";
+import { InvalidInputError } from "./errors.mjs";
+
+export const DEFAULT_V0_API_BASE = "https://api.v0.dev/v1";
+export const DEFAULT_API_KEY_ENV = "V0_API_KEY";
+export const DEFAULT_DESIGNS_DIR = "designs";
+
+// Searched for in this order in each directory from the working directory up to the root
+export const CONFIG_FILE_NAMES = [".v0setup.json", "ateam.config.json"];
+
+// Environment variables that override the config file (CLI flags override both)
+export const CONFIG_ENV_VARS = {
+  apiBaseUrl: "V0_API_BASE_URL",
+  apiKeyEnv: "V0_SETUP_API_KEY_ENV",
+  outputDir: "V0_SETUP_OUTPUT_DIR",
+  designsDir: "V0_SETUP_DESIGNS_DIR",
+};
+
+const STRING_KEYS = ["apiBaseUrl", "apiKeyEnv", "outputDir", "designsDir"];
+const LIST_KEYS = ["include", "exclude"];
+
+function validateConfig(config, path) {
+  if (config === null || typeof config !== "object" || Array.isArray(config)) {
+    throw new InvalidInputError(`${path}: v0 config must be an object`);
+  }
+  for (const [key, value] of Object.entries(config)) {
+    if (STRING_KEYS.includes(key)) {
+      if (typeof value !== "string" || value === "")
+        throw new InvalidInputError(`${path}: "${key}" must be a non-empty string`);
+    } else if (LIST_KEYS.includes(key)) {
+      if (!Array.isArray(value) || value.some((v) => typeof v !== "string")) {
+        throw new InvalidInputError(`${path}: "${key}" must be an array of glob strings`);
+      }
+    } else if (key === "placeholderRules") {
+      if (typeof value !== "string" && !Array.isArray(value)) {
+        throw new InvalidInputError(`${path}: "placeholderRules" must be a rules array or the path of a rules file`);
+      }
+    } else {
+      throw new InvalidInputError(`${path}: unknown v0 config key "${key}"`);
+    }
+  }
+  assertSafeDesignsDir(config.designsDir, path);
+}
+
+/**
+ * The designs folder is joined onto the output directory, so it must stay inside it.
+ *
+ * @param {string | undefined} designsDir
+ * @param {string} source - Where the value came from, for the error message
+ */
+export function assertSafeDesignsDir(designsDir, source) {
+  if (designsDir == null) return;
+  if (isAbsolute(designsDir) || designsDir.split(/[/\\]/).includes("..")) {
+    throw new InvalidInputError(
+      `${source}: designs folder "${designsDir}" must be a relative path inside the output directory`,
+    );
+  }
+}
+
+/**
+ * Finds the nearest project config file, walking up from `startDir`.
+ *
+ * @param {string} startDir
+ * @param {(path: string) => boolean} existsSync
+ * @returns {string | null}
+ */
+export function findConfigFile(startDir, existsSync) {
+  let dir = resolve(startDir);
+  while (true) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const candidate = join(dir, name);
+      if (existsSync(candidate)) return candidate;
+    }
+    const parent = dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+/**
+ * Loads the v0 section of the project config: the whole of a .v0setup.json, or the `v0` key
+ * of an ateam.config.json (which may hold no v0 section at all). Relative `outputDir` and
+ * `placeholderRules` paths are resolved against the config file's directory, so every
+ * package in a monorepo gets the same result wherever the script is run from.
+ *
+ * @param {string | null} configPath - An explicit --config path; searched for when null
+ * @param {string} cwd
+ * @param {{ existsSync: (path: string) => boolean, readFileSync: (path: string, encoding: string) => string }} fs
+ * @returns {{ path: string | null, config: object }}
+ */
+export function loadProjectConfig(configPath, cwd, { existsSync, readFileSync }) {
+  const path = configPath ? resolve(cwd, configPath) : findConfigFile(cwd, existsSync);
+  if (!path) return { path: null, config: {} };
+
+  let raw;
+  try {
+    raw = readFileSync(path, "utf8");
+  } catch (err) {
+    if (err?.code === "ENOENT") throw new InvalidInputError(`Config file not found: ${path}`);
+    throw err;
+  }
+  let parsed;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new InvalidInputError(`${path} is not valid JSON`);
+  }
+
+  const config = path.endsWith(".v0setup.json") ? parsed : (parsed?.v0 ?? {});
+  validateConfig(config, path);
+
+  const configDir = dirname(path);
+  const resolved = { ...config };
+  if (config.outputDir) resolved.outputDir = resolve(configDir, config.outputDir);
+  if (typeof config.placeholderRules === "string") {
+    resolved.placeholderRules = resolve(configDir, config.placeholderRules);
+  }
+  return { path, config: resolved };
+}
+
+/**
+ * Resolves the settings a run uses: CLI flags, then environment variables, then the project
+ * config, then the built-in defaults. Include/exclude patterns from the CLI replace the
+ * configured ones rather than adding to them. A --placeholder-rules path or a configured
+ * rules file becomes `placeholderRulesPath`; rules written inline in the config become
+ * `configuredPlaceholderRules`.
+ *
+ * @param {object} cli - parseArgs output
+ * @param {Record<string, string | undefined>} env
+ * @param {object} config - loadProjectConfig().config
+ * @param {string} cwd
+ * @returns {{ apiBaseUrl: string, apiKeyEnv: string, outputDir: string, designsDir: string,
+ *   include: string[], exclude: string[], placeholderRulesPath: string | null,
+ *   configuredPlaceholderRules: Array<object> | null }}
+ */
+export function resolveSettings(cli, env, config, cwd) {
+  const pick = (key, fallback) => cli[key] || env[CONFIG_ENV_VARS[key]] || config[key] || fallback;
+
+  const designsDir = pick("designsDir", DEFAULT_DESIGNS_DIR);
+  assertSafeDesignsDir(cli.designsDir || env[CONFIG_ENV_VARS.designsDir], "designs folder");
+
+  let placeholderRulesPath = cli.placeholderRules ?? null;
+  let configuredPlaceholderRules = null;
+  if (!placeholderRulesPath && typeof config.placeholderRules === "string") {
+    placeholderRulesPath = config.placeholderRules;
+  } else if (!placeholderRulesPath && Array.isArray(config.placeholderRules)) {
+    configuredPlaceholderRules = config.placeholderRules;
+  }
+
+  return {
+    apiBaseUrl: pick("apiBaseUrl", DEFAULT_V0_API_BASE).replace(/\/+$/, ""),
+    apiKeyEnv: pick("apiKeyEnv", DEFAULT_API_KEY_ENV),
+    outputDir: pick("outputDir", cwd),
+    designsDir,
+    include: cli.include?.length > 0 ? cli.include : (config.include ?? []),
+    exclude: cli.exclude?.length > 0 ? cli.exclude : (config.exclude ?? []),
+    placeholderRulesPath,
+    configuredPlaceholderRules,
+  };
+}
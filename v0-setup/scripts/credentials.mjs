@@ -0,0 +1,116 @@
+import { join, resolve } from "node:path";
+
+// Claude Code's per-project settings; the key can sit under "env" without being exported
+export const CLAUDE_SETTINGS_FILE = join(".claude", "settings.local.json");
+export const DOTENV_FILE = ".env";
+
+/**
+ * Parses a .env file: `KEY=value` lines, optionally prefixed with `export`, with single- or
+ * double-quoted values. Blank lines, `#` comments, and ` #` comments after unquoted values
+ * are ignored. Escapes other than `\n` in double quotes are left as written.
+ *
+ * @param {string} content
+ * @returns {Record<string, string>}
+ */
+export function parseDotenv(content) {
+  const vars = {};
+  for (const line of content.split(/\r?\n/)) {
+    const match = line.match(/^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*)$/);
+    if (!match) continue;
+    const [, key, rawValue] = match;
+    let value = rawValue.trim();
+    const quote = value[0];
+    if ((quote === '"' || quote === "'") && value.indexOf(quote, 1) !== -1) {
+      value = value.slice(1, value.indexOf(quote, 1));
+      if (quote === '"') value = value.replace(/\\n/g, "\n");
+    } else {
+      value = value.replace(/\s+#.*$/, "");
+    }
+    vars[key] = value;
+  }
+  return vars;
+}
+
+function readOptional(path, readFileSync) {
+  try {
+    return readFileSync(path, "utf8");
+  } catch (err) {
+    if (err?.code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+function present(value) {
+  return typeof value === "string" && value.trim() !== "";
+}
+
+function readSettingsKey(content, envName) {
+  let settings;
+  try {
+    settings = JSON.parse(content);
+  } catch {
+    return { value: null, status: "not valid JSON" };
+  }
+  return { value: settings?.env?.[envName], status: `no env.${envName}` };
+}
+
+function readDotenvKey(content, envName) {
+  return { value: parseDotenv(content)[envName], status: `no ${envName}=` };
+}
+
+/**
+ * Finds the v0 API key, checking in order: the shell environment, then
+ * .claude/settings.local.json (its "env" object) and then .env in each project directory.
+ * The result names the source it came from, never the key, so it is safe to print; when no
+ * source has the key, `searched` lists every place looked at and why it didn't count.
+ *
+ * @param {string} envName - The variable holding the key, e.g. "V0_API_KEY"
+ * @param {object} context
+ * @param {Record<string, string | undefined>} context.env
+ * @param {string[]} context.projectDirs - Checked in order; duplicates are skipped
+ * @param {{ readFileSync: (path: string, encoding: string) => string }} fs
+ * @returns {{ apiKey: string | null, source: string | null, searched: Array<{ source: string, status: string }> }}
+ */
+export function resolveApiKey(envName, { env, projectDirs }, { readFileSync }) {
+  const searched = [];
+  const found = (apiKey, source) => ({ apiKey: apiKey.trim(), source, searched });
+
+  const shellSource = `shell environment ($${envName})`;
+  if (present(env[envName])) return found(env[envName], shellSource);
+  searched.push({ source: shellSource, status: "not set" });
+
+  const dirs = [...new Set(projectDirs.map((dir) => resolve(dir)))];
+  for (const [file, readKey] of [
+    [CLAUDE_SETTINGS_FILE, readSettingsKey],
+    [DOTENV_FILE, readDotenvKey],
+  ]) {
+    for (const dir of dirs) {
+      const path = join(dir, file);
+      const content = readOptional(path, readFileSync);
+      if (content === null) {
+        searched.push({ source: path, status: "file not found" });
+        continue;
+      }
+      const { value, status } = readKey(content, envName);
+      if (present(value)) return found(value, path);
+      searched.push({ source: path, status });
+    }
+  }
+  return { apiKey: null, source: null, searched };
+}
+
+/**
+ * Formats the diagnostic printed when no source has the API key.
+ *
+ * @param {string} envName
+ * @param {Array<{ source: string, status: string }>} searched - From resolveApiKey
+ * @returns {string}
+ */
+export function formatMissingApiKey(envName, searched) {
+  return [
+    `No ${envName} found. Looked in:`,
+    ...searched.map(({ source, status }) => `  - ${source}: ${status}`),
+    `Export ${envName} from the shell, set it under "env" in ${CLAUDE_SETTINGS_FILE}, or add it to ${DOTENV_FILE}.`,
+    "Get your API key from: https://v0.dev/chat/settings/keys",
+  ].join("\n");
+}
@@ -0,0 +1,110 @@
+const DEPENDENCY_FIELDS = ["dependencies", "devDependencies", "peerDependencies", "optionalDependencies"];
+
+/**
+ * Collects every declared dependency of a package.json into one name → range map.
+ * Earlier fields win, so a runtime dependency's range is preferred over a dev one.
+ *
+ * @param {object | null} packageJson
+ * @returns {Map<string, string>}
+ */
+export function collectDependencies(packageJson) {
+  const deps = new Map();
+  for (const field of DEPENDENCY_FIELDS) {
+    for (const [name, range] of Object.entries(packageJson?.[field] ?? {})) {
+      if (!deps.has(name)) deps.set(name, String(range));
+    }
+  }
+  return deps;
+}
+
+/**
+ * Returns the release line a version range targets: the major version, or "0.<minor>" for
+ * 0.x ranges, where minor bumps are breaking. Returns null for ranges that don't pin a
+ * version ("latest", "*", git URLs, workspace: and file: protocols).
+ *
+ * @param {string} range - e.g. "^19.0.0", "~4.1", "18.x", ">=18 <20", "npm:react@18"
+ * @returns {string | null}
+ */
+export function releaseLineOf(range) {
+  if (typeof range !== "string") return null;
+  const spec = range.startsWith("npm:") ? range.slice(range.lastIndexOf("@") + 1) : range;
+  if (/^(workspace|file|link|git|github|https?):/.test(spec) || spec.includes("/")) return null;
+  const match = spec.match(/(\d+)(?:\.(\d+|x|\*))?/);
+  if (!match) return null;
+  const [, major, minor] = match;
+  if (major === "0" && minor !== undefined && /^\d+$/.test(minor)) return `0.${minor}`;
+  return major;
+}
+
+/**
+ * Compares the dependencies declared by the v0 design's package.json with the host project's,
+ * and checks them against the packages the design's custom files actually import.
+ *
+ * - `missing`: declared by v0 but not by the project
+ * - `conflicts`: declared by both with a different release line (React 18 vs 19, Tailwind v3 vs v4)
+ * - `undeclared`: imported by custom files but declared by neither
+ * - `install`: what to add to the project — missing packages the custom files import,
+ *   pinned to v0's range, plus undeclared imports at their latest version
+ *
+ * @param {object} params
+ * @param {object | null} params.v0Package - v0-source/package.json, or null when it wasn't written
+ * @param {object | null} params.projectPackage - The host project's package.json, or null
+ * @param {Array<{ name: string, importedBy: string[] }>} [params.importedPackages] - From buildImportInventory
+ * @returns {{ missing: Array<{ name: string, v0: string, importedBy: string[] }>,
+ *   conflicts: Array<{ name: string, v0: string, project: string, importedBy: string[] }>,
+ *   undeclared: Array<{ name: string, importedBy: string[] }>, install: string[] }}
+ */
+export function diffDependencies({ v0Package, projectPackage, importedPackages = [] }) {
+  const v0Deps = collectDependencies(v0Package);
+  const projectDeps = collectDependencies(projectPackage);
+  const importers = new Map(importedPackages.map((pkg) => [pkg.name, pkg.importedBy]));
+
+  const missing = [];
+  const conflicts = [];
+  for (const [name, v0Range] of [...v0Deps].sort(([a], [b]) => a.localeCompare(b))) {
+    const importedBy = importers.get(name) ?? [];
+    const projectRange = projectDeps.get(name);
+    if (projectRange === undefined) {
+      missing.push({ name, v0: v0Range, importedBy });
+      continue;
+    }
+    const v0Line = releaseLineOf(v0Range);
+    const projectLine = releaseLineOf(projectRange);
+    if (v0Line !== null && projectLine !== null && v0Line !== projectLine) {
+      conflicts.push({ name, v0: v0Range, project: projectRange, importedBy });
+    }
+  }
+
+  const undeclared = importedPackages
+    .filter((pkg) => !v0Deps.has(pkg.name) && !projectDeps.has(pkg.name))
+    .map((pkg) => ({ name: pkg.name, importedBy: pkg.importedBy }));
+
+  const install = [
+    ...missing
+      .filter((dep) => dep.importedBy.length > 0)
+      .map((dep) => (releaseLineOf(dep.v0) === null ? dep.name : `${dep.name}@${dep.v0}`)),
+    ...undeclared.map((dep) => dep.name),
+  ];
+
+  return { missing, conflicts, undeclared, install };
+}
+
+/**
+ * Formats the dependency lines of the `brief` summary.
+ *
+ * @param {{ conflicts: Array<{ name: string, v0: string, project: string }>, install: string[] }} dependencies
+ * @param {string | null} installCommand
+ * @returns {string[]}
+ */
+export function formatDependencySummary(dependencies, installCommand) {
+  const lines = [];
+  for (const { name, v0, project } of dependencies.conflicts) {
+    lines.push(`  version conflict: ${name} — v0 uses ${v0}, project has ${project}`);
+  }
+  lines.push(
+    installCommand
+      ? `  install packages: ${installCommand}`
+      : `  packages to install: ${dependencies.install.join(", ") || "none"}`,
+  );
+  return lines;
+}
@@ -0,0 +1,195 @@
+/**
+ * Exit codes by failure kind. 1 also covers checks that ran and failed (verify drift,
+ * audit findings, sync mismatches, migrate --check), so callers can tell those apart from
+ * the typed failures below.
+ */
+export const EXIT_CODES = {
+  failure: 1,
+  "invalid-input": 2,
+  auth: 3,
+  "not-found": 4,
+  "rate-limited": 5,
+  "zip-safety": 6,
+  "placeholder-only": 7,
+  api: 8,
+  "local-edits": 9,
+};
+
+/**
+ * Base class for failures with a stable kind and exit code. `details` carries
+ * machine-readable context (an HTTP status, the offending entry) for --json output.
+ */
+export class V0SetupError extends Error {
+  /**
+   * @param {string} message
+   * @param {{ kind?: string, details?: object, cause?: unknown }} [options]
+   */
+  constructor(message, { kind = "failure", details, cause } = {}) {
+    super(message, cause === undefined ? undefined : { cause });
+    this.name = "V0SetupError";
+    this.kind = kind;
+    this.exitCode = EXIT_CODES[kind] ?? EXIT_CODES.failure;
+    this.details = details ?? {};
+  }
+}
+
+// Bad flags, selectors, feature names, or config — fix the invocation and retry
+export class InvalidInputError extends V0SetupError {
+  constructor(message, options = {}) {
+    super(message, { ...options, kind: "invalid-input" });
+    this.name = "InvalidInputError";
+  }
+}
+
+// Missing, invalid, or unauthorized API key (no key found, 401, 403)
+export class AuthError extends V0SetupError {
+  constructor(message, options = {}) {
+    super(message, { ...options, kind: "auth" });
+    this.name = "AuthError";
+  }
+}
+
+// A chat, version, or local design that does not exist
+export class NotFoundError extends V0SetupError {
+  constructor(message, options = {}) {
+    super(message, { ...options, kind: "not-found" });
+    this.name = "NotFoundError";
+  }
+}
+
+// 429 still returned after the retries ran out
+export class RateLimitError extends V0SetupError {
+  constructor(message, options = {}) {
+    super(message, { ...options, kind: "rate-limited" });
+    this.name = "RateLimitError";
+  }
+}
+
+// A zip entry that escapes the target directory or an archive over the extraction limits
+export class ZipSafetyError extends V0SetupError {
+  constructor(message, options = {}) {
+    super(message, { ...options, kind: "zip-safety" });
+    this.name = "ZipSafetyError";
+  }
+}
+
+// The fetch finished, but every custom file is a placeholder — nothing usable to adapt
+export class PlaceholderOnlyError extends V0SetupError {
+  constructor(message, options = {}) {
+    super(message, { ...options, kind: "placeholder-only" });
+    this.name = "PlaceholderOnlyError";
+  }
+}
+
+// v0-source has files edited since the last fetch; the fetch refused to overwrite them
+export class LocalEditsError extends V0SetupError {
+  constructor(message, options = {}) {
+    super(message, { ...options, kind: "local-edits" });
+    this.name = "LocalEditsError";
+  }
+}
+
+/**
+ * Builds the typed error for a failed v0 API response: 401/403 → AuthError, 404 →
+ * NotFoundError, 429 → RateLimitError, anything else an "api" V0SetupError.
+ *
+ * @param {number} status
+ * @param {string} message
+ * @returns {V0SetupError}
+ */
+export function httpError(status, message) {
+  const options = { details: { status } };
+  if (status === 401 || status === 403) return new AuthError(message, options);
+  if (status === 404) return new NotFoundError(message, options);
+  if (status === 429) return new RateLimitError(message, options);
+  return new V0SetupError(message, { ...options, kind: "api" });
+}
+
+/**
+ * Exit code for an error thrown out of the CLI; untyped errors exit 1.
+ *
+ * @param {unknown} err
+ * @returns {number}
+ */
+export function exitCodeFor(err) {
+  return err instanceof V0SetupError ? err.exitCode : EXIT_CODES.failure;
+}
+
+const REDACTED = "[REDACTED]";
+
+// Bearer tokens and KEY=value / "apiKey": "value" pairs whose name looks secret. Bare tokens are
+// left alone: chat slugs and version ids look just as random and are what a failure needs to show.
+const SECRET_PATTERNS = [
+  [/\b(Bearer\s+)[^\s"',;]+/gi, `$1${REDACTED}`],
+  [/(["']?\b[\w-]*(?:api[_-]?key|token|secret|password)["']?\s*[:=]\s*["']?)[^\s"',;}]+/gi, `$1${REDACTED}`],
+];
+
+/**
+ * Creates a redactor for output: it strips the secrets registered with addSecret (the
+ * resolved API key) wherever they appear, plus bearer tokens and secret-named assignments.
+ *
+ * @returns {{ addSecret: (secret: string | null | undefined) => void, redact: (text: unknown) => string }}
+ */
+export function createRedactor() {
+  const secrets = new Set();
+  return {
+    addSecret(secret) {
+      if (typeof secret === "string" && secret.trim().length >= 8) secrets.add(secret.trim());
+    },
+    redact(text) {
+      let result = String(text);
+      for (const secret of secrets) result = result.split(secret).join(REDACTED);
+      for (const [pattern, replacement] of SECRET_PATTERNS) result = result.replace(pattern, replacement);
+      return result;
+    },
+  };
+}
+
+/**
+ * Wraps a console so everything logged passes through the redactor.
+ *
+ * @param {{ log: Function, error: Function, warn: Function }} target
+ * @param {(text: unknown) => string} redact
+ * @returns {{ log: Function, error: Function, warn: Function }}
+ */
+export function createRedactingConsole(target, redact) {
+  const wrap =
+    (method) =>
+    (...args) =>
+      method.call(target, ...args.map((arg) => redact(arg)));
+  return { log: wrap(target.log), error: wrap(target.error), warn: wrap(target.warn) };
+}
+
+/**
+ * Wraps a writable stream, such as stdout for the progress line, so every write passes
+ * through the redactor.
+ *
+ * @param {{ write: (text: string) => unknown }} target
+ * @param {(text: unknown) => string} redact
+ * @returns {{ write: (text: string) => unknown }}
+ */
+export function createRedactingStream(target, redact) {
+  return { write: (text) => target.write(redact(text)) };
+}
+
+/**
+ * Formats a fatal error for the CLI: "Fatal error: <message>", or with --json a single line
+ * `{"error":{"kind","exitCode","message","details"}}` the skill's agent can branch on.
+ *
+ * @param {unknown} err
+ * @param {{ json?: boolean }} [options]
+ * @returns {string}
+ */
+export function formatFatalError(err, { json = false } = {}) {
+  const message = err instanceof Error ? err.message : String(err);
+  if (!json) return `Fatal error: ${message}`;
+  const typed = err instanceof V0SetupError;
+  return JSON.stringify({
+    error: {
+      kind: typed ? err.kind : "failure",
+      exitCode: exitCodeFor(err),
+      message,
+      details: typed ? err.details : {},
+    },
+  });
+}
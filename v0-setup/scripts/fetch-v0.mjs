@@ -5,35 +5,188 @@
  *
  * Usage:
  *   node <skill-path>/scripts/fetch-v0.mjs <v0-url-or-chat-id> <feature-name> [--output-dir <path>]
+ *   node <skill-path>/scripts/fetch-v0.mjs cache prune [--max-size <mb>] [--max-age <days>]
+ *   node <skill-path>/scripts/fetch-v0.mjs migrate [--check] [--output-dir <path>]
+ *   node <skill-path>/scripts/fetch-v0.mjs verify <feature-name> [--output-dir <path>]
+ *   node <skill-path>/scripts/fetch-v0.mjs sync [feature-name...] [--force] [--output-dir <path>]
+ *   node <skill-path>/scripts/fetch-v0.mjs brief <feature-name> [--output-dir <path>]
+ *   node <skill-path>/scripts/fetch-v0.mjs audit <feature-name> [--fix] [--fix-dir <path>] [--mapping <path>] [--output-dir <path>]
  *
  * Requirements:
- *   - V0_API_KEY environment variable (get from v0.dev/chat/settings/keys)
+ *   - V0_API_KEY (get from v0.dev/chat/settings/keys), or the variable named by apiKeyEnv in
+ *     the project config, set in the shell, under "env" in .claude/settings.local.json, or in
+ *     .env — the project files are checked in the working directory, then the output directory
+ *
+ * Configuration:
+ *   Project defaults are read from the nearest .v0setup.json, or the "v0" section of the nearest
+ *   ateam.config.json, walking up from the working directory (see config.mjs). Precedence:
+ *   CLI flags, then V0_API_BASE_URL / V0_SETUP_API_KEY_ENV / V0_SETUP_OUTPUT_DIR /
+ *   V0_SETUP_DESIGNS_DIR, then the config file, then the built-in defaults.
  *
  * Options:
  *   --output-dir <path>  Base directory for designs/<feature-name>/
- *                         Defaults to process.cwd() if not provided
+ *                         Defaults to the configured outputDir, else process.cwd()
+ *   --designs-dir <name> Folder under the output directory that holds the designs (default: designs)
+ *   --api-base-url <url> v0 Platform API base URL (default: https://api.v0.dev/v1)
+ *   --config <path>      Project config file to use instead of searching for one
+ *   --version <selector> Version to fetch: an id (or unique prefix), "#N" as printed by
+ *                         --list-versions, latest, latest-completed, before:<date>, or ^ for the
+ *                         version before the one in the existing manifest
+ *   --details            With --list-versions, show each version's custom file count, the files
+ *                         changed since the next older version, and placeholder hits, read from
+ *                         the version-detail endpoint (no zips are downloaded)
+ *   --diff <a> <b>       Print a unified diff between two versions of the chat (nothing is written)
+ *                         Both sides accept the same selectors as --version
+ *   --sync               Sync v0-source against the previous manifest: write only added or
+ *                         changed files, delete files the new version dropped, print a report.
+ *                         Refuses to run if tracked files were edited locally, unless --force
+ *   --force              Overwrite files edited in v0-source since the last fetch (every fetch,
+ *                         --sync, and sync refuse to otherwise)
+ *   --include <glob>     Only write matching files (repeatable; "*.css" matches in any directory)
+ *   --exclude <glob>     Skip matching files (repeatable)
+ *   --custom-only        Only write files the v0 API reports as custom (not default scaffold)
+ *                         Skipped files are still listed in the manifest with written: false
+ *   --auto-fallback [n]  When the selected version has placeholder files, stage up to n older
+ *                         completed versions (default 3) in turn and promote the first clean one
+ *                         to v0-source; rejected versions are recorded in the manifest
+ *   --placeholder-rules <path>  JSON file of extra or overridden placeholder rules
+ *                         (default: <output-dir>/designs/placeholder-rules.json when present)
+ *   --cache-dir <path>   Zip cache location (default: $V0_SETUP_CACHE_DIR, else ~/.cache/v0-setup)
+ *   --no-cache           Always download, never read or fill the zip cache
+ *   --max-attempts <n>   Attempts per API request; 429/5xx and network errors are retried
+ *                         with exponential backoff and Retry-After (default 4)
+ *   --json               On failure, print the error as a single JSON line on stderr:
+ *                         {"error":{"kind","exitCode","message","details"}}
+ *
+ * Exit codes (see errors.mjs): 0 success; 1 unexpected error or a failed check (verify drift,
+ * audit findings, sync mismatch, migrate --check); 2 invalid input; 3 auth (no key, 401/403);
+ * 4 not found; 5 rate limited; 6 zip safety violation; 7 placeholder-only result; 8 other API error;
+ * 9 v0-source has local edits the fetch refused to overwrite.
+ * All output passes through a redactor that strips the API key, bearer tokens, and key assignments.
  *
  * Output:
  *   - Creates <output-dir>/designs/<feature-name>/ directory
  *   - Writes all v0 source files into it
- *   - Generates a manifest.json listing all files pulled
+ *   - Generates a manifest.json listing all files pulled, with the chat's title and demo URL
+ *   - Writes the chat's prompts to <output-dir>/designs/<feature-name>/prompt-history.md
+ *   - Pins the chat, version, and file hashes in <output-dir>/designs/designs.lock.json;
+ *     `sync` re-creates every pinned v0-source from it
  */
 
-import { mkdirSync, writeFileSync } from "node:fs";
-import { join } from "node:path";
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, rmSync, writeFileSync } from "node:fs";
+import { dirname, join, relative } from "node:path";
+import { buildAdaptationBrief, formatBriefSummary } from "./adaptation-brief.mjs";
+import {
+  featureNameFromTitle,
+  formatPromptHistory,
+  normalizeChatMetadata,
+  PROMPT_HISTORY_FILE,
+} from "./chat-metadata.mjs";
+import { applyAuditFixes, auditSource, formatAuditReport, loadColorMapping } from "./color-audit.mjs";
+import { DEFAULT_DESIGNS_DIR, loadProjectConfig, resolveSettings } from "./config.mjs";
+import { formatMissingApiKey, resolveApiKey } from "./credentials.mjs";
+import {
+  AuthError,
+  createRedactingConsole,
+  createRedactingStream,
+  createRedactor,
+  EXIT_CODES,
+  exitCodeFor,
+  formatFatalError,
+  InvalidInputError,
+  LocalEditsError,
+  NotFoundError,
+  PlaceholderOnlyError,
+} from "./errors.mjs";
+import { classifyFiles, validateCustomFiles } from "./file-filter.mjs";
+import { createFileSelector } from "./file-selection.mjs";
+import { isScriptFile } from "./import-inventory.mjs";
+import {
+  buildLockEntry,
+  compareLockedFiles,
+  LOCKFILE_NAME,
+  lockfilePath,
+  readLockfile,
+  writeLockfile,
+} from "./lockfile.mjs";
+import { findDesignManifests, MANIFEST_SCHEMA_VERSION, migrateManifest, validateManifest } from "./manifest.mjs";
+import { createPlaceholderRules, loadPlaceholderRules } from "./placeholder-detection.mjs";
+import { createProgressLine, formatProgress } from "./progress.mjs";
+import { withRetry } from "./retry.mjs";
+import {
+  diffAgainstManifest,
+  formatSyncReport,
+  hasSameContent,
+  readPreviousManifest,
+  removeStaleFiles,
+} from "./source-sync.mjs";
+import { createV0Client } from "./v0-client.mjs";
+import { formatVerifyReport, hasDrifted, verifyDesign } from "./verify.mjs";
+import { buildVersionDetails, formatVersionDetail } from "./version-details.mjs";
+import { formatVersionDiff } from "./version-diff.mjs";
+import { resolveVersionSelector, selectBestVersion } from "./version-list.mjs";
+import { formatBytes, pruneZipCache, resolveCacheDir } from "./zip-cache.mjs";
+import { downloadAndExtract, unzipInMemory } from "./zip-download.mjs";
+
+// Project placeholder rules picked up from <output-dir>/designs/ when --placeholder-rules is not given
+const PLACEHOLDER_RULES_FILE = "placeholder-rules.json";
+
+// How many older versions --auto-fallback tries when no count is given
+const DEFAULT_FALLBACK_STEPS = 3;
+
+// Where --auto-fallback stages candidate versions, inside designs/<feature>/
+const FALLBACK_STAGING_DIR = ".v0-fallback";
+// Where the sync subcommand replays a pinned version before it replaces v0-source
+const SYNC_STAGING_DIR = ".v0-sync";
+
+const SUBCOMMANDS = ["cache", "migrate", "verify", "sync", "brief", "audit"];
+
+function parseNumberFlag(value) {
+  const number = Number(value);
+  return Number.isFinite(number) && number >= 0 ? number : null;
+}
 
 function parseArgs(argv) {
   const args = argv.slice(2);
   let inputArg = null;
   let customName = null;
   let outputDir = null;
+  let designsDir = null;
+  let apiBaseUrl = null;
+  let configPath = null;
   let versionId = null;
   let listVersions = false;
+  let details = false;
+  let sync = false;
+  let force = false;
+  const include = [];
+  const exclude = [];
+  let customOnly = false;
+  let placeholderRules = null;
+  let autoFallback = null;
+  let diffVersions = null;
+  let cacheDir = null;
+  let noCache = false;
+  let maxSizeMb = null;
+  let maxAgeDays = null;
+  let maxAttempts = null;
+  let json = false;
+  let command = null;
+  const commandArgs = [];
 
   for (let i = 0; i < args.length; i++) {
     if (args[i] === "--output-dir" && i + 1 < args.length) {
       outputDir = args[i + 1];
       i++;
+    } else if (args[i] === "--designs-dir" && i + 1 < args.length) {
+      designsDir = args[i + 1];
+      i++;
+    } else if (args[i] === "--api-base-url" && i + 1 < args.length) {
+      apiBaseUrl = args[i + 1];
+      i++;
+    } else if (args[i] === "--config" && i + 1 < args.length) {
+      configPath = args[i + 1];
+      i++;
     } else if (args[i] === "--version") {
       const next = args[i + 1];
       if (next !== undefined && next !== "" && !next.startsWith("--")) {
@@ -42,6 +195,56 @@ function parseArgs(argv) {
       }
     } else if (args[i] === "--list-versions") {
       listVersions = true;
+    } else if (args[i] === "--details") {
+      details = true;
+    } else if (args[i] === "--diff") {
+      diffVersions = [];
+      while (diffVersions.length < 2 && i + 1 < args.length && args[i + 1] !== "" && !args[i + 1].startsWith("--")) {
+        diffVersions.push(args[i + 1]);
+        i++;
+      }
+    } else if (args[i] === "--sync") {
+      sync = true;
+    } else if (args[i] === "--force") {
+      force = true;
+    } else if (args[i] === "--include" && i + 1 < args.length) {
+      include.push(args[i + 1]);
+      i++;
+    } else if (args[i] === "--exclude" && i + 1 < args.length) {
+      exclude.push(args[i + 1]);
+      i++;
+    } else if (args[i] === "--custom-only") {
+      customOnly = true;
+    } else if (args[i] === "--auto-fallback") {
+      autoFallback = DEFAULT_FALLBACK_STEPS;
+      if (/^\d+$/.test(args[i + 1] ?? "") && Number(args[i + 1]) >= 1) {
+        autoFallback = Number(args[i + 1]);
+        i++;
+      }
+    } else if (args[i] === "--placeholder-rules" && i + 1 < args.length) {
+      placeholderRules = args[i + 1];
+      i++;
+    } else if (args[i] === "--cache-dir" && i + 1 < args.length) {
+      cacheDir = args[i + 1];
+      i++;
+    } else if (args[i] === "--no-cache") {
+      noCache = true;
+    } else if (args[i] === "--max-size" && i + 1 < args.length) {
+      maxSizeMb = parseNumberFlag(args[i + 1]);
+      i++;
+    } else if (args[i] === "--max-age" && i + 1 < args.length) {
+      maxAgeDays = parseNumberFlag(args[i + 1]);
+      i++;
+    } else if (args[i] === "--max-attempts" && i + 1 < args.length) {
+      const attempts = parseNumberFlag(args[i + 1]);
+      maxAttempts = attempts != null && attempts >= 1 ? Math.floor(attempts) : null;
+      i++;
+    } else if (args[i] === "--json") {
+      json = true;
+    } else if (!inputArg && !command && SUBCOMMANDS.includes(args[i])) {
+      command = args[i];
+    } else if (command) {
+      commandArgs.push(args[i]);
     } else if (!inputArg) {
       inputArg = args[i];
     } else if (!customName) {
@@ -49,16 +252,46 @@ function parseArgs(argv) {
     }
   }
 
-  return { inputArg, customName, outputDir: outputDir || process.cwd(), versionId, listVersions };
+  return {
+    inputArg,
+    customName,
+    outputDir,
+    designsDir,
+    apiBaseUrl,
+    configPath,
+    versionId,
+    listVersions,
+    details,
+    sync,
+    force,
+    include,
+    exclude,
+    customOnly,
+    placeholderRules,
+    autoFallback,
+    diffVersions,
+    cacheDir,
+    noCache,
+    maxSizeMb,
+    maxAgeDays,
+    maxAttempts,
+    json,
+    command,
+    commandArgs,
+  };
 }
 
 function isHashSegment(segment) {
   return /^[a-zA-Z0-9]{6,}$/.test(segment) && !/^[a-z]+$/.test(segment) && !/^\d+$/.test(segment);
 }
 
-function extractChatId(input) {
+/**
+ * Parse a v0 chat URL or ID into its slug, hash ID, and default feature name. A bare hash
+ * has no name in it; pass the chat title to name the feature after the chat instead.
+ */
+function extractChatId(input, title = null) {
   if (input == null) {
-    throw new Error(`extractChatId: input must be a string, got ${input}`);
+    throw new InvalidInputError(`extractChatId: input must be a string, got ${input}`);
   }
   const trimmed = input.trim();
   if (trimmed === "") {
@@ -68,20 +301,24 @@ function extractChatId(input) {
   const isUrl = /^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed);
   if (isUrl) {
     if (!/^https?:\/\//i.test(trimmed)) {
-      throw new Error(`extractChatId: unsupported URL protocol — only http/https URLs are supported: ${trimmed}`);
+      throw new InvalidInputError(
+        `extractChatId: unsupported URL protocol — only http/https URLs are supported: ${trimmed}`,
+      );
     }
     const v0Match = trimmed.match(/v0\.(?:app|dev)\/chat\/([a-zA-Z0-9_-]+)/);
     if (!v0Match) {
-      throw new Error(`extractChatId: unsupported URL host — only v0.app and v0.dev URLs are supported: ${trimmed}`);
+      throw new InvalidInputError(
+        `extractChatId: unsupported URL host — only v0.app and v0.dev URLs are supported: ${trimmed}`,
+      );
     }
     const slug = v0Match[1];
-    return resolveSlug(slug);
+    return resolveSlug(slug, title);
   }
 
-  return resolveSlug(trimmed);
+  return resolveSlug(trimmed, title);
 }
 
-function resolveSlug(slug) {
+function resolveSlug(slug, title = null) {
   const parts = slug.split("-");
   if (parts.length > 1) {
     const last = parts[parts.length - 1];
@@ -93,7 +330,17 @@ function resolveSlug(slug) {
       };
     }
   }
-  return { slug, hashId: slug, featureName: slug };
+  const titleName = isHashSegment(slug) ? featureNameFromTitle(title) : "";
+  return { slug, hashId: slug, featureName: titleName || slug };
+}
+
+/**
+ * Sanitize a feature name to prevent path traversal out of designs/.
+ */
+function assertSafeFeatureName(featureName) {
+  if (featureName.includes("..") || featureName.includes("/") || featureName.includes("\\")) {
+    throw new InvalidInputError(`Invalid feature name: "${featureName}" contains path traversal characters`);
+  }
 }
 
 function deriveFeatureName(slug) {
@@ -101,9 +348,10 @@ function deriveFeatureName(slug) {
 }
 
 /**
- * Format the version list table for --list-versions output.
+ * Format the version list table for --list-versions output. With --details, each version is
+ * followed by its detail line (see formatVersionDetail).
  */
-function formatVersionList(hashId, versions, bestVersion) {
+function formatVersionList(hashId, versions, bestVersion, details = null) {
   const total = versions.length;
   const lines = [`Versions for chat ${hashId} (${total} total):`];
 
@@ -112,6 +360,8 @@ function formatVersionList(hashId, versions, bestVersion) {
     const index = total - i;
     const marker = bestVersion && v.id === bestVersion.id ? "  (selected)" : "";
     lines.push(`  #${index}  ${v.id}  ${v.status}  ${v.createdAt}${marker}`);
+    const detail = details?.get(v.id);
+    if (detail) lines.push(`        ${formatVersionDetail(detail)}`);
   }
 
   return lines.join("\n");
@@ -134,36 +384,208 @@ function findNextOlderCompleted(versions, selectedVersionId) {
   return null;
 }
 
+// Error-severity warnings make a version unusable; rules can also flag files as "warning" only
+function hasBlockingWarnings(warnings) {
+  return warnings.some((w) => w.severity !== "warning");
+}
+
+/**
+ * Stage the selected version and, while it has placeholder files, older completed versions,
+ * each in its own directory under designs/<feature>/.v0-fallback/, until one passes validation
+ * or maxSteps older versions were tried. The passing version — or the selected one, when none
+ * passed — is promoted to v0-source; the staging directories are removed either way.
+ *
+ * @param {string} startVersionId - The version selected by --version or selectBestVersion
+ * @param {number} maxSteps - How many older versions to try after the selected one
+ * @param {object} context
+ * @param {Array<{ id: string, status: string }>} context.versions - The chat's version list, newest first
+ * @param {string} context.featureDir - designs/<feature>
+ * @param {string} context.designDir - designs/<feature>/v0-source
+ * @param {(versionId: string, targetDir: string) => Promise<object>} context.fetchVersion - Extracts and validates one version
+ * @param {object} deps
+ * @returns {Promise<{ fetched: object, versionId: string,
+ *   rejected: Array<{ versionId: string, warnings: Array<{ name: string, reason: string, ruleId?: string }> }> }>}
+ */
+async function fetchWithFallback(startVersionId, maxSteps, { versions, featureDir, designDir, fetchVersion }, deps) {
+  const stagingRoot = join(featureDir, FALLBACK_STAGING_DIR);
+  const staged = [];
+  const rejected = [];
+  let accepted = null;
+  let candidateId = startVersionId;
+
+  try {
+    while (candidateId) {
+      const stagingDir = join(stagingRoot, candidateId);
+      const fetched = await fetchVersion(candidateId, stagingDir);
+      staged.push({ versionId: candidateId, stagingDir, fetched });
+
+      const { warnings } = fetched.validationResult;
+      if (!hasBlockingWarnings(warnings)) {
+        accepted = staged.at(-1);
+        break;
+      }
+      rejected.push({
+        versionId: candidateId,
+        warnings: warnings.map(({ name, reason, ruleId }) => (ruleId ? { name, reason, ruleId } : { name, reason })),
+      });
+      const files = warnings.map((w) => (w.ruleId ? `${w.name} [${w.ruleId}]` : w.name)).join(", ");
+      deps.console.error(`Rejected version ${candidateId}: placeholder files ${files}`);
+
+      if (rejected.length > maxSteps) break;
+      candidateId = findNextOlderCompleted(versions, candidateId)?.id ?? null;
+    }
+
+    const promoted = accepted ?? staged[0];
+    deps.rmSync(designDir, { recursive: true, force: true });
+    deps.renameSync(promoted.stagingDir, designDir);
+    return { fetched: promoted.fetched, versionId: promoted.versionId, rejected };
+  } finally {
+    deps.rmSync(stagingRoot, { recursive: true, force: true });
+  }
+}
+
+function formatDoneLine({ totalFiles, skippedFileCount, customFileCount, defaultFileCount }, designDir) {
+  return `Done! ${totalFiles - skippedFileCount} files (${customFileCount} custom, ${defaultFileCount} default) written to ${designDir}`;
+}
+
+/**
+ * Throw a LocalEditsError when files tracked by the manifest were edited in v0-source since the
+ * last fetch, so a re-fetch doesn't silently replace them. --force skips the check.
+ */
+function assertNoLocalEdits(designDir, manifest, { featureName, action, readFileSync }) {
+  const { modified } = verifyDesign(designDir, manifest, { readFileSync });
+  if (modified.length === 0) return;
+  throw new LocalEditsError(
+    `${featureName}: v0-source has local edits that ${action} would overwrite: ${modified.join(", ")}. ` +
+      `Run "verify ${featureName}" to review them, move the edits to the adapted copy, or pass --force.`,
+    { details: { featureName, files: modified } },
+  );
+}
+
+// The version-detail endpoint lists only a version's custom files
+async function fetchCustomFileNames(client, resolvedChatId, versionId) {
+  const { files } = await client.getVersion(resolvedChatId, versionId);
+  return files.map((f) => f.name);
+}
+
+/**
+ * Download two versions in memory and format a per-file diff between them.
+ * Files classified as custom in either version are marked in the summary.
+ */
+async function buildVersionDiff(resolvedChatId, [versionA, versionB], zipLimits, { client }) {
+  const [zipA, zipB] = await Promise.all([
+    client.downloadVersion(resolvedChatId, versionA),
+    client.downloadVersion(resolvedChatId, versionB),
+  ]);
+  const filesA = unzipInMemory(zipA, zipLimits);
+  const filesB = unzipInMemory(zipB, zipLimits);
+
+  const [customA, customB] = await Promise.all([
+    fetchCustomFileNames(client, resolvedChatId, versionA),
+    fetchCustomFileNames(client, resolvedChatId, versionB),
+  ]);
+  const customNames = new Set(
+    [...classifyFiles(filesA, customA).custom, ...classifyFiles(filesB, customB).custom].map((f) => f.name),
+  );
+
+  return formatVersionDiff({ versionA, versionB, filesA, filesB, customNames });
+}
+
 /**
  * Orchestrate the full fetch pipeline with injected dependencies.
  *
  * @param {object} options - Pipeline options
- * @param {object} deps - Injected dependencies for testability
+ * @param {object} deps - The v0 client, filesystem functions, and console, injected for testability; plus an
+ *   optional `progress` line (see createProgressLine) that shows each zip's download as it streams in
  * @returns {Promise<object>} Pipeline result
  */
 async function runPipeline(options, deps) {
-  const { inputArg, customName, outputDir, apiKey, versionId, listVersions } = options;
+  const {
+    inputArg,
+    customName,
+    outputDir,
+    designsDir = DEFAULT_DESIGNS_DIR,
+    versionId,
+    listVersions,
+    details,
+    sync,
+    force,
+    include,
+    exclude,
+    customOnly,
+    diffVersions,
+    cacheDir,
+    zipLimits,
+    updateLockfile,
+    placeholderRulesPath,
+    configuredPlaceholderRules,
+    autoFallback,
+    sourceDir,
+  } = options;
 
   // Step 1: Extract chat identity from the input
   const { slug, hashId, featureName: derivedFeatureName } = extractChatId(inputArg);
-  const effectiveFeatureName = customName || derivedFeatureName;
+  let effectiveFeatureName = customName || derivedFeatureName;
+
+  assertSafeFeatureName(effectiveFeatureName);
+  if (autoFallback && sync) {
+    throw new InvalidInputError(
+      "--auto-fallback cannot be combined with --sync: a fallback replaces v0-source instead of syncing it",
+    );
+  }
 
-  // Sanitize featureName to prevent path traversal
-  if (
-    effectiveFeatureName.includes("..") ||
-    effectiveFeatureName.includes("/") ||
-    effectiveFeatureName.includes("\\")
-  ) {
-    throw new Error(`Invalid feature name: "${effectiveFeatureName}" contains path traversal characters`);
+  // Step 1b: Load project placeholder rules up front so a bad config fails before any download.
+  // Rules written inline in the project config take the place of designs/placeholder-rules.json
+  let ruleConfigs;
+  if (placeholderRulesPath) {
+    ruleConfigs = loadPlaceholderRules(placeholderRulesPath, deps.readFileSync, { required: true });
+  } else if (configuredPlaceholderRules) {
+    ruleConfigs = configuredPlaceholderRules;
+  } else {
+    ruleConfigs = loadPlaceholderRules(join(outputDir, designsDir, PLACEHOLDER_RULES_FILE), deps.readFileSync);
   }
+  const placeholderRules = createPlaceholderRules(ruleConfigs);
 
   // Step 2: Fetch the version list
-  const { versions, resolvedChatId } = await deps.fetchVersionList(slug, hashId, apiKey);
+  const { versions, resolvedChatId } = await deps.client.listVersions(slug, hashId);
+
+  // Step 2b: Fetch the chat's title, timestamps, demo URL, and prompts. They only enrich the
+  // written output, so --list-versions and --diff skip them, and a failure is reported and the
+  // fetch carries on without them
+  let chat = null;
+  if (!listVersions && !diffVersions) {
+    try {
+      chat = normalizeChatMetadata(await deps.client.getChat(resolvedChatId));
+    } catch (err) {
+      deps.console.error(`Warning: could not fetch chat metadata — ${err.message}`);
+    }
+  }
+  if (!customName && chat?.title) {
+    effectiveFeatureName = extractChatId(inputArg, chat.title).featureName;
+  }
+
+  // Selectors such as "#3", "latest-completed", or "before:2024-06-01" resolve against the
+  // version list; "^" steps back from the version the existing manifest was fetched at
+  const featureDir = join(outputDir, designsDir, effectiveFeatureName);
+  // The sync subcommand points sourceDir at a staging directory and swaps it in afterwards
+  const designDir = sourceDir ?? join(featureDir, "v0-source");
+  const resolveVersion = (selector) => {
+    const currentVersionId = selector === "^" ? readPreviousManifest(designDir, deps.readFileSync)?.versionId : null;
+    const resolved = resolveVersionSelector(selector, versions, { currentVersionId });
+    if (resolved !== selector) deps.console.log(`Resolved --version ${selector} to ${resolved}`);
+    return resolved;
+  };
 
   // Step 3: Handle --list-versions flag (early return, no download)
   if (listVersions) {
-    const bestVersion = deps.selectBestVersion(versions);
-    const listVersionsOutput = formatVersionList(hashId, versions, bestVersion);
+    const bestVersion = selectBestVersion(versions);
+    // --details previews each version through the version-detail endpoint instead of its zip
+    const versionDetails = details
+      ? await buildVersionDetails(versions, async (id) => (await deps.client.getVersion(resolvedChatId, id)).files, {
+          rules: placeholderRules,
+        })
+      : undefined;
+    const listVersionsOutput = formatVersionList(hashId, versions, bestVersion, versionDetails);
 
     return {
       featureName: effectiveFeatureName,
@@ -175,50 +597,173 @@ async function runPipeline(options, deps) {
       defaultFileCount: 0,
       warnings: [],
       listVersionsOutput,
+      versionDetails,
+    };
+  }
+
+  // Step 3b: Handle --diff (early return, nothing written to disk)
+  if (diffVersions) {
+    if (diffVersions.length !== 2) {
+      throw new InvalidInputError("--diff requires two version IDs: --diff <versionA> <versionB>");
+    }
+    const { output, summary } = await buildVersionDiff(
+      resolvedChatId,
+      diffVersions.map(resolveVersion),
+      zipLimits,
+      deps,
+    );
+
+    return {
+      featureName: effectiveFeatureName,
+      designDir: undefined,
+      versionId: null,
+      resolvedChatId,
+      totalFiles: 0,
+      customFileCount: 0,
+      defaultFileCount: 0,
+      warnings: [],
+      diff: summary,
+      diffOutput: output,
     };
   }
 
   // Step 4: Select the version to download
   let selectedVersionId;
   if (versionId) {
-    selectedVersionId = versionId;
+    selectedVersionId = resolveVersion(versionId);
   } else {
-    const bestVersion = deps.selectBestVersion(versions);
+    const bestVersion = selectBestVersion(versions);
     if (!bestVersion) {
-      throw new Error("No suitable version found. The version list may be empty.");
+      throw new NotFoundError("No suitable version found. The version list may be empty.");
     }
     selectedVersionId = bestVersion.id;
   }
 
-  // Step 5: Build the output directory path
-  const designDir = join(outputDir, "designs", effectiveFeatureName, "v0-source");
+  // Step 5: Refuse to overwrite files someone edited in place since the last fetch, then create
+  // the output directory. Manifests written by older versions of this script are upgraded in
+  // memory before they are compared
+  let previousManifest = readPreviousManifest(designDir, deps.readFileSync);
+  if (previousManifest) previousManifest = migrateManifest(previousManifest).manifest;
+  if (previousManifest && !force) {
+    assertNoLocalEdits(designDir, previousManifest, {
+      featureName: effectiveFeatureName,
+      action: sync ? "--sync" : "this fetch",
+      readFileSync: deps.readFileSync,
+    });
+  }
   deps.mkdirSync(designDir, { recursive: true });
 
-  // Step 6: Download and extract files
-  const extractedFiles = await deps.downloadAndExtract(resolvedChatId, selectedVersionId, apiKey, designDir);
+  let shouldWrite;
+  if (sync) {
+    shouldWrite = (name, data) => !hasSameContent(join(designDir, name), data, deps.readFileSync);
+  }
+
+  const fetchVersion = async (candidateId, targetDir) => {
+    // Step 6: Download and extract files. Entries filtered out by --include/--exclude/--custom-only are
+    // skipped; in sync mode, files whose bytes already match disk are left alone.
+    // --custom-only needs the custom file list before anything is written.
+    let customFileNames = customOnly ? await fetchCustomFileNames(deps.client, resolvedChatId, candidateId) : null;
+    const extractOptions = { limits: zipLimits, fs: deps };
+    const select = createFileSelector({ include, exclude, customFileNames });
+    if (select) {
+      extractOptions.select = select;
+    }
+    if (shouldWrite) {
+      extractOptions.shouldWrite = shouldWrite;
+    }
+    // Completed versions never change, so only those are served from or stored in the zip cache
+    const candidate = versions.find((v) => v.id === candidateId);
+    if (cacheDir && candidate?.status === "completed") {
+      extractOptions.cache = {
+        dir: cacheDir,
+        onResult: ({ hit, size }) => {
+          const label = hit ? "Cache hit" : "Cache miss, stored";
+          // A miss is reported once the download finishes, so end its progress line first
+          deps.progress?.done();
+          deps.console.log(`${label}: ${resolvedChatId}/${candidateId} (${formatBytes(size)})`);
+        },
+      };
+    }
+    if (deps.progress) {
+      extractOptions.onProgress = (progress) =>
+        deps.progress.update(formatProgress(`Fetching ${candidateId}`, progress));
+    }
+    let extractedFiles;
+    try {
+      extractedFiles = await downloadAndExtract(deps.client, resolvedChatId, candidateId, targetDir, extractOptions);
+    } finally {
+      deps.progress?.done();
+    }
+
+    // Step 7: Fetch custom file names (unless --custom-only already did) and classify
+    customFileNames ??= await fetchCustomFileNames(deps.client, resolvedChatId, candidateId);
+    const classified = classifyFiles(extractedFiles, customFileNames);
 
-  // Step 7: Fetch custom file names and classify
-  const customFileNames = await deps.fetchCustomFileList(resolvedChatId, selectedVersionId, apiKey);
-  const classified = deps.classifyFiles(extractedFiles, customFileNames);
+    // Step 8: Validate custom files against the placeholder rules
+    const validationResult = validateCustomFiles(classified.custom, placeholderRules);
+
+    return { extractedFiles, customFileNames, classified, validationResult };
+  };
 
-  // Step 8: Validate custom files for placeholder content
-  const validationResult = deps.validateCustomFiles(classified.custom, deps.isPlaceholderContent);
+  // With --auto-fallback, versions are staged outside v0-source until one passes validation
+  let fetched;
+  let fallback;
+  if (autoFallback) {
+    const result = await fetchWithFallback(
+      selectedVersionId,
+      autoFallback,
+      { versions, featureDir, designDir, fetchVersion },
+      deps,
+    );
+    fetched = result.fetched;
+    if (result.versionId !== selectedVersionId) {
+      deps.console.log(`Falling back from ${selectedVersionId} to ${result.versionId}`);
+    }
+    fallback = { requestedVersionId: selectedVersionId, maxSteps: autoFallback, rejected: result.rejected };
+    selectedVersionId = result.versionId;
+  } else {
+    fetched = await fetchVersion(selectedVersionId, designDir);
+  }
+  const { extractedFiles, customFileNames, classified, validationResult } = fetched;
 
-  // Step 9: Handle placeholder warnings
+  // Step 8b: In sync mode, delete files the previous manifest tracked but the new version dropped
+  let syncReport;
+  if (sync) {
+    syncReport = diffAgainstManifest(previousManifest?.files, extractedFiles);
+    removeStaleFiles(designDir, syncReport.removed, deps.rmSync);
+  }
+
+  // Step 9: Handle placeholder warnings; only error-severity rules suggest an older version
   if (validationResult.warnings.length > 0) {
     for (const warning of validationResult.warnings) {
-      deps.console.error(`Warning: ${warning.name} — ${warning.reason}`);
+      const rule = warning.ruleId ? ` [${warning.ruleId}]` : "";
+      deps.console.error(`Warning: ${warning.name} — ${warning.reason}${rule}`);
     }
 
-    const olderVersion = findNextOlderCompleted(versions, selectedVersionId);
-    if (olderVersion) {
-      deps.console.error(`Try: --version ${olderVersion.id}`);
+    if (hasBlockingWarnings(validationResult.warnings)) {
+      // After a fallback that found nothing clean, continue from the oldest version it tried
+      const lastTried = fallback?.rejected.at(-1)?.versionId ?? selectedVersionId;
+      const olderVersion = findNextOlderCompleted(versions, lastTried);
+      if (fallback) {
+        deps.console.error(
+          `No version within ${fallback.maxSteps} fallback steps is free of placeholders; kept ${selectedVersionId}`,
+        );
+        if (olderVersion) deps.console.error(`Try: --auto-fallback ${fallback.maxSteps * 2}`);
+      } else if (olderVersion) {
+        deps.console.error(`Try: --version ${olderVersion.id} or --auto-fallback`);
+      }
     }
   }
 
+  // Every custom file flagged by an error-severity rule: the files are still written, but main()
+  // exits with the placeholder-only code so the skill doesn't start adapting stubs
+  const blockedNames = new Set(validationResult.warnings.filter((w) => w.severity !== "warning").map((w) => w.name));
+  const placeholderOnly = classified.custom.length > 0 && classified.custom.every((f) => blockedNames.has(f.name));
+
   // Step 10: Build and write manifest
   const customSet = new Set(customFileNames);
   const manifest = {
+    schemaVersion: MANIFEST_SCHEMA_VERSION,
     chatId: resolvedChatId,
     featureName: effectiveFeatureName,
     fetchedAt: new Date().toISOString(),
@@ -228,21 +773,60 @@ async function runPipeline(options, deps) {
     customFileCount: classified.custom.length,
     defaultFileCount: classified.default.length,
     warnings: validationResult.warnings,
-    files: extractedFiles.map((f) => ({
-      name: f.name,
-      size: f.size,
-      isCustom: customSet.has(f.name),
-    })),
+    files: extractedFiles.map((f) => {
+      const entry = {
+        name: f.name,
+        size: f.size,
+        sha256: f.sha256,
+        mimeType: f.mimeType,
+        encoding: f.encoding,
+        isCustom: customSet.has(f.name),
+      };
+      // Skipped by --include/--exclude/--custom-only: listed, but not on disk
+      if (f.selected === false) entry.written = false;
+      return entry;
+    }),
   };
 
+  if (chat) {
+    const { title, createdAt, updatedAt, demoUrl } = chat;
+    manifest.chat = {
+      title,
+      createdAt,
+      updatedAt,
+      demoUrl,
+      promptCount: chat.messages.filter((m) => m.role === "user").length,
+    };
+  }
+  // Versions --auto-fallback rejected on the way to this one
+  if (fallback) manifest.fallback = fallback;
+
   deps.writeFileSync(join(designDir, "manifest.json"), JSON.stringify(manifest, null, 2));
 
-  // Step 11: Log summary
-  deps.console.log(
-    `Done! ${extractedFiles.length} files (${classified.custom.length} custom, ${classified.default.length} default) written to ${designDir}`,
-  );
+  // Step 10b: Pin the fetch in designs/designs.lock.json (a lockfile replay leaves the pins alone).
+  // A placeholder-only version is never pinned, so `sync` keeps replaying the last usable one
+  const lockEntry = buildLockEntry(manifest, { include, exclude, customOnly });
+  if (placeholderOnly && updateLockfile !== false) {
+    deps.console.error(`Not pinning ${selectedVersionId} in ${LOCKFILE_NAME}: every custom file is a placeholder`);
+  } else if (updateLockfile !== false) {
+    const lock = readLockfile(outputDir, deps.readFileSync, designsDir);
+    lock.designs[effectiveFeatureName] = lockEntry;
+    writeLockfile(outputDir, lock, deps.writeFileSync, designsDir);
+  }
 
-  return {
+  // Step 10c: Keep the prompts next to v0-source as the record of design intent
+  const promptHistory =
+    chat &&
+    formatPromptHistory(chat, {
+      featureName: effectiveFeatureName,
+      sourceUrl: manifest.sourceUrl,
+      versionId: selectedVersionId,
+    });
+  if (promptHistory) {
+    deps.writeFileSync(join(featureDir, PROMPT_HISTORY_FILE), promptHistory);
+  }
+
+  const result = {
     featureName: effectiveFeatureName,
     designDir,
     versionId: selectedVersionId,
@@ -251,59 +835,498 @@ async function runPipeline(options, deps) {
     customFileCount: classified.custom.length,
     defaultFileCount: classified.default.length,
     warnings: validationResult.warnings,
+    placeholderOnly,
+    skippedFileCount: extractedFiles.filter((f) => f.selected === false).length,
+    sync: syncReport,
+    fallback,
+    chat,
+    lockEntry,
   };
+
+  // Step 11: Log summary
+  if (syncReport) {
+    deps.console.log(formatSyncReport(syncReport));
+  }
+  if (result.skippedFileCount > 0) {
+    deps.console.log(`Skipped ${result.skippedFileCount} files filtered out by --include/--exclude/--custom-only`);
+  }
+  // A staged replay reports where its files end up once the caller has swapped them in
+  if (!sourceDir) {
+    deps.console.log(formatDoneLine(result, designDir));
+  }
+
+  return result;
+}
+
+/**
+ * Run the `cache` subcommand. `cache prune` applies the --max-size / --max-age limits,
+ * falling back to the cache defaults.
+ */
+function runCacheCommand(options, deps) {
+  const { commandArgs, cacheDir, maxSizeMb, maxAgeDays } = options;
+  if (commandArgs[0] !== "prune") {
+    throw new InvalidInputError(
+      `Unknown cache command: "${commandArgs[0] ?? ""}". Usage: cache prune [--max-size <mb>] [--max-age <days>]`,
+    );
+  }
+
+  const limits = {};
+  if (maxSizeMb != null) limits.maxBytes = maxSizeMb * 1024 * 1024;
+  if (maxAgeDays != null) limits.maxAgeMs = maxAgeDays * 24 * 60 * 60 * 1000;
+  const result = deps.pruneZipCache(cacheDir, limits);
+
+  deps.console.log(
+    `Pruned ${result.removedEntries} cache entries and ${result.removedBlobs} archives (${formatBytes(result.freedBytes)} freed, ${formatBytes(result.remainingBytes)} remaining) in ${cacheDir}`,
+  );
+  return result;
+}
+
+/**
+ * Run the `migrate` subcommand: upgrade every manifest under <outputDir>/designs to the current
+ * schema version and validate it. With --check nothing is written; outdated or invalid
+ * manifests are reported and counted instead.
+ */
+function runMigrateCommand(options, deps) {
+  const { outputDir, designsDir = DEFAULT_DESIGNS_DIR, commandArgs } = options;
+  const check = commandArgs.includes("--check");
+  const result = { migrated: 0, upToDate: 0, invalid: 0 };
+
+  for (const design of findDesignManifests(outputDir, deps, designsDir)) {
+    const label = relative(outputDir, design.manifestPath);
+    let manifest;
+    try {
+      manifest = JSON.parse(deps.readFileSync(design.manifestPath, "utf8"));
+    } catch {
+      deps.console.error(`${label}: not valid JSON`);
+      result.invalid++;
+      continue;
+    }
+
+    const migration = migrateManifest(manifest, { designDir: design.designDir, readFileSync: deps.readFileSync });
+    const { valid, errors } = validateManifest(migration.manifest);
+    if (!valid) {
+      deps.console.error(`${label}: invalid after migration`);
+      for (const error of errors) deps.console.error(`  ${error}`);
+      result.invalid++;
+      continue;
+    }
+
+    if (!migration.migrated) {
+      deps.console.log(`${label}: up to date (schema ${MANIFEST_SCHEMA_VERSION})`);
+      result.upToDate++;
+    } else if (check) {
+      deps.console.log(`${label}: needs migration from schema ${migration.fromVersion} to ${MANIFEST_SCHEMA_VERSION}`);
+      result.migrated++;
+    } else {
+      deps.writeFileSync(design.manifestPath, JSON.stringify(migration.manifest, null, 2));
+      deps.console.log(`${label}: migrated from schema ${migration.fromVersion} to ${MANIFEST_SCHEMA_VERSION}`);
+      result.migrated++;
+    }
+    if (design.legacyLayout) {
+      deps.console.log(`  ${design.featureName} predates the v0-source/ layout — re-fetch it to move its files`);
+    }
+  }
+
+  const verb = check ? "need migration" : "migrated";
+  deps.console.log(`${result.migrated} ${verb}, ${result.upToDate} up to date, ${result.invalid} invalid`);
+  return result;
+}
+
+/**
+ * Run the `verify <feature>` subcommand: re-hash v0-source against its manifest and report
+ * modified, deleted, and added files. The result's `drifted` flag drives the exit code.
+ */
+function runVerifyCommand(options, deps) {
+  const { outputDir, designsDir = DEFAULT_DESIGNS_DIR, commandArgs } = options;
+  const featureName = commandArgs[0];
+  if (!featureName) {
+    throw new InvalidInputError("Usage: verify <feature-name> [--output-dir <path>]");
+  }
+  assertSafeFeatureName(featureName);
+
+  const designDir = join(outputDir, designsDir, featureName, "v0-source");
+  const previousManifest = readPreviousManifest(designDir, deps.readFileSync);
+  if (!previousManifest) {
+    throw new NotFoundError(`No manifest found at ${join(designDir, "manifest.json")} — fetch the design first`);
+  }
+
+  const { manifest } = migrateManifest(previousManifest);
+  const result = verifyDesign(designDir, manifest, deps);
+  deps.console.log(formatVerifyReport(featureName, result));
+  return { ...result, drifted: hasDrifted(result) };
+}
+
+/**
+ * Run the `sync` subcommand: re-create designs/<feature>/v0-source for every pinned feature
+ * (or the ones named) from designs.lock.json, then check the files against the pinned hashes.
+ * Like --sync, features with local edits are refused unless --force is passed.
+ */
+async function runSyncCommand(options, deps) {
+  const { outputDir, designsDir = DEFAULT_DESIGNS_DIR, commandArgs, cacheDir, force } = options;
+  const lock = readLockfile(outputDir, deps.readFileSync, designsDir);
+  const features = commandArgs.length > 0 ? commandArgs : Object.keys(lock.designs);
+  if (features.length === 0) {
+    throw new NotFoundError(`No designs are pinned in ${lockfilePath(outputDir, designsDir)} — fetch a design first`);
+  }
+
+  const result = { replayed: [], mismatched: [] };
+  for (const featureName of features) {
+    assertSafeFeatureName(featureName);
+    const entry = lock.designs[featureName];
+    if (!entry) {
+      throw new NotFoundError(`"${featureName}" is not pinned in ${lockfilePath(outputDir, designsDir)}`);
+    }
+
+    const featureDir = join(outputDir, designsDir, featureName);
+    const designDir = join(featureDir, "v0-source");
+    const existing = readPreviousManifest(designDir, deps.readFileSync);
+    if (existing && !force) {
+      assertNoLocalEdits(designDir, migrateManifest(existing).manifest, {
+        featureName,
+        action: "sync",
+        readFileSync: deps.readFileSync,
+      });
+    }
+
+    deps.console.log(`Syncing ${featureName} to ${entry.chatId}/${entry.versionId}`);
+    // Replayed into a staging directory first, so a failed fetch leaves the current v0-source in place
+    const stagingDir = join(featureDir, SYNC_STAGING_DIR);
+    deps.rmSync(stagingDir, { recursive: true, force: true });
+    let fetched;
+    try {
+      fetched = await runPipeline(
+        {
+          inputArg: entry.sourceUrl,
+          customName: featureName,
+          outputDir,
+          designsDir,
+          versionId: entry.versionId,
+          ...entry.filters,
+          cacheDir,
+          updateLockfile: false,
+          sourceDir: stagingDir,
+          force,
+        },
+        deps,
+      );
+      deps.rmSync(designDir, { recursive: true, force: true });
+      deps.renameSync(stagingDir, designDir);
+      deps.console.log(formatDoneLine(fetched, designDir));
+    } finally {
+      deps.rmSync(stagingDir, { recursive: true, force: true });
+    }
+
+    const { changed, missing, unexpected } = compareLockedFiles(entry.files, fetched.lockEntry.files);
+    if (changed.length + missing.length + unexpected.length > 0) {
+      deps.console.error(`${featureName}: fetched files do not match the lockfile`);
+      for (const name of changed) deps.console.error(`  ~ ${name}`);
+      for (const name of missing) deps.console.error(`  - ${name}`);
+      for (const name of unexpected) deps.console.error(`  + ${name}`);
+      result.mismatched.push(featureName);
+    } else {
+      result.replayed.push(featureName);
+    }
+  }
+
+  deps.console.log(
+    `Synced ${result.replayed.length} designs from the lockfile, ${result.mismatched.length} mismatched`,
+  );
+  return result;
 }
 
-async function main() {
-  const { inputArg, customName, outputDir, versionId, listVersions } = parseArgs(process.argv);
+/**
+ * Run the `brief <feature>` subcommand: inventory the imports of the design's custom files,
+ * check the shadcn components against the project (the output directory), and write
+ * designs/<feature>/adaptation-brief.json.
+ */
+function runBriefCommand(options, deps) {
+  const { outputDir, designsDir = DEFAULT_DESIGNS_DIR, commandArgs } = options;
+  const featureName = commandArgs[0];
+  if (!featureName) {
+    throw new InvalidInputError("Usage: brief <feature-name> [--output-dir <path>]");
+  }
+  assertSafeFeatureName(featureName);
+
+  const designDir = join(outputDir, designsDir, featureName, "v0-source");
+  const previousManifest = readPreviousManifest(designDir, deps.readFileSync);
+  if (!previousManifest) {
+    throw new NotFoundError(`No manifest found at ${join(designDir, "manifest.json")} — fetch the design first`);
+  }
 
-  if (!inputArg) {
+  const { manifest } = migrateManifest(previousManifest);
+  const brief = buildAdaptationBrief({ manifest, designDir, projectDir: outputDir, fs: deps });
+  const briefPath = join(outputDir, designsDir, featureName, "adaptation-brief.json");
+  deps.writeFileSync(briefPath, `${JSON.stringify(brief, null, 2)}\n`);
+  deps.console.log(formatBriefSummary(brief, briefPath));
+  return brief;
+}
+
+// Default home for `audit --fix` output, next to the pinned v0-source
+const AUDIT_FIX_DIR = "audit-fixed";
+
+function readOptionalText(path, readFileSync) {
+  try {
+    return readFileSync(path, "utf8");
+  } catch (err) {
+    if (err?.code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+/**
+ * Run the `audit <feature>` subcommand: report hard-coded palette colors, arbitrary colors,
+ * and arbitrary spacing in the class strings of the design's custom files, with semantic
+ * replacements from the color mapping. v0-source stays as fetched: --fix writes the rewritten
+ * files to --fix-dir (default designs/<feature>/audit-fixed). A file that already exists there,
+ * such as the adapted copy, is fixed in place; the others are written as fixed copies of v0-source.
+ */
+function runAuditCommand(options, deps) {
+  const { outputDir, designsDir = DEFAULT_DESIGNS_DIR, commandArgs } = options;
+  let featureName = null;
+  let mappingPath = null;
+  let fixDir = null;
+  let fix = false;
+  for (let i = 0; i < commandArgs.length; i++) {
+    if (commandArgs[i] === "--fix") {
+      fix = true;
+    } else if (commandArgs[i] === "--mapping" && i + 1 < commandArgs.length) {
+      mappingPath = commandArgs[i + 1];
+      i++;
+    } else if (commandArgs[i] === "--fix-dir" && i + 1 < commandArgs.length) {
+      fixDir = commandArgs[i + 1];
+      i++;
+    } else if (!featureName) {
+      featureName = commandArgs[i];
+    }
+  }
+  if (!featureName) {
+    throw new InvalidInputError(
+      "Usage: audit <feature-name> [--fix] [--fix-dir <path>] [--mapping <path>] [--output-dir <path>]",
+    );
+  }
+  assertSafeFeatureName(featureName);
+
+  const designDir = join(outputDir, designsDir, featureName, "v0-source");
+  fixDir ??= join(outputDir, designsDir, featureName, AUDIT_FIX_DIR);
+  const previousManifest = readPreviousManifest(designDir, deps.readFileSync);
+  if (!previousManifest) {
+    throw new NotFoundError(`No manifest found at ${join(designDir, "manifest.json")} — fetch the design first`);
+  }
+
+  const { manifest } = migrateManifest(previousManifest);
+  const mapping = loadColorMapping(mappingPath, deps.readFileSync);
+  const findings = [];
+  let fixed = 0;
+  for (const file of manifest.files) {
+    if (!file.isCustom || file.written === false || file.encoding === "binary" || !isScriptFile(file.name)) continue;
+    const fixPath = join(fixDir, file.name);
+    const existingFix = fix ? readOptionalText(fixPath, deps.readFileSync) : null;
+    const source = existingFix ?? deps.readFileSync(join(designDir, file.name), "utf8");
+    const fileFindings = auditSource(source, mapping);
+    if (fix && fileFindings.some((f) => f.suggestion)) {
+      const result = applyAuditFixes(source, fileFindings);
+      deps.mkdirSync(dirname(fixPath), { recursive: true });
+      deps.writeFileSync(fixPath, result.content);
+      fixed += result.fixed;
+      findings.push(...auditSource(result.content, mapping).map((f) => ({ file: file.name, ...f })));
+    } else {
+      findings.push(...fileFindings.map((f) => ({ file: file.name, ...f })));
+    }
+  }
+
+  deps.console.log(formatAuditReport(featureName, findings, { fixed }));
+  if (fixed > 0) deps.console.log(`Fixed files written to ${fixDir}; v0-source is unchanged`);
+  return { findings, fixed, fixDir: fix ? fixDir : null };
+}
+
+/**
+ * CLI entry point. `console` is the redacting console, so every line main and the pipeline
+ * print is scrubbed of the API key and other secrets; the key is registered with the
+ * redactor as soon as it is resolved.
+ */
+async function main(console, redactor) {
+  const cliArgs = parseArgs(process.argv);
+  const { config } = loadProjectConfig(cliArgs.configPath, process.cwd(), { existsSync, readFileSync });
+  const args = { ...cliArgs, ...resolveSettings(cliArgs, process.env, config, process.cwd()) };
+  const { inputArg, customName, outputDir, versionId, listVersions, sync, force, diffVersions, noCache, command } =
+    args;
+  const { include, exclude, customOnly } = args;
+  const cacheDir = noCache ? null : args.cacheDir || resolveCacheDir();
+
+  if (command === "cache") {
+    runCacheCommand({ ...args, cacheDir: args.cacheDir || resolveCacheDir() }, { pruneZipCache, console });
+    return;
+  }
+  if (command === "migrate") {
+    const result = runMigrateCommand(args, { readdirSync, existsSync, readFileSync, writeFileSync, console });
+    const needsAttention = result.invalid + (args.commandArgs.includes("--check") ? result.migrated : 0);
+    if (needsAttention > 0) process.exitCode = 1;
+    return;
+  }
+  if (command === "verify") {
+    const result = runVerifyCommand(args, { readdirSync, readFileSync, console });
+    if (result.drifted) process.exitCode = 1;
+    return;
+  }
+  if (command === "brief") {
+    runBriefCommand(args, { readdirSync, existsSync, readFileSync, writeFileSync, console });
+    return;
+  }
+  if (command === "audit") {
+    const result = runAuditCommand(args, { readFileSync, writeFileSync, mkdirSync, console });
+    if (result.findings.length > 0) process.exitCode = 1;
+    return;
+  }
+
+  if (!inputArg && command !== "sync") {
+    if (args.json) throw new InvalidInputError("Missing the v0 URL or chat ID");
     console.error("Usage: node fetch-v0.mjs <v0-url-or-chat-id> [feature-name] [--output-dir <path>]");
+    console.error("       node fetch-v0.mjs cache prune [--max-size <mb>] [--max-age <days>]");
+    console.error("       node fetch-v0.mjs migrate [--check] [--output-dir <path>]");
+    console.error("       node fetch-v0.mjs verify <feature-name> [--output-dir <path>]");
+    console.error("       node fetch-v0.mjs sync [feature-name...] [--force] [--output-dir <path>]");
+    console.error("       node fetch-v0.mjs brief <feature-name> [--output-dir <path>]");
+    console.error(
+      "       node fetch-v0.mjs audit <feature-name> [--fix] [--fix-dir <path>] [--mapping <path>] [--output-dir <path>]",
+    );
     console.error("");
     console.error("Options:");
     console.error("  --output-dir <path>  Base directory for designs/<feature-name>/");
-    console.error("                       Defaults to current working directory");
-    process.exit(1);
+    console.error("                       Defaults to the configured outputDir, else the working directory");
+    console.error("  --designs-dir <name> Folder under the output directory for designs (default: designs)");
+    console.error("  --api-base-url <url> v0 Platform API base URL (default: https://api.v0.dev/v1)");
+    console.error("  --config <path>      Project config (default: nearest .v0setup.json or ateam.config.json)");
+    console.error(
+      '  --version <selector> Version id, "#N" from --list-versions, latest, latest-completed, before:<date>, or ^',
+    );
+    console.error("  --details            With --list-versions, show custom file counts, changes, and placeholders");
+    console.error(
+      "  --sync               Write only added/changed files and delete files dropped since the last fetch",
+    );
+    console.error("  --force              Overwrite files edited in v0-source since the last fetch");
+    console.error("  --include <glob>     Only write files matching the glob (repeatable)");
+    console.error("  --exclude <glob>     Skip files matching the glob (repeatable)");
+    console.error("  --custom-only        Only write custom files, not v0's default scaffold");
+    console.error(
+      "  --auto-fallback [n]  Try up to n older completed versions (default 3) when placeholders are found",
+    );
+    console.error("  --placeholder-rules <path>  Extra placeholder rules (default: designs/placeholder-rules.json)");
+    console.error("  --cache-dir <path>   Zip cache location (default: ~/.cache/v0-setup)");
+    console.error("  --no-cache           Always download; never read or fill the zip cache");
+    console.error("  --max-attempts <n>   Attempts per API request before giving up on 429/5xx (default 4)");
+    console.error(
+      "  --json               On failure, print the error as one JSON line: kind, exitCode, message, details",
+    );
+    process.exit(EXIT_CODES["invalid-input"]);
   }
 
-  const apiKey = process.env.V0_API_KEY;
-  if (!apiKey) {
-    console.error("Error: V0_API_KEY environment variable is not set.");
-    console.error("Get your API key from: https://v0.dev/chat/settings/keys");
-    process.exit(1);
+  const credential = resolveApiKey(
+    args.apiKeyEnv,
+    { env: process.env, projectDirs: [process.cwd(), outputDir] },
+    { readFileSync },
+  );
+  if (!credential.apiKey) {
+    throw new AuthError(formatMissingApiKey(args.apiKeyEnv, credential.searched), {
+      details: { searched: credential.searched },
+    });
   }
+  const apiKey = credential.apiKey;
+  redactor.addSecret(apiKey);
+  console.error(`Using ${args.apiKeyEnv} from ${credential.source}`);
+
+  const deps = {
+    client: createV0Client({
+      apiKey,
+      baseUrl: args.apiBaseUrl,
+      fetch: withRetry(fetch, {
+        maxAttempts: args.maxAttempts ?? undefined,
+        onRetry: ({ attempt, maxAttempts, delayMs, reason }) =>
+          console.error(
+            `Retrying in ${(delayMs / 1000).toFixed(1)}s (attempt ${attempt + 1}/${maxAttempts}): ${reason}`,
+          ),
+      }),
+    }),
+    readFileSync,
+    writeFileSync,
+    mkdirSync,
+    rmSync,
+    renameSync,
+    // Lets extraction clear partial files a killed run left in v0-source
+    readdirSync,
+    console,
+    // Progress is rewritten in place with carriage returns, which only reads well on a terminal
+    progress: process.stdout.isTTY
+      ? createProgressLine(createRedactingStream(process.stdout, redactor.redact))
+      : undefined,
+  };
 
-  const { fetchVersionList, selectBestVersion } = await import("./version-list.mjs");
-  const { downloadAndExtract } = await import("./zip-download.mjs");
-  const { fetchCustomFileList, classifyFiles, validateCustomFiles } = await import("./file-filter.mjs");
-  const { isPlaceholderContent } = await import("./placeholder-detection.mjs");
+  if (command === "sync") {
+    const result = await runSyncCommand({ ...args, cacheDir }, deps);
+    if (result.mismatched.length > 0) process.exitCode = 1;
+    return;
+  }
 
   const result = await runPipeline(
-    { inputArg, customName, outputDir, apiKey, versionId, listVersions },
     {
-      fetchVersionList,
-      selectBestVersion,
-      downloadAndExtract,
-      fetchCustomFileList,
-      classifyFiles,
-      validateCustomFiles,
-      isPlaceholderContent,
-      writeFileSync,
-      mkdirSync,
-      console,
+      inputArg,
+      customName,
+      outputDir,
+      designsDir: args.designsDir,
+      versionId,
+      listVersions,
+      details: args.details,
+      sync,
+      force,
+      include,
+      exclude,
+      customOnly,
+      diffVersions,
+      cacheDir,
+      placeholderRulesPath: args.placeholderRulesPath,
+      configuredPlaceholderRules: args.configuredPlaceholderRules,
+      autoFallback: args.autoFallback,
     },
+    deps,
   );
 
   if (result.listVersionsOutput) {
     console.log(result.listVersionsOutput);
   }
+  if (result.diffOutput) {
+    console.log(result.diffOutput);
+  }
+  if (result.placeholderOnly) {
+    throw new PlaceholderOnlyError(
+      `Every custom file in ${result.versionId} is a placeholder — nothing to adapt. Try --auto-fallback or an older --version`,
+      {
+        details: {
+          versionId: result.versionId,
+          warnings: result.warnings.map(({ name, ruleId }) => ({ name, ruleId })),
+        },
+      },
+    );
+  }
 }
 
-export { deriveFeatureName, extractChatId, parseArgs, runPipeline };
+export {
+  deriveFeatureName,
+  extractChatId,
+  parseArgs,
+  runAuditCommand,
+  runBriefCommand,
+  runCacheCommand,
+  runMigrateCommand,
+  runPipeline,
+  runSyncCommand,
+  runVerifyCommand,
+};
 
 if (import.meta.url === `file://${process.argv[1]}` || process.argv[1]?.endsWith("fetch-v0.mjs")) {
-  main().catch((err) => {
-    console.error("Fatal error:", err.message);
-    process.exit(1);
+  const redactor = createRedactor();
+  const redactingConsole = createRedactingConsole(console, redactor.redact);
+  const { json } = parseArgs(process.argv);
+  main(redactingConsole, redactor).catch((err) => {
+    redactingConsole.error(formatFatalError(err, { json }));
+    process.exit(exitCodeFor(err));
   });
 }
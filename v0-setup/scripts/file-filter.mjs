@@ -1,4 +1,5 @@
-const V0_API_BASE = "https://api.v0.dev/v1";
+import { BUILTIN_PLACEHOLDER_RULES, findPlaceholderRule } from "./placeholder-detection.mjs";
+import { createV0Client } from "./v0-client.mjs";
 
 /**
  * Fetches the list of custom (non-default) filenames for a given chat version.
@@ -9,25 +10,12 @@ const V0_API_BASE = "https://api.v0.dev/v1";
  * @param {typeof fetch} [fetchImpl]
  * @returns {Promise<string[]>}
  */
-export async function fetchCustomFileList(resolvedChatId, versionId, apiKey, fetchImpl) {
+export async function fetchCustomFileList(resolvedChatId, versionId, apiKey, fetchImpl = fetch) {
   if (resolvedChatId == null) {
     throw new Error("fetchCustomFileList: resolvedChatId must be a string");
   }
-  const _fetch = fetchImpl ?? fetch;
-  const url = `${V0_API_BASE}/chats/${resolvedChatId}/versions/${versionId}?includeDefaultFiles=false`;
-  const response = await _fetch(url, {
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-      "Content-Type": "application/json",
-    },
-  });
-
-  if (!response.ok) {
-    throw new Error(`HTTP error ${response.status} fetching custom file list`);
-  }
-
-  const data = await response.json();
-  return (data.files ?? []).map((f) => f.name ?? f.path).filter((name) => name != null);
+  const { files } = await createV0Client({ apiKey, fetch: fetchImpl }).getVersion(resolvedChatId, versionId);
+  return files.map((f) => f.name);
 }
 
 /**
@@ -56,41 +44,52 @@ export function classifyFiles(allFiles, customFileNames) {
   return { custom, default: defaultFiles };
 }
 
+// Reported when a legacy predicate flags a file that no built-in rule explains
+const UNKNOWN_PLACEHOLDER = {
+  id: "placeholder",
+  severity: "error",
+  reason: "File content appears to be a placeholder",
+};
+
 /**
- * Validates custom files using the provided placeholder predicate.
+ * Validates custom files against placeholder rules and reports which rule fired for each.
+ * Files matching an "error" rule are left out of `valid`; "warning" rules flag a file but
+ * keep it. A predicate function is also accepted: files it flags are placeholders, reported
+ * under the first built-in rule that matches.
  *
  * @param {Array<{name: string, content: string}>} customFiles
- * @param {(content: string) => boolean} isPlaceholderFn
- * @returns {{ valid: Array<{name: string, content: string}>, warnings: Array<{name: string, reason: string}> }}
+ * @param {Array<object> | ((content: string) => boolean)} [rules] - From createPlaceholderRules()
+ * @returns {{ valid: Array<{name: string, content: string}>,
+ *   warnings: Array<{name: string, reason: string, ruleId: string, severity: string, line?: number, column?: number}> }}
  */
-export function validateCustomFiles(customFiles, isPlaceholderFn) {
+export function validateCustomFiles(customFiles, rules = BUILTIN_PLACEHOLDER_RULES) {
   const valid = [];
   const warnings = [];
 
   for (const file of customFiles) {
-    if (isPlaceholderFn(file.content)) {
-      const reason = deriveReason(file.content);
-      warnings.push({ name: file.name, reason });
+    // Binary assets (images, fonts) have no text content to check
+    if (file.encoding === "binary") {
+      valid.push(file);
+      continue;
+    }
+
+    let rule;
+    if (typeof rules === "function") {
+      rule = rules(file.content) ? { ...(findPlaceholderRule(file) ?? UNKNOWN_PLACEHOLDER), severity: "error" } : null;
     } else {
+      rule = findPlaceholderRule(file, rules);
+    }
+
+    if (rule) {
+      const { id, reason, severity, line, column } = rule;
+      const warning = { name: file.name, reason, ruleId: id, severity };
+      if (line !== undefined) Object.assign(warning, { line, column });
+      warnings.push(warning);
+    }
+    if (!rule || rule.severity === "warning") {
       valid.push(file);
     }
   }
 
   return { valid, warnings };
 }
-
-/**
- * Derives a human-readable reason string from placeholder content.
- *
- * @param {string} content
- * @returns {string}
- */
-function deriveReason(content) {
-  if (content.trim().toUpperCase() === "GENERATING") {
-    return "File content is a GENERATING placeholder — generation may still be in progress";
-  }
-  if (content.trim() === "") {
-    return "File content is empty — skipping empty file";
-  }
-  return "File content appears to be a placeholder";
-}
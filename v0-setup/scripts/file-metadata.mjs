@@ -0,0 +1,122 @@
+import { createHash } from "node:crypto";
+
+// Extension → MIME type for the file types v0 projects ship. Anything else is
+// reported as text/plain or application/octet-stream depending on its content.
+const MIME_TYPES = {
+  ".ts": "text/typescript",
+  ".tsx": "text/tsx",
+  ".js": "text/javascript",
+  ".jsx": "text/jsx",
+  ".mjs": "text/javascript",
+  ".cjs": "text/javascript",
+  ".json": "application/json",
+  ".css": "text/css",
+  ".scss": "text/x-scss",
+  ".html": "text/html",
+  ".md": "text/markdown",
+  ".mdx": "text/mdx",
+  ".txt": "text/plain",
+  ".yml": "text/yaml",
+  ".yaml": "text/yaml",
+  ".svg": "image/svg+xml",
+  ".xml": "application/xml",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".avif": "image/avif",
+  ".ico": "image/x-icon",
+  ".bmp": "image/bmp",
+  ".woff": "font/woff",
+  ".woff2": "font/woff2",
+  ".ttf": "font/ttf",
+  ".otf": "font/otf",
+  ".eot": "application/vnd.ms-fontobject",
+  ".pdf": "application/pdf",
+  ".mp3": "audio/mpeg",
+  ".wav": "audio/wav",
+  ".mp4": "video/mp4",
+  ".webm": "video/webm",
+  ".zip": "application/zip",
+  ".wasm": "application/wasm",
+};
+
+const BINARY_MIME_PREFIXES = ["image/", "font/", "audio/", "video/"];
+const BINARY_MIME_TYPES = new Set([
+  "application/vnd.ms-fontobject",
+  "application/pdf",
+  "application/zip",
+  "application/wasm",
+]);
+
+// Only the head of a file is scanned for NUL bytes, like git's binary heuristic
+const BINARY_SNIFF_BYTES = 8000;
+
+function extensionOf(name) {
+  const base = name.slice(name.lastIndexOf("/") + 1);
+  const dot = base.lastIndexOf(".");
+  return dot > 0 ? base.slice(dot).toLowerCase() : "";
+}
+
+/**
+ * Returns the MIME type for a file name based on its extension.
+ *
+ * @param {string} name
+ * @returns {string | null} The MIME type, or null for unknown extensions
+ */
+export function lookupMimeType(name) {
+  return MIME_TYPES[extensionOf(name)] ?? null;
+}
+
+/**
+ * Whether file data should be treated as binary. Known binary extensions (images,
+ * fonts, media) are binary regardless of content; SVG is text. Otherwise the data is
+ * binary if its head contains a NUL byte or it is not valid UTF-8.
+ *
+ * @param {string} name
+ * @param {Uint8Array} data
+ * @returns {boolean}
+ */
+export function isBinaryFile(name, data) {
+  const mimeType = lookupMimeType(name);
+  if (mimeType && (BINARY_MIME_TYPES.has(mimeType) || BINARY_MIME_PREFIXES.some((p) => mimeType.startsWith(p)))) {
+    return mimeType !== "image/svg+xml";
+  }
+  if (data.subarray(0, BINARY_SNIFF_BYTES).includes(0)) return true;
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(data);
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Hex-encoded SHA-256 of file data.
+ *
+ * @param {Uint8Array} data
+ * @returns {string}
+ */
+export function sha256Hex(data) {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+/**
+ * Describes an archive entry: its hash, MIME type and encoding, plus the decoded text
+ * for text files. Binary files are never decoded — their `content` is null.
+ *
+ * @param {string} name
+ * @param {Uint8Array} data
+ * @returns {{ size: number, sha256: string, mimeType: string, encoding: "utf-8" | "binary", content: string | null }}
+ */
+export function describeFile(name, data) {
+  const binary = isBinaryFile(name, data);
+  return {
+    size: data.byteLength,
+    sha256: sha256Hex(data),
+    mimeType: lookupMimeType(name) ?? (binary ? "application/octet-stream" : "text/plain"),
+    encoding: binary ? "binary" : "utf-8",
+    content: binary ? null : new TextDecoder().decode(data),
+  };
+}
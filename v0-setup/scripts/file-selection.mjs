@@ -0,0 +1,88 @@
+import { InvalidInputError } from "./errors.mjs";
+
+function escapeRegExp(text) {
+  return text.replace(/[.+^$()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Compiles a glob into an anchored RegExp. Supports `**` (any number of path segments),
+ * `*` (anything but "/"), `?` (one character but "/"), and `{a,b}` alternation.
+ *
+ * @param {string} pattern
+ * @returns {RegExp}
+ */
+export function globToRegExp(pattern) {
+  let source = "";
+  let braceDepth = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      // "**/" also matches zero directories, so "**/x.ts" matches "x.ts"
+      if (pattern[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{") {
+      source += "(?:";
+      braceDepth++;
+    } else if (char === "}" && braceDepth > 0) {
+      source += ")";
+      braceDepth--;
+    } else if (char === "," && braceDepth > 0) {
+      source += "|";
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  if (braceDepth > 0) {
+    throw new InvalidInputError(`Invalid glob "${pattern}": unclosed "{"`);
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Compiles a glob into a matcher for archive entry names. Like .gitignore, a pattern
+ * without a "/" matches the file name in any directory ("*.css" matches "app/globals.css").
+ *
+ * @param {string} pattern
+ * @returns {(name: string) => boolean}
+ */
+export function compileGlob(pattern) {
+  const regExp = globToRegExp(pattern);
+  if (pattern.includes("/")) {
+    return (name) => regExp.test(name);
+  }
+  return (name) => regExp.test(name) || regExp.test(name.slice(name.lastIndexOf("/") + 1));
+}
+
+/**
+ * Builds the predicate that decides which archive entries are written to disk.
+ * An entry is selected when it matches at least one include pattern (if any are given),
+ * matches no exclude pattern, and — with customFileNames — is a custom file.
+ *
+ * @param {object} [options]
+ * @param {string[]} [options.include]
+ * @param {string[]} [options.exclude]
+ * @param {string[] | null} [options.customFileNames] - Restrict to these names (--custom-only)
+ * @returns {((name: string) => boolean) | null} The predicate, or null when every entry is selected
+ */
+export function createFileSelector({ include = [], exclude = [], customFileNames = null } = {}) {
+  if (include.length === 0 && exclude.length === 0 && customFileNames == null) {
+    return null;
+  }
+  const includeMatchers = include.map(compileGlob);
+  const excludeMatchers = exclude.map(compileGlob);
+  const customSet = customFileNames ? new Set(customFileNames) : null;
+
+  return (name) =>
+    (includeMatchers.length === 0 || includeMatchers.some((match) => match(name))) &&
+    !excludeMatchers.some((match) => match(name)) &&
+    (customSet == null || customSet.has(name));
+}
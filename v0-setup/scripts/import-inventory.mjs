@@ -0,0 +1,145 @@
+import { builtinModules } from "node:module";
+
+const SCRIPT_EXTENSIONS = [".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs"];
+
+const NODE_BUILTINS = new Set(builtinModules);
+
+/**
+ * Whether a file name is JavaScript or TypeScript source whose imports can be inventoried.
+ *
+ * @param {string} name
+ * @returns {boolean}
+ */
+export function isScriptFile(name) {
+  return SCRIPT_EXTENSIONS.some((ext) => name.endsWith(ext)) && !name.endsWith(".d.ts");
+}
+
+// Blanks out comments while leaving string and template literals intact, so commented-out
+// imports are ignored but import specifiers survive.
+function stripComments(source) {
+  let result = "";
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    const next = source[i + 1];
+    if (char === "/" && next === "/") {
+      while (i < source.length && source[i] !== "\n") i++;
+    } else if (char === "/" && next === "*") {
+      const end = source.indexOf("*/", i + 2);
+      i = end === -1 ? source.length : end + 2;
+      result += " ";
+    } else if (char === '"' || char === "'" || char === "`") {
+      // Quotes cannot span lines, which also bounds stray apostrophes in JSX text
+      let j = i + 1;
+      while (j < source.length && source[j] !== char && (char === "`" || source[j] !== "\n")) {
+        if (source[j] === "\\") j++;
+        j++;
+      }
+      result += source.slice(i, j + 1);
+      i = j + 1;
+    } else {
+      result += char;
+      i++;
+    }
+  }
+  return result;
+}
+
+const IMPORT_PATTERNS = [
+  // import x from "y"; import { a } from "y"; import type { T } from "y"; export { a } from "y"; export * from "y"
+  /\b(?:import|export)\s+(?:type\s+)?[\w*{}\s,$]*?\bfrom\s*["']([^"']+)["']/g,
+  // import "y" (side effects only)
+  /\bimport\s*["']([^"']+)["']/g,
+  // import("y"), require("y")
+  /\b(?:import|require)\s*\(\s*["']([^"']+)["']\s*\)/g,
+];
+
+/**
+ * Extracts every module specifier a source file imports: static imports and re-exports,
+ * side-effect imports, dynamic import() and require() with a string literal.
+ *
+ * @param {string} source
+ * @returns {string[]} Unique specifiers in order of first appearance
+ */
+export function parseImports(source) {
+  const code = stripComments(source);
+  const found = [];
+  for (const pattern of IMPORT_PATTERNS) {
+    for (const match of code.matchAll(pattern)) {
+      found.push({ index: match.index, specifier: match[1] });
+    }
+  }
+  found.sort((a, b) => a.index - b.index);
+  return [...new Set(found.map((f) => f.specifier))];
+}
+
+/**
+ * Returns the npm package a bare specifier belongs to ("@scope/pkg/sub" → "@scope/pkg").
+ *
+ * @param {string} specifier
+ * @returns {string}
+ */
+export function packageNameOf(specifier) {
+  const parts = specifier.split("/");
+  return specifier.startsWith("@") ? parts.slice(0, 2).join("/") : parts[0];
+}
+
+/**
+ * Classifies a module specifier.
+ *
+ * @param {string} specifier
+ * @param {{ uiAlias?: string }} [options] - The shadcn ui alias from components.json (default "@/components/ui")
+ * @returns {{ kind: "ui" | "alias" | "package" | "relative" | "builtin", name: string }}
+ */
+export function classifySpecifier(specifier, { uiAlias = "@/components/ui" } = {}) {
+  if (specifier === uiAlias || specifier.startsWith(`${uiAlias}/`)) {
+    return { kind: "ui", name: specifier.slice(uiAlias.length + 1).split("/")[0] };
+  }
+  if (specifier.startsWith("@/") || specifier.startsWith("~/")) {
+    return { kind: "alias", name: specifier };
+  }
+  if (specifier.startsWith(".") || specifier.startsWith("/")) {
+    return { kind: "relative", name: specifier };
+  }
+  if (specifier.startsWith("node:") || NODE_BUILTINS.has(specifier)) {
+    return { kind: "builtin", name: specifier };
+  }
+  return { kind: "package", name: packageNameOf(specifier) };
+}
+
+function addUse(map, key, fileName) {
+  if (!map.has(key)) map.set(key, new Set());
+  map.get(key).add(fileName);
+}
+
+function toSortedList(map) {
+  return [...map.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, files]) => ({ name, importedBy: [...files].sort((a, b) => a.localeCompare(b)) }));
+}
+
+/**
+ * Inventories the imports of a set of source files: shadcn ui components, bare npm packages,
+ * and "@/" alias imports, each with the files that import it. Relative and Node builtin
+ * imports are not listed. Non-script files are skipped.
+ *
+ * @param {Array<{ name: string, content: string }>} files
+ * @param {{ uiAlias?: string }} [options]
+ * @returns {{ uiComponents: Array<{ name: string, importedBy: string[] }>,
+ *   packages: Array<{ name: string, importedBy: string[] }>, aliases: Array<{ name: string, importedBy: string[] }> }}
+ */
+export function buildImportInventory(files, options = {}) {
+  const byKind = { ui: new Map(), package: new Map(), alias: new Map() };
+  for (const file of files) {
+    if (!isScriptFile(file.name) || typeof file.content !== "string") continue;
+    for (const specifier of parseImports(file.content)) {
+      const { kind, name } = classifySpecifier(specifier, options);
+      if (byKind[kind] && name) addUse(byKind[kind], name, file.name);
+    }
+  }
+  return {
+    uiComponents: toSortedList(byKind.ui),
+    packages: toSortedList(byKind.package),
+    aliases: toSortedList(byKind.alias),
+  };
+}
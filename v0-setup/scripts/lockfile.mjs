@@ -0,0 +1,117 @@
+import { join } from "node:path";
+import { DEFAULT_DESIGNS_DIR } from "./config.mjs";
+import { InvalidInputError } from "./errors.mjs";
+
+export const LOCKFILE_NAME = "designs.lock.json";
+export const LOCKFILE_VERSION = 1;
+
+/**
+ * Path of the project-level lockfile: <outputDir>/designs/designs.lock.json.
+ *
+ * @param {string} outputDir
+ * @param {string} [designsDir] - The designs folder, when the project config renames it
+ * @returns {string}
+ */
+export function lockfilePath(outputDir, designsDir = DEFAULT_DESIGNS_DIR) {
+  return join(outputDir, designsDir, LOCKFILE_NAME);
+}
+
+/**
+ * Reads the lockfile, returning an empty one when none exists yet.
+ *
+ * @param {string} outputDir
+ * @param {(path: string, encoding: string) => string} readFileSync
+ * @param {string} [designsDir]
+ * @returns {{ lockfileVersion: number, designs: Record<string, object> }}
+ */
+export function readLockfile(outputDir, readFileSync, designsDir = DEFAULT_DESIGNS_DIR) {
+  const path = lockfilePath(outputDir, designsDir);
+  let raw;
+  try {
+    raw = readFileSync(path, "utf8");
+  } catch (err) {
+    if (err?.code === "ENOENT") return { lockfileVersion: LOCKFILE_VERSION, designs: {} };
+    throw err;
+  }
+
+  let lock;
+  try {
+    lock = JSON.parse(raw);
+  } catch {
+    throw new InvalidInputError(`${path} is not valid JSON — fix the merge conflict or delete it and re-fetch`);
+  }
+  if (lock.lockfileVersion > LOCKFILE_VERSION) {
+    throw new InvalidInputError(
+      `${path} has lockfileVersion ${lock.lockfileVersion}, newer than this script supports (${LOCKFILE_VERSION}) — update v0-setup`,
+    );
+  }
+  return { lockfileVersion: LOCKFILE_VERSION, designs: lock.designs ?? {} };
+}
+
+function sortKeys(record) {
+  return Object.fromEntries(Object.entries(record).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * Writes the lockfile with sorted keys so teammates' fetches produce minimal diffs.
+ *
+ * @param {string} outputDir
+ * @param {{ designs: Record<string, object> }} lock
+ * @param {(path: string, data: string) => void} writeFileSync
+ * @param {string} [designsDir]
+ */
+export function writeLockfile(outputDir, lock, writeFileSync, designsDir = DEFAULT_DESIGNS_DIR) {
+  const designs = sortKeys(lock.designs);
+  writeFileSync(
+    lockfilePath(outputDir, designsDir),
+    `${JSON.stringify({ lockfileVersion: LOCKFILE_VERSION, designs }, null, 2)}\n`,
+  );
+}
+
+/**
+ * Builds a feature's lock entry from its manifest. Only files written to disk are pinned;
+ * the fetch filters are recorded so a replay selects the same files. No timestamps are
+ * stored, so re-fetching a pinned version leaves the entry unchanged.
+ *
+ * @param {object} manifest - The manifest written by runPipeline
+ * @param {{ include?: string[], exclude?: string[], customOnly?: boolean }} [filters]
+ * @returns {{ sourceUrl: string, chatId: string, versionId: string, filters?: object, files: Record<string, string> }}
+ */
+export function buildLockEntry(manifest, filters = {}) {
+  const entry = {
+    sourceUrl: manifest.sourceUrl,
+    chatId: manifest.chatId,
+    versionId: manifest.versionId,
+  };
+  const { include = [], exclude = [], customOnly = false } = filters;
+  if (include.length > 0 || exclude.length > 0 || customOnly) {
+    entry.filters = { include, exclude, customOnly };
+  }
+  const files = {};
+  for (const file of manifest.files) {
+    if (file.written !== false) files[file.name] = file.sha256;
+  }
+  entry.files = sortKeys(files);
+  return entry;
+}
+
+/**
+ * Compares the files a replay produced with the hashes pinned in the lockfile.
+ *
+ * @param {Record<string, string>} lockedFiles - name → sha256 from the lock entry
+ * @param {Record<string, string>} actualFiles - name → sha256 from the replayed fetch
+ * @returns {{ changed: string[], missing: string[], unexpected: string[] }}
+ */
+export function compareLockedFiles(lockedFiles, actualFiles) {
+  const changed = [];
+  const missing = [];
+  for (const [name, sha256] of Object.entries(lockedFiles)) {
+    if (!(name in actualFiles)) {
+      missing.push(name);
+    } else if (actualFiles[name] !== sha256) {
+      changed.push(name);
+    }
+  }
+  const unexpected = Object.keys(actualFiles).filter((name) => !(name in lockedFiles));
+  return { changed, missing, unexpected };
+}
@@ -0,0 +1,207 @@
+import { readFileSync as fsReadFileSync } from "node:fs";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { DEFAULT_DESIGNS_DIR } from "./config.mjs";
+import { InvalidInputError } from "./errors.mjs";
+import { describeFile } from "./file-metadata.mjs";
+
+/**
+ * Current manifest schema version. Bump it together with references/manifest.schema.json
+ * and add a step to MIGRATIONS that upgrades the previous version.
+ *
+ * 1 — unversioned manifests written before schemaVersion existed, including the ones in
+ *     designs/<feature>/ from before output moved to designs/<feature>/v0-source/
+ * 2 — adds schemaVersion and per-file sha256, mimeType and encoding
+ */
+export const MANIFEST_SCHEMA_VERSION = 2;
+
+export const MANIFEST_SCHEMA_PATH = fileURLToPath(new URL("../references/manifest.schema.json", import.meta.url));
+
+/**
+ * Loads the published JSON Schema for manifest.json.
+ *
+ * @returns {object}
+ */
+export function loadManifestSchema() {
+  return JSON.parse(fsReadFileSync(MANIFEST_SCHEMA_PATH, "utf8"));
+}
+
+function typeOf(value) {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function matchesType(value, type) {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+// Validates the JSON Schema subset the manifest schema uses: type, const, enum, required,
+// properties, additionalProperties (boolean), items, minimum, minLength, pattern.
+function checkSchema(value, schema, path, errors) {
+  const at = path || "manifest";
+  if (schema.const !== undefined && value !== schema.const) {
+    errors.push(`${at}: must be ${JSON.stringify(schema.const)}`);
+    return;
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${at}: must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}`);
+    return;
+  }
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      errors.push(`${at}: must be ${types.join(" or ")}, got ${typeOf(value)}`);
+      return;
+    }
+  }
+  if (typeof value === "string") {
+    if (schema.minLength != null && value.length < schema.minLength) {
+      errors.push(`${at}: must not be empty`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${at}: must match ${schema.pattern}`);
+    }
+  }
+  if (typeof value === "number" && schema.minimum != null && value < schema.minimum) {
+    errors.push(`${at}: must be >= ${schema.minimum}`);
+  }
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => {
+      checkSchema(item, schema.items, `${at}[${i}]`, errors);
+    });
+  }
+  if (typeOf(value) === "object") {
+    for (const key of schema.required ?? []) {
+      if (!(key in value)) errors.push(`${at}: missing required property "${key}"`);
+    }
+    for (const [key, child] of Object.entries(value)) {
+      const childSchema = schema.properties?.[key];
+      if (childSchema) {
+        checkSchema(child, childSchema, path ? `${path}.${key}` : key, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${at}: unexpected property "${key}"`);
+      }
+    }
+  }
+}
+
+/**
+ * Validates a parsed manifest against the published schema.
+ *
+ * @param {unknown} manifest
+ * @param {object} [schema] - Defaults to references/manifest.schema.json
+ * @returns {{ valid: boolean, errors: string[] }}
+ */
+export function validateManifest(manifest, schema = loadManifestSchema()) {
+  const errors = [];
+  checkSchema(manifest, schema, "", errors);
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Returns the schema version a manifest was written with. Unversioned manifests are version 1.
+ *
+ * @param {object} manifest
+ * @returns {number}
+ */
+export function getManifestVersion(manifest) {
+  return manifest?.schemaVersion ?? 1;
+}
+
+// Each step upgrades a manifest from version N to N + 1 and returns a new object.
+const MIGRATIONS = {
+  1: (manifest, { designDir, readFileSync }) => {
+    // Very early manifests listed bare file names
+    const files = (manifest.files ?? []).map((entry) => {
+      const file = typeof entry === "string" ? { name: entry } : { ...entry };
+      const upgraded = { name: file.name, size: file.size ?? 0, ...file, isCustom: file.isCustom === true };
+      if (designDir && readFileSync && !upgraded.sha256) {
+        try {
+          const { size, sha256, mimeType, encoding } = describeFile(
+            file.name,
+            readFileSync(join(designDir, file.name)),
+          );
+          Object.assign(upgraded, { size, sha256, mimeType, encoding });
+        } catch {
+          // The file was deleted or moved since the fetch; leave the metadata out
+        }
+      }
+      return upgraded;
+    });
+    const customFileCount = manifest.customFileCount ?? files.filter((f) => f.isCustom).length;
+    return {
+      schemaVersion: 2,
+      ...manifest,
+      customFileCount,
+      defaultFileCount: manifest.defaultFileCount ?? files.length - customFileCount,
+      warnings: manifest.warnings ?? [],
+      files,
+    };
+  },
+};
+
+/**
+ * Upgrades a manifest to MANIFEST_SCHEMA_VERSION, one version at a time. When designDir and
+ * readFileSync are given, file hashes missing from older manifests are computed from disk.
+ *
+ * @param {object} manifest
+ * @param {object} [options]
+ * @param {string} [options.designDir] - Directory the manifest's file names are relative to
+ * @param {(path: string) => Uint8Array} [options.readFileSync]
+ * @returns {{ manifest: object, fromVersion: number, migrated: boolean }}
+ */
+export function migrateManifest(manifest, options = {}) {
+  const fromVersion = getManifestVersion(manifest);
+  if (fromVersion > MANIFEST_SCHEMA_VERSION) {
+    throw new InvalidInputError(
+      `Manifest schemaVersion ${fromVersion} is newer than this script supports (${MANIFEST_SCHEMA_VERSION}) — update v0-setup`,
+    );
+  }
+
+  let current = manifest;
+  for (let version = fromVersion; version < MANIFEST_SCHEMA_VERSION; version++) {
+    current = MIGRATIONS[version](current, options);
+    current.schemaVersion = version + 1;
+  }
+  return { manifest: current, fromVersion, migrated: fromVersion !== MANIFEST_SCHEMA_VERSION };
+}
+
+/**
+ * Finds the manifest of every design under <outputDir>/designs. Designs fetched before output
+ * moved to v0-source/ keep their manifest (and files) directly in designs/<feature>/.
+ *
+ * @param {string} outputDir
+ * @param {{ readdirSync: Function, existsSync: Function }} fs
+ * @param {string} [designsFolder] - The designs folder, when the project config renames it
+ * @returns {Array<{ featureName: string, designDir: string, manifestPath: string, legacyLayout: boolean }>}
+ */
+export function findDesignManifests(outputDir, { readdirSync, existsSync }, designsFolder = DEFAULT_DESIGNS_DIR) {
+  const designsDir = join(outputDir, designsFolder);
+  if (!existsSync(designsDir)) return [];
+
+  const found = [];
+  for (const entry of readdirSync(designsDir, { withFileTypes: true })) {
+    if (!entry.isDirectory()) continue;
+    const featureDir = join(designsDir, entry.name);
+    const sourceDir = join(featureDir, "v0-source");
+    if (existsSync(join(sourceDir, "manifest.json"))) {
+      found.push({
+        featureName: entry.name,
+        designDir: sourceDir,
+        manifestPath: join(sourceDir, "manifest.json"),
+        legacyLayout: false,
+      });
+    } else if (existsSync(join(featureDir, "manifest.json"))) {
+      found.push({
+        featureName: entry.name,
+        designDir: featureDir,
+        manifestPath: join(featureDir, "manifest.json"),
+        legacyLayout: true,
+      });
+    }
+  }
+  return found.sort((a, b) => a.featureName.localeCompare(b.featureName));
+}
@@ -1,5 +1,19 @@
+import { InvalidInputError } from "./errors.mjs";
+import { compileGlob } from "./file-selection.mjs";
+import { checkSyntax } from "./syntax-check.mjs";
+
 const PLACEHOLDER_STRINGS = ["generating"];
 
+const SEVERITIES = ["error", "warning", "off"];
+
+// "// ... rest of component", "{/* ... */}", "// ...existing code...", "// rest of the form". The
+// comment has to be the whole line and hold nothing but a short stub phrase, so explanatory
+// comments such as "// Rest of the items are rendered lazily" don't count
+const ELIDED_CODE =
+  /^[ \t]*\{?[ \t]*(?:\/\/|\/\*)[ \t]*(?:(?:\.{3}|…)[ \t]*(?:[\w-]+[ \t]*){0,5}|(?:the[ \t]+)?rest[ \t]+of[ \t]+(?:the[ \t]+)?[\w-]+(?:[ \t]+[\w-]+)?[ \t]*)(?:\.{3}|…)?[ \t]*(?:\*\/[ \t]*\}?)?[ \t]*$/im;
+
+const TODO_STUB = /\b(?:TODO|FIXME)\b[:\s-]*implement/i;
+
 function isPlaceholderContent(content) {
   if (content == null || typeof content !== "string") return true;
   const trimmed = content.trim();
@@ -7,13 +21,191 @@ function isPlaceholderContent(content) {
   return PLACEHOLDER_STRINGS.includes(trimmed.toLowerCase());
 }
 
+function syntaxRuleTest(kind, prefix) {
+  return (_content, _name, { syntaxIssue }) => {
+    const issue = syntaxIssue();
+    if (issue?.kind !== kind) return false;
+    return {
+      reason: `${prefix} at ${issue.line}:${issue.column}: ${issue.message}`,
+      line: issue.line,
+      column: issue.column,
+    };
+  };
+}
+
+/**
+ * Built-in placeholder rules, checked in order. Each has an id (used in manifest warnings and
+ * to override it from config), a severity, a reason, and a test on the file's text content.
+ * A test may return `{ reason, line, column }` instead of true to report where it fired. Tests
+ * get `(content, name, context)`; `context.syntaxIssue()` parses the file at most once, however
+ * many rules ask.
+ * "error" marks the file unusable; "warning" flags it for review but keeps it.
+ */
+const BUILTIN_PLACEHOLDER_RULES = [
+  {
+    id: "empty",
+    severity: "error",
+    reason: "File content is empty — skipping empty file",
+    test: (content) => content.trim() === "",
+  },
+  {
+    id: "generating",
+    severity: "error",
+    reason: "File content is a GENERATING placeholder — generation may still be in progress",
+    test: (content) => PLACEHOLDER_STRINGS.includes(content.trim().toLowerCase()),
+  },
+  {
+    id: "truncated",
+    severity: "error",
+    reason: "File appears truncated — it ends inside an unclosed bracket, string, comment, or JSX element",
+    test: syntaxRuleTest("truncated", "File appears truncated"),
+  },
+  {
+    id: "syntax-error",
+    severity: "error",
+    reason: "File does not parse",
+    test: syntaxRuleTest("syntax", "File does not parse"),
+  },
+  {
+    id: "elided-code",
+    severity: "error",
+    reason: 'File elides code with a stub comment ("// ... rest of component") instead of the full source',
+    test: (content) => ELIDED_CODE.test(content),
+  },
+  {
+    id: "todo-stub",
+    severity: "warning",
+    reason: 'File contains a "TODO: implement" stub',
+    test: (content) => TODO_STUB.test(content),
+  },
+];
+
+function compileRule(config, builtin) {
+  if (typeof config?.id !== "string" || config.id === "") {
+    throw new InvalidInputError("Placeholder rule is missing an id");
+  }
+  const severity = config.severity ?? builtin?.severity ?? "error";
+  if (!SEVERITIES.includes(severity)) {
+    throw new InvalidInputError(`Placeholder rule "${config.id}": severity must be one of ${SEVERITIES.join(", ")}`);
+  }
+  if (config.pattern == null && !builtin) {
+    throw new InvalidInputError(`Placeholder rule "${config.id}" needs a pattern`);
+  }
+
+  let test = builtin?.test;
+  if (config.pattern != null) {
+    let pattern;
+    try {
+      // A global or sticky pattern would carry lastIndex from one file into the next
+      pattern = new RegExp(config.pattern, (config.flags ?? "").replace(/[gy]/g, ""));
+    } catch (err) {
+      throw new InvalidInputError(`Placeholder rule "${config.id}": invalid pattern — ${err.message}`);
+    }
+    test = (content) => pattern.test(content);
+  }
+  if (config.files) {
+    const matchers = [].concat(config.files).map(compileGlob);
+    const contentTest = test;
+    test = (content, name) => matchers.some((matches) => matches(name)) && contentTest(content, name);
+  }
+
+  return {
+    id: config.id,
+    severity,
+    reason: config.reason ?? builtin?.reason ?? `File matches placeholder rule "${config.id}"`,
+    test,
+  };
+}
+
+/**
+ * Builds the rule registry: the built-in rules plus rules from config. A config rule
+ * `{ id, severity?, reason?, pattern?, flags?, files? }` with a built-in's id overrides that
+ * rule (severity "off" disables it; without a pattern the built-in test is kept); other ids
+ * are added after the built-ins and need a pattern (a regular expression source).
+ *
+ * @param {Array<object>} [configRules]
+ * @returns {Array<{ id: string, severity: string, reason: string,
+ *   test: (content: string, name: string, context: { syntaxIssue: () => object | null }) => boolean | object }>}
+ */
+function createPlaceholderRules(configRules = []) {
+  if (!Array.isArray(configRules)) {
+    throw new InvalidInputError("Placeholder rules config must be an array of rules");
+  }
+  const rules = [...BUILTIN_PLACEHOLDER_RULES];
+  for (const config of configRules) {
+    const index = rules.findIndex((rule) => rule.id === config?.id);
+    const rule = compileRule(config, index === -1 ? null : rules[index]);
+    if (index === -1) rules.push(rule);
+    else rules[index] = rule;
+  }
+  return rules.filter((rule) => rule.severity !== "off");
+}
+
+/**
+ * Reads project placeholder rules from a JSON file: `{ "rules": [...] }` or a bare array.
+ * A missing file yields no rules unless `required` is set.
+ *
+ * @param {string} path
+ * @param {(path: string, encoding: string) => string} readFileSync
+ * @param {{ required?: boolean }} [options]
+ * @returns {Array<object>}
+ */
+function loadPlaceholderRules(path, readFileSync, { required = false } = {}) {
+  let raw;
+  try {
+    raw = readFileSync(path, "utf8");
+  } catch (err) {
+    if (err?.code === "ENOENT" && !required) return [];
+    if (err?.code === "ENOENT") throw new InvalidInputError(`Placeholder rules file not found: ${path}`);
+    throw err;
+  }
+  let config;
+  try {
+    config = JSON.parse(raw);
+  } catch {
+    throw new InvalidInputError(`${path} is not valid JSON`);
+  }
+  return Array.isArray(config) ? config : (config.rules ?? []);
+}
+
+/**
+ * Returns the first rule a text file matches, with the location it fired at when the rule
+ * reports one, or null. Binary files never match.
+ *
+ * @param {{ name: string, content: string | null, encoding?: string }} file
+ * @param {ReturnType<typeof createPlaceholderRules>} [rules]
+ * @returns {{ id: string, severity: string, reason: string, line?: number, column?: number } | null}
+ */
+function findPlaceholderRule(file, rules = BUILTIN_PLACEHOLDER_RULES) {
+  if (file?.encoding === "binary") return null;
+  const content = typeof file?.content === "string" ? file.content : "";
+  const name = file?.name ?? "";
+  // The truncated and syntax-error rules share one parse of the file
+  let syntax;
+  const context = {
+    syntaxIssue() {
+      syntax ??= { issue: checkSyntax(name, content) };
+      return syntax.issue;
+    },
+  };
+  for (const rule of rules) {
+    const result = rule.test(content, name, context);
+    if (!result) continue;
+    const match = { id: rule.id, severity: rule.severity, reason: rule.reason };
+    return typeof result === "object" ? { ...match, ...result } : match;
+  }
+  return null;
+}
+
 function validateFiles(files) {
   const valid = [];
   const placeholders = [];
   if (files == null) return { valid, placeholders };
   for (const file of files) {
     const content = file == null ? null : file.content;
-    if (isPlaceholderContent(content)) {
+    if (file?.encoding === "binary") {
+      valid.push(file);
+    } else if (isPlaceholderContent(content)) {
       placeholders.push(file);
     } else {
       valid.push(file);
@@ -22,4 +214,11 @@ function validateFiles(files) {
   return { valid, placeholders };
 }
 
-export { isPlaceholderContent, validateFiles };
+export {
+  BUILTIN_PLACEHOLDER_RULES,
+  createPlaceholderRules,
+  findPlaceholderRule,
+  isPlaceholderContent,
+  loadPlaceholderRules,
+  validateFiles,
+};
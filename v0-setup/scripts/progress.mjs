@@ -0,0 +1,54 @@
+import { formatBytes } from "./zip-cache.mjs";
+
+/**
+ * Formats zip extraction progress, e.g. "Fetching ver_1: 1.2 MB of 3.4 MB (35%), 12 files".
+ * Without a Content-Length only the bytes read so far are shown.
+ *
+ * @param {string} label
+ * @param {{ bytes: number, totalBytes: number | null, entries: number }} progress - From extractZipStream
+ * @returns {string}
+ */
+export function formatProgress(label, { bytes, totalBytes, entries }) {
+  const files = `${entries} ${entries === 1 ? "file" : "files"}`;
+  if (!totalBytes) return `${label}: ${formatBytes(bytes)}, ${files}`;
+  const percent = Math.min(100, Math.floor((bytes / totalBytes) * 100));
+  return `${label}: ${formatBytes(bytes)} of ${formatBytes(totalBytes)} (${percent}%), ${files}`;
+}
+
+/**
+ * Creates a single terminal line that is rewritten in place. Updates closer together than
+ * intervalMs are dropped so a fast download doesn't flood the terminal; done() prints the
+ * last update and ends the line, so the next update starts a new one. Only meant for a TTY —
+ * the carriage returns would garble a log file.
+ *
+ * @param {{ write: (text: string) => unknown }} stream
+ * @param {{ intervalMs?: number, now?: () => number }} [options]
+ * @returns {{ update: (text: string) => void, done: () => void }}
+ */
+export function createProgressLine(stream, { intervalMs = 100, now = Date.now } = {}) {
+  let lastText = null;
+  let lastWriteAt = null;
+  let shown = false;
+
+  const write = (text) => {
+    // \x1b[K clears what a longer previous line left behind
+    stream.write(`\r${text}\x1b[K`);
+    lastWriteAt = now();
+    shown = true;
+  };
+
+  return {
+    update(text) {
+      lastText = text;
+      shown = false;
+      if (lastWriteAt === null || now() - lastWriteAt >= intervalMs) write(text);
+    },
+    done() {
+      if (lastText === null) return;
+      if (!shown) write(lastText);
+      stream.write("\n");
+      lastText = null;
+      lastWriteAt = null;
+    },
+  };
+}
@@ -0,0 +1,111 @@
+export const DEFAULT_RETRY_POLICY = {
+  maxAttempts: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+  // A Retry-After longer than this is not worth waiting for — the response is returned as-is
+  maxRetryAfterMs: 120_000,
+};
+
+/**
+ * Whether an HTTP status is worth retrying. Only rate limiting (429) and server errors (5xx)
+ * are transient; every other status — notably 401 and 404 — is returned immediately.
+ *
+ * @param {number} status
+ * @returns {boolean}
+ */
+export function isRetryableStatus(status) {
+  return status === 429 || (status >= 500 && status <= 599);
+}
+
+/**
+ * Parses a Retry-After header value, given either as delta-seconds or an HTTP date.
+ *
+ * @param {string | null | undefined} value
+ * @param {number} now - Current time in ms
+ * @returns {number | null} Delay in ms, or null when absent or unparseable
+ */
+export function parseRetryAfter(value, now) {
+  if (value == null || value.trim() === "") return null;
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, date - now);
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay in [0, min(maxDelayMs, baseDelayMs * 2^(attempt-1))).
+ *
+ * @param {number} attempt - The attempt that just failed, starting at 1
+ * @param {{ baseDelayMs: number, maxDelayMs: number }} policy
+ * @param {() => number} random - Returns a number in [0, 1)
+ * @returns {number} Delay in ms
+ */
+export function computeBackoffDelay(attempt, policy, random) {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.floor(random() * ceiling);
+}
+
+const realSleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Wraps a fetch implementation so 429/5xx responses and network errors are retried with
+ * exponential backoff, honoring Retry-After. The clock, sleep, and randomness are injectable
+ * so the policy can be tested without real waiting.
+ *
+ * @param {typeof fetch} fetchImpl
+ * @param {object} [options]
+ * @param {number} [options.maxAttempts] - Total attempts including the first (default 4)
+ * @param {number} [options.baseDelayMs]
+ * @param {number} [options.maxDelayMs]
+ * @param {number} [options.maxRetryAfterMs]
+ * @param {(ms: number) => Promise<void>} [options.sleep]
+ * @param {() => number} [options.random]
+ * @param {() => number} [options.now]
+ * @param {(info: { attempt: number, maxAttempts: number, delayMs: number, reason: string }) => void} [options.onRetry]
+ * @returns {typeof fetch}
+ */
+export function withRetry(fetchImpl, options = {}) {
+  const policy = { ...DEFAULT_RETRY_POLICY };
+  for (const [key, value] of Object.entries(options)) {
+    if (value !== undefined) policy[key] = value;
+  }
+  const { sleep = realSleep, random = Math.random, now = Date.now, onRetry } = policy;
+  const maxAttempts = Math.max(1, Math.floor(policy.maxAttempts));
+
+  return async function fetchWithRetry(url, init) {
+    for (let attempt = 1; ; attempt++) {
+      let response;
+      try {
+        response = await fetchImpl(url, init);
+      } catch (err) {
+        // An aborted request was cancelled on purpose; never retry it
+        if (err?.name === "AbortError" || attempt >= maxAttempts) throw err;
+        const delayMs = computeBackoffDelay(attempt, policy, random);
+        onRetry?.({ attempt, maxAttempts, delayMs, reason: `network error: ${err?.message ?? err}` });
+        await sleep(delayMs);
+        continue;
+      }
+
+      if (response.ok || !isRetryableStatus(response.status) || attempt >= maxAttempts) {
+        return response;
+      }
+
+      const retryAfterMs = parseRetryAfter(response.headers?.get?.("Retry-After"), now());
+      if (retryAfterMs != null && retryAfterMs > policy.maxRetryAfterMs) {
+        return response;
+      }
+      const delayMs = retryAfterMs ?? computeBackoffDelay(attempt, policy, random);
+      onRetry?.({ attempt, maxAttempts, delayMs, reason: `HTTP ${response.status}` });
+      // Release the connection held by the discarded response
+      try {
+        await response.body?.cancel?.();
+      } catch {
+        // body already consumed or not cancellable
+      }
+      await sleep(delayMs);
+    }
+  };
+}
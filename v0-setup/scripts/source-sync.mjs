@@ -0,0 +1,125 @@
+import { join, resolve, sep } from "node:path";
+import { InvalidInputError } from "./errors.mjs";
+
+/**
+ * Reads the manifest left behind by a previous fetch, if there is one.
+ *
+ * @param {string} designDir - The v0-source directory
+ * @param {(path: string, encoding: string) => string} readFileSync
+ * @returns {object | null} The parsed manifest, or null when none exists
+ */
+export function readPreviousManifest(designDir, readFileSync) {
+  let raw;
+  try {
+    raw = readFileSync(join(designDir, "manifest.json"), "utf8");
+  } catch (err) {
+    if (err?.code === "ENOENT") return null;
+    throw err;
+  }
+
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new InvalidInputError(`Existing manifest in ${designDir} is not valid JSON — remove it and re-fetch`);
+  }
+}
+
+/**
+ * Checks whether the file on disk already holds exactly the given bytes.
+ * A missing file is never the same content.
+ *
+ * @param {string} filePath
+ * @param {Uint8Array} data
+ * @param {(path: string) => Uint8Array} readFileSync
+ * @returns {boolean}
+ */
+export function hasSameContent(filePath, data, readFileSync) {
+  let existing;
+  try {
+    existing = readFileSync(filePath);
+  } catch {
+    return false;
+  }
+  if (existing.byteLength !== data.byteLength) return false;
+  for (let i = 0; i < data.byteLength; i++) {
+    if (existing[i] !== data[i]) return false;
+  }
+  return true;
+}
+
+/**
+ * Compares the files the previous fetch put on disk with a freshly extracted file list.
+ * Extracted entries carry a `written` flag that is true when their content differed from disk,
+ * and a `selected` flag that is false when --include/--exclude/--custom-only skipped them.
+ * Files the previous manifest lists with `written: false` were never on disk. A file that was
+ * on disk but is now skipped counts as removed, so its stale copy is deleted. Only files
+ * actually written count as added or modified; a new entry whose bytes were already on disk
+ * is unchanged.
+ *
+ * @param {Array<{name: string, written?: boolean}>} previousFiles - files[] from the previous manifest
+ * @param {Array<{name: string, selected?: boolean, written?: boolean}>} extractedFiles - files from the new version
+ * @returns {{ added: string[], modified: string[], removed: string[], unchanged: string[] }}
+ */
+export function diffAgainstManifest(previousFiles, extractedFiles) {
+  const previousNames = new Set((previousFiles ?? []).filter((f) => f.written !== false).map((f) => f.name));
+  const selectedFiles = extractedFiles.filter((f) => f.selected !== false);
+  const nextNames = new Set(selectedFiles.map((f) => f.name));
+  const added = [];
+  const modified = [];
+  const unchanged = [];
+
+  for (const file of selectedFiles) {
+    if (!previousNames.has(file.name) && file.written !== false) {
+      added.push(file.name);
+    } else if (file.written) {
+      modified.push(file.name);
+    } else {
+      unchanged.push(file.name);
+    }
+  }
+
+  const removed = [...previousNames].filter((name) => !nextNames.has(name));
+
+  return { added, modified, removed, unchanged };
+}
+
+/**
+ * Deletes stale files from the design directory. Only names that resolve inside
+ * designDir are touched, so a tampered manifest cannot delete files elsewhere.
+ *
+ * @param {string} designDir
+ * @param {string[]} names - Relative file names tracked by the previous manifest
+ * @param {(path: string, options: object) => void} rmSync
+ * @returns {string[]} The names that were deleted
+ */
+export function removeStaleFiles(designDir, names, rmSync) {
+  const resolvedDir = resolve(designDir);
+  const deleted = [];
+
+  for (const name of names) {
+    const filePath = resolve(designDir, name);
+    if (!filePath.startsWith(resolvedDir + sep)) {
+      throw new Error(`Refusing to delete "${name}": resolves outside ${designDir}`);
+    }
+    rmSync(filePath, { force: true });
+    deleted.push(name);
+  }
+
+  return deleted;
+}
+
+/**
+ * Formats the added/modified/removed report printed after a sync.
+ *
+ * @param {{ added: string[], modified: string[], removed: string[], unchanged: string[] }} diff
+ * @returns {string}
+ */
+export function formatSyncReport(diff) {
+  const lines = [
+    `Sync: ${diff.added.length} added, ${diff.modified.length} modified, ${diff.removed.length} removed, ${diff.unchanged.length} unchanged`,
+  ];
+  for (const name of diff.added) lines.push(`  + ${name}`);
+  for (const name of diff.modified) lines.push(`  ~ ${name}`);
+  for (const name of diff.removed) lines.push(`  - ${name}`);
+  return lines.join("\n");
+}
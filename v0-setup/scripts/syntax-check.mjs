@@ -0,0 +1,372 @@
+const SCRIPT_FILE = /\.(?:[cm]?js|jsx|ts|tsx)$/;
+const JSX_FILE = /\.(?:[cm]?js|jsx|tsx)$/;
+const CSS_FILE = /\.css$/;
+
+const CLOSERS = { ")": "(", "]": "[", "}": "{" };
+
+// Tokens after which "/" starts a regex and "<" starts JSX rather than being an operator
+const EXPRESSION_START = new Set(["=>", ..."(,=:[!&|?{;+-*%<>~^".split("")]);
+const EXPRESSION_KEYWORDS = new Set([
+  "return",
+  "typeof",
+  "case",
+  "do",
+  "else",
+  "in",
+  "of",
+  "new",
+  "delete",
+  "void",
+  "throw",
+  "yield",
+  "await",
+  "instanceof",
+  "default",
+]);
+
+/**
+ * Whether the syntax checker understands a file type.
+ *
+ * @param {string} name
+ * @returns {boolean}
+ */
+export function isSyntaxCheckable(name) {
+  return SCRIPT_FILE.test(name) || CSS_FILE.test(name);
+}
+
+function locate(source, index) {
+  let line = 1;
+  let lineStart = 0;
+  for (let i = 0; i < index && i < source.length; i++) {
+    if (source[i] === "\n") {
+      line++;
+      lineStart = i + 1;
+    }
+  }
+  return { line, column: index - lineStart + 1 };
+}
+
+function describeFrame(frame) {
+  if (frame.type === "jsx-tag") return `JSX tag <${frame.name}`;
+  if (frame.type === "jsx-children") return `<${frame.name}>`;
+  if (frame.type === "`") return "template literal";
+  return `"${frame.type === "${" ? "${" : frame.type}"`;
+}
+
+class SyntaxIssue extends Error {
+  constructor(kind, message, index) {
+    super(message);
+    this.kind = kind;
+    this.index = index;
+  }
+}
+
+function truncated(message, index) {
+  return new SyntaxIssue("truncated", message, index);
+}
+
+function invalid(message, index) {
+  return new SyntaxIssue("syntax", message, index);
+}
+
+// Index just past a quoted string starting at `start`. Single- and double-quoted JS strings
+// cannot span lines; JSX attribute and CSS strings are scanned the same way but may.
+function scanString(source, start, { multiline = false } = {}) {
+  const quote = source[start];
+  let i = start + 1;
+  while (i < source.length) {
+    const char = source[i];
+    if (char === "\\") {
+      i += 2;
+      continue;
+    }
+    if (char === quote) return i + 1;
+    if (char === "\n" && !multiline) throw invalid("unterminated string literal", start);
+    i++;
+  }
+  throw truncated("unexpected end of input inside a string literal", start);
+}
+
+// Index just past a regex literal starting at `start`, or -1 when it isn't one (a newline
+// before the closing slash means the "/" was division after all)
+function scanRegex(source, start) {
+  let i = start + 1;
+  let inClass = false;
+  while (i < source.length) {
+    const char = source[i];
+    if (char === "\n") return -1;
+    if (char === "\\") {
+      i += 2;
+      continue;
+    }
+    if (char === "[") inClass = true;
+    else if (char === "]") inClass = false;
+    else if (char === "/" && !inClass) {
+      i++;
+      while (i < source.length && /[a-z]/i.test(source[i])) i++;
+      return i;
+    }
+    i++;
+  }
+  return -1;
+}
+
+function readTagName(source, start) {
+  const match = /^[A-Za-z_$][\w$.:-]*/.exec(source.slice(start, start + 200));
+  return match ? match[0] : "";
+}
+
+// Index of the ">" closing the angle brackets opened at `start`, skipping "=>" in function types
+function findClosingAngle(source, start) {
+  let depth = 0;
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+    if (char === "=" && source[i + 1] === ">") i++;
+    else if (char === "<") depth++;
+    else if (char === ">" && --depth === 0) return i;
+    else if (char === ";") return -1;
+  }
+  return -1;
+}
+
+// Index of the ")" closing the parenthesis opened at `start`
+function findClosingParen(source, start) {
+  let depth = 0;
+  for (let i = start; i < source.length; i++) {
+    if (source[i] === "(") depth++;
+    else if (source[i] === ")" && --depth === 0) return i;
+  }
+  return -1;
+}
+
+/**
+ * In a .tsx file a generic arrow function looks like a JSX tag: `<T,>(x: T) => x`,
+ * `<T extends object>(x: T) => x`, or `<T>(x: T) => x`. Returns the index of the ">" that
+ * closes such a type parameter list, or -1 when the "<" at `start` opens JSX.
+ */
+function typeParameterListEnd(source, start) {
+  const head = /^<\s*[A-Za-z_$][\w$]*\s*(,|extends\s)/.exec(source.slice(start, start + 200));
+  const end = findClosingAngle(source, start);
+  if (end === -1) return -1;
+  if (head) return end;
+
+  const paren = /^\s*\(/.exec(source.slice(end + 1));
+  if (!paren) return -1;
+  const close = findClosingParen(source, end + paren[0].length);
+  if (close === -1) return -1;
+  // An optional return type annotation may sit between ")" and "=>"
+  return /^\s*(?::[^;{}]*?)?=>/.test(source.slice(close + 1, close + 201)) ? end : -1;
+}
+
+function checkScript(source, { jsx }) {
+  const stack = [];
+  let prev = null;
+  let i = 0;
+
+  const closeFrame = (char) => {
+    const frame = stack.at(-1);
+    const expected = CLOSERS[char];
+    const matches = frame && (frame.type === expected || (char === "}" && frame.type === "${"));
+    if (!matches) {
+      if (!frame) throw invalid(`unexpected "${char}" with nothing open`, i);
+      const { line, column } = locate(source, frame.index);
+      throw invalid(`unexpected "${char}" — ${describeFrame(frame)} opened at ${line}:${column} is still open`, i);
+    }
+    stack.pop();
+  };
+
+  // Returns where the tag's attributes start; type arguments right after the name, as in
+  // <Select<string> value="a" />, are skipped
+  const openJsxTag = (start) => {
+    const name = readTagName(source, start + 1);
+    stack.push({ type: "jsx-tag", name, index: start });
+    const afterName = start + 1 + name.length;
+    const typeArgsEnd = source[afterName] === "<" ? findClosingAngle(source, afterName) : -1;
+    return typeArgsEnd === -1 ? afterName : typeArgsEnd + 1;
+  };
+
+  while (i < source.length) {
+    const frame = stack.at(-1);
+    const char = source[i];
+    const next = source[i + 1];
+
+    // Template literal text, up to the closing backtick or the next ${
+    if (frame?.type === "`") {
+      if (char === "\\") i += 2;
+      else if (char === "`") {
+        stack.pop();
+        prev = "value";
+        i++;
+      } else if (char === "$" && next === "{") {
+        stack.push({ type: "${", index: i });
+        prev = "{";
+        i += 2;
+      } else i++;
+      continue;
+    }
+
+    // Inside a JSX opening tag: attributes, string values, {expressions}, > or />
+    if (frame?.type === "jsx-tag") {
+      if (char === '"' || char === "'") {
+        i = scanString(source, i, { multiline: true });
+      } else if (char === "{") {
+        stack.push({ type: "{", index: i });
+        prev = "{";
+        i++;
+      } else if (char === "/" && next === ">") {
+        stack.pop();
+        prev = "value";
+        i += 2;
+      } else if (char === ">") {
+        stack.pop();
+        stack.push({ type: "jsx-children", name: frame.name, index: frame.index });
+        i++;
+      } else if (char === "<") {
+        throw invalid(`unexpected "<" inside JSX tag <${frame.name}`, i);
+      } else i++;
+      continue;
+    }
+
+    // JSX children: text, {expressions}, nested elements, and the closing tag
+    if (frame?.type === "jsx-children") {
+      if (char === "{") {
+        stack.push({ type: "{", index: i });
+        prev = "{";
+        i++;
+      } else if (char === "<" && next === "/") {
+        const name = readTagName(source, i + 2);
+        const end = source.indexOf(">", i + 2);
+        if (end === -1) throw truncated(`unexpected end of input inside closing tag </${name}`, i);
+        if (name !== frame.name) {
+          const { line, column } = locate(source, frame.index);
+          throw invalid(
+            `expected </${frame.name}> to close <${frame.name}> from ${line}:${column}, found </${name}>`,
+            i,
+          );
+        }
+        stack.pop();
+        prev = "value";
+        i = end + 1;
+      } else if (char === "<") {
+        i = openJsxTag(i);
+      } else i++;
+      continue;
+    }
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "/" && next === "/") {
+      while (i < source.length && source[i] !== "\n") i++;
+    } else if (char === "/" && next === "*") {
+      const end = source.indexOf("*/", i + 2);
+      if (end === -1) throw truncated("unexpected end of input inside a block comment", i);
+      i = end + 2;
+    } else if (char === '"' || char === "'") {
+      i = scanString(source, i);
+      prev = "value";
+    } else if (char === "`") {
+      stack.push({ type: "`", index: i });
+      i++;
+    } else if (/[A-Za-z_$]/.test(char)) {
+      const start = i;
+      while (i < source.length && /[\w$]/.test(source[i])) i++;
+      const word = source.slice(start, i);
+      prev = EXPRESSION_KEYWORDS.has(word) ? "keyword" : "value";
+    } else if (/[0-9]/.test(char)) {
+      while (i < source.length && /[\w.]/.test(source[i])) i++;
+      prev = "value";
+    } else if (char === "(" || char === "[" || char === "{") {
+      stack.push({ type: char, index: i });
+      prev = char;
+      i++;
+    } else if (char === ")" || char === "]" || char === "}") {
+      closeFrame(char);
+      prev = char === "}" ? "}" : "value";
+      i++;
+    } else {
+      const expressionStart = prev === null || prev === "keyword" || EXPRESSION_START.has(prev);
+      if (char === "/" && expressionStart) {
+        const end = scanRegex(source, i);
+        if (end !== -1) {
+          i = end;
+          prev = "value";
+          continue;
+        }
+      }
+      if (char === "<" && jsx && expressionStart && (next === ">" || /[A-Za-z_$]/.test(next ?? ""))) {
+        const typeParamsEnd = typeParameterListEnd(source, i);
+        if (typeParamsEnd !== -1) {
+          i = typeParamsEnd + 1;
+          prev = "value";
+          continue;
+        }
+        i = openJsxTag(i);
+        continue;
+      }
+      prev = char === "=" && next === ">" ? "=>" : char;
+      i += prev === "=>" ? 2 : 1;
+    }
+  }
+
+  const open = stack.at(-1);
+  if (open) {
+    const { line, column } = locate(source, open.index);
+    throw truncated(`unexpected end of input — ${describeFrame(open)} opened at ${line}:${column} is never closed`, i);
+  }
+}
+
+function checkCss(source) {
+  const stack = [];
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (char === "/" && source[i + 1] === "*") {
+      const end = source.indexOf("*/", i + 2);
+      if (end === -1) throw truncated("unexpected end of input inside a comment", i);
+      i = end + 2;
+    } else if (char === '"' || char === "'") {
+      i = scanString(source, i);
+    } else if (char === "{" || char === "(" || char === "[") {
+      stack.push({ type: char, index: i });
+      i++;
+    } else if (char === "}" || char === ")" || char === "]") {
+      const frame = stack.at(-1);
+      if (!frame) throw invalid(`unexpected "${char}" with nothing open`, i);
+      if (frame.type !== CLOSERS[char]) {
+        const { line, column } = locate(source, frame.index);
+        throw invalid(`unexpected "${char}" — "${frame.type}" opened at ${line}:${column} is still open`, i);
+      }
+      stack.pop();
+      i++;
+    } else i++;
+  }
+
+  const open = stack.at(-1);
+  if (open) {
+    const { line, column } = locate(source, open.index);
+    throw truncated(`unexpected end of input — "${open.type}" opened at ${line}:${column} is never closed`, i);
+  }
+}
+
+/**
+ * Checks that a JS/TS/JSX/TSX or CSS file is structurally complete: strings, comments, and
+ * template literals are terminated, brackets balance, and JSX elements close in order.
+ * This is a tokenizer-level check, not a full parse — it catches files v0 cut off halfway
+ * without needing a compiler. Unsupported file types always pass.
+ *
+ * @param {string} name
+ * @param {string} content
+ * @returns {{ kind: "truncated" | "syntax", message: string, line: number, column: number } | null}
+ *   "truncated" when the file ends with something still open; "syntax" for anything else
+ */
+export function checkSyntax(name, content) {
+  if (typeof content !== "string" || !isSyntaxCheckable(name)) return null;
+  try {
+    if (CSS_FILE.test(name)) checkCss(content);
+    else checkScript(content, { jsx: JSX_FILE.test(name) });
+    return null;
+  } catch (err) {
+    if (!(err instanceof SyntaxIssue)) throw err;
+    return { kind: err.kind, message: err.message, ...locate(content, err.index) };
+  }
+}
@@ -0,0 +1,220 @@
+export const THEME_SCOPES = ["root", "dark", "theme"];
+
+// Where globals.css usually lives, relative to the v0 source or project root
+export const GLOBALS_CSS_CANDIDATES = [
+  "app/globals.css",
+  "src/app/globals.css",
+  "styles/globals.css",
+  "src/styles/globals.css",
+];
+
+// Tailwind utilities that take a color, e.g. bg-primary, hover:text-muted-foreground/80
+const COLOR_UTILITY =
+  /^(?:bg|text|border(?:-[trblxyse])?|ring(?:-offset)?|outline|fill|stroke|from|via|to|divide|placeholder|accent|caret|decoration|shadow)-([a-z][a-z0-9-]*)(?:\/[\w.]+)?$/;
+
+const VAR_REFERENCE = /var\(\s*--([\w-]+)/g;
+
+function emptyTokens() {
+  return { root: {}, dark: {}, theme: {} };
+}
+
+// Classifies a block by its prelude. Blocks that aren't :root, .dark, or @theme get null so
+// their declarations are ignored; a dark-mode media query makes nested :root blocks dark.
+function scopeOf(prelude, parentScope) {
+  if (prelude.startsWith("@theme")) return "theme";
+  if (prelude.startsWith("@media")) return /dark/.test(prelude) ? "dark-media" : null;
+  if (prelude.startsWith("@")) return parentScope === "dark-media" ? "dark-media" : null;
+  const selectors = prelude.split(",").map((s) => s.trim());
+  if (selectors.some((s) => s.includes(".dark") || /\[data-theme=["']?dark/.test(s))) return "dark";
+  if (selectors.some((s) => s === ":root" || s === "html" || s === ":host")) {
+    return parentScope === "dark-media" ? "dark" : "root";
+  }
+  return null;
+}
+
+function normalizeValue(value) {
+  return value.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Extracts the custom properties a stylesheet defines in `:root`, `.dark`, and `@theme`
+ * blocks, including blocks nested in `@layer`. Values are whitespace-collapsed and
+ * lowercased so formatting differences don't count as changes.
+ *
+ * @param {string} css
+ * @returns {{ root: Record<string, string>, dark: Record<string, string>, theme: Record<string, string> }}
+ */
+export function parseThemeTokens(css) {
+  const tokens = emptyTokens();
+  const source = css.replace(/\/\*[\s\S]*?\*\//g, "");
+  const stack = [];
+  let buffer = "";
+
+  const flush = () => {
+    const scope = stack.at(-1);
+    const match = buffer.match(/^\s*(--[\w-]+)\s*:([\s\S]*)$/);
+    if (match && THEME_SCOPES.includes(scope)) {
+      tokens[scope][match[1]] = normalizeValue(match[2]);
+    }
+    buffer = "";
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === '"' || char === "'") {
+      const end = source.indexOf(char, i + 1);
+      const stop = end === -1 ? source.length - 1 : end;
+      buffer += source.slice(i, stop + 1);
+      i = stop;
+    } else if (char === "{") {
+      stack.push(scopeOf(buffer.trim(), stack.at(-1)));
+      buffer = "";
+    } else if (char === "}") {
+      flush();
+      stack.pop();
+    } else if (char === ";") {
+      flush();
+    } else {
+      buffer += char;
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Compares the tokens v0 defines with the project's, scope by scope. A variable v0 defines
+ * that the project lacks counts as renamed when exactly one project-only variable in the same
+ * scope has the same value (e.g. v0's `--sidebar-background` vs the project's `--sidebar`).
+ *
+ * @param {ReturnType<typeof parseThemeTokens>} v0Tokens
+ * @param {ReturnType<typeof parseThemeTokens>} projectTokens
+ * @returns {{ missing: Array<{ scope: string, name: string, value: string }>,
+ *   renamed: Array<{ scope: string, from: string, to: string, value: string }>,
+ *   different: Array<{ scope: string, name: string, v0: string, project: string }> }}
+ */
+export function compareThemeTokens(v0Tokens, projectTokens) {
+  const missing = [];
+  const renamed = [];
+  const different = [];
+
+  for (const scope of THEME_SCOPES) {
+    const v0Scope = v0Tokens[scope] ?? {};
+    const projectScope = projectTokens[scope] ?? {};
+    const projectOnly = Object.keys(projectScope).filter((name) => !(name in v0Scope));
+    const claimed = new Set();
+
+    for (const [name, value] of Object.entries(v0Scope)) {
+      if (name in projectScope) {
+        if (projectScope[name] !== value) {
+          different.push({ scope, name, v0: value, project: projectScope[name] });
+        }
+        continue;
+      }
+      const candidates = projectOnly.filter((other) => projectScope[other] === value && !claimed.has(other));
+      if (candidates.length === 1) {
+        claimed.add(candidates[0]);
+        renamed.push({ scope, from: name, to: candidates[0], value });
+      } else {
+        missing.push({ scope, name, value });
+      }
+    }
+  }
+
+  return { missing, renamed, different };
+}
+
+/**
+ * Names of the color tokens a stylesheet makes available to Tailwind utilities:
+ * `--color-<name>` in `@theme`, and every `--<name>` in `:root` or `.dark`.
+ *
+ * @param {ReturnType<typeof parseThemeTokens>} tokens
+ * @returns {Set<string>}
+ */
+export function colorTokenNames(tokens) {
+  const names = new Set();
+  for (const name of Object.keys(tokens.theme)) {
+    if (name.startsWith("--color-")) names.add(name.slice("--color-".length));
+  }
+  for (const scope of ["root", "dark"]) {
+    for (const name of Object.keys(tokens[scope])) names.add(name.slice(2));
+  }
+  return names;
+}
+
+/**
+ * Collects the color tokens source files reference, from Tailwind color utilities
+ * (`bg-primary`, `hover:text-muted-foreground/80`) and `var(--…)` references.
+ * Candidates are not checked against any palette; callers intersect them with the
+ * tokens v0 defines.
+ *
+ * @param {Array<{ name: string, content: string }>} files
+ * @returns {Map<string, Set<string>>} token name → names of files that use it
+ */
+export function collectTokenUsage(files) {
+  const usage = new Map();
+  const use = (token, fileName) => {
+    if (!usage.has(token)) usage.set(token, new Set());
+    usage.get(token).add(fileName);
+  };
+
+  for (const file of files) {
+    if (typeof file.content !== "string") continue;
+    for (const word of file.content.split(/[\s"'`{}()]+/)) {
+      const utility = word
+        .split(":")
+        .at(-1)
+        .replace(/^[!-]+/, "");
+      const match = utility.match(COLOR_UTILITY);
+      if (match) use(match[1], file.name);
+    }
+    for (const match of file.content.matchAll(VAR_REFERENCE)) {
+      use(match[1].replace(/^color-/, ""), file.name);
+    }
+  }
+  return usage;
+}
+
+/**
+ * Compares v0's globals.css with the project's and lists the color tokens v0 components use
+ * that the project does not define.
+ *
+ * @param {object} params
+ * @param {string | null} params.v0Css - v0's globals.css, or null when it wasn't fetched
+ * @param {string | null} params.projectCss - The project's globals.css, or null when it has none
+ * @param {Array<{ name: string, content: string }>} [params.files] - The design's custom files
+ * @returns {{ missing: object[], renamed: object[], different: object[],
+ *   undefinedTokens: Array<{ name: string, usedBy: string[] }> }}
+ */
+export function analyzeThemeTokens({ v0Css, projectCss, files = [] }) {
+  const v0Tokens = v0Css == null ? emptyTokens() : parseThemeTokens(v0Css);
+  const projectTokens = projectCss == null ? emptyTokens() : parseThemeTokens(projectCss);
+  const comparison = compareThemeTokens(v0Tokens, projectTokens);
+
+  const v0Names = colorTokenNames(v0Tokens);
+  const projectNames = colorTokenNames(projectTokens);
+  const undefinedTokens = [...collectTokenUsage(files)]
+    .filter(([name]) => v0Names.has(name) && !projectNames.has(name))
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, usedBy]) => ({ name, usedBy: [...usedBy].sort((a, b) => a.localeCompare(b)) }));
+
+  return { ...comparison, undefinedTokens };
+}
+
+/**
+ * Formats the theme lines of the `brief` summary.
+ *
+ * @param {{ v0Css: string | null, projectCss: string | null, missing: object[], renamed: object[],
+ *   different: object[], undefinedTokens: Array<{ name: string }> }} theme
+ * @returns {string[]}
+ */
+export function formatThemeSummary(theme) {
+  if (!theme.v0Css) return ["  theme: v0 globals.css not fetched — skipped token comparison"];
+  if (!theme.projectCss) return ["  theme: project globals.css not found — every v0 token is missing"];
+  const lines = [
+    `  theme: ${theme.missing.length} tokens missing, ${theme.renamed.length} renamed, ${theme.different.length} different`,
+  ];
+  if (theme.undefinedTokens.length > 0) {
+    lines.push(`  color tokens used but undefined: ${theme.undefinedTokens.map((t) => t.name).join(", ")}`);
+  }
+  return lines;
+}
@@ -0,0 +1,80 @@
+/** A chat version as listed by the v0 API. */
+export interface V0Version {
+  id: string;
+  status: "pending" | "generating" | "completed" | "failed" | (string & {});
+  createdAt: string;
+  demoUrl?: string | null;
+  [key: string]: unknown;
+}
+
+/** A custom file from the version-detail endpoint, with the content it returns inline. */
+export interface V0VersionFile {
+  name: string;
+  /** Null when the API sent no text; can lag behind the zip (e.g. still "GENERATING"). */
+  content: string | null;
+}
+
+/** The version-detail response, with default files left out. */
+export interface V0VersionDetail extends Partial<V0Version> {
+  files: V0VersionFile[];
+}
+
+export interface V0ChatMessage {
+  role?: string;
+  content?: string;
+  createdAt?: string;
+  [key: string]: unknown;
+}
+
+/** The chat detail response as the API sends it; see normalizeChatMetadata for the fields kept. */
+export interface V0Chat {
+  id?: string;
+  title?: string | null;
+  name?: string | null;
+  createdAt?: string | null;
+  updatedAt?: string | null;
+  demo?: string | null;
+  demoUrl?: string | null;
+  webUrl?: string | null;
+  url?: string | null;
+  latestVersion?: { demoUrl?: string | null; [key: string]: unknown } | null;
+  messages?: V0ChatMessage[];
+  [key: string]: unknown;
+}
+
+export interface V0VersionList {
+  /** Newest first. */
+  versions: V0Version[];
+  /** The slug or the hash ID — whichever the API answered to. */
+  resolvedChatId: string;
+}
+
+/** A version's zip archive as it arrives over the network. */
+export interface V0VersionStream {
+  body: AsyncIterable<Uint8Array>;
+  /** From Content-Length; null when the server didn't send one. */
+  size: number | null;
+}
+
+export interface V0ClientOptions {
+  apiKey: string;
+  /** Defaults to https://api.v0.dev/v1. */
+  baseUrl?: string;
+  /** Defaults to the global fetch. */
+  fetch?: typeof fetch;
+  /** Aborts every request made through the client. */
+  signal?: AbortSignal;
+}
+
+export interface V0Client {
+  /** Every version of a chat across all pages, trying the slug first and the hash ID on a 404. */
+  listVersions(slug: string, hashId?: string): Promise<V0VersionList>;
+  getVersion(chatId: string, versionId: string): Promise<V0VersionDetail>;
+  /** The version's zip archive. */
+  downloadVersion(chatId: string, versionId: string): Promise<ArrayBuffer>;
+  /** The version's zip archive, read chunk by chunk instead of buffered. */
+  streamVersion(chatId: string, versionId: string): Promise<V0VersionStream>;
+  getChat(chatId: string): Promise<V0Chat>;
+}
+
+export function createV0Client(options: V0ClientOptions): V0Client;
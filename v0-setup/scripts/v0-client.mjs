@@ -0,0 +1,125 @@
+import { DEFAULT_V0_API_BASE } from "./config.mjs";
+import { httpError } from "./errors.mjs";
+
+/**
+ * Creates a client for the v0 Platform API. Every request goes to `baseUrl` with the bearer
+ * token and the abort signal, and a failed response becomes the typed error for its status
+ * (see httpError). The transport is whatever `fetch` is passed in — withRetry-wrapped in the
+ * CLI, a mock in tests. Types are declared in v0-client.d.mts.
+ *
+ * @param {object} options
+ * @param {string} options.apiKey
+ * @param {string} [options.baseUrl] - Defaults to DEFAULT_V0_API_BASE
+ * @param {typeof fetch} [options.fetch] - Defaults to the global fetch
+ * @param {AbortSignal} [options.signal] - Aborts every request made through the client
+ * @returns {import("./v0-client.d.mts").V0Client}
+ */
+export function createV0Client({ apiKey, baseUrl = DEFAULT_V0_API_BASE, fetch: fetchImpl = globalThis.fetch, signal }) {
+  const base = baseUrl.replace(/\/+$/, "");
+
+  function request(path, extraHeaders = {}) {
+    const headers = { Authorization: `Bearer ${apiKey}`, ...extraHeaders };
+    return fetchImpl(`${base}${path}`, signal ? { headers, signal } : { headers });
+  }
+
+  async function requestOk(path, describeFailure, extraHeaders) {
+    const response = await request(path, extraHeaders);
+    if (!response.ok) throw httpError(response.status, describeFailure(response));
+    return response;
+  }
+
+  // The slug from a v0 URL ("my-chat-Abc123") usually works, but some chats only answer to
+  // their hash ID, so a 404 on the slug is retried once with the hash
+  async function requestChat(slug, hashId, buildPath) {
+    const slugResponse = await request(buildPath(slug));
+    if (slugResponse.ok) return { response: slugResponse, resolvedChatId: slug };
+    if (slugResponse.status !== 404) {
+      throw httpError(slugResponse.status, `Request failed with status ${slugResponse.status} for slug ${slug}`);
+    }
+
+    const hashResponse = await request(buildPath(hashId));
+    if (hashResponse.ok) return { response: hashResponse, resolvedChatId: hashId };
+    throw httpError(hashResponse.status, `Request failed with status ${hashResponse.status} for hashId ${hashId}`);
+  }
+
+  function requestZip(chatId, versionId) {
+    return requestOk(
+      `/chats/${chatId}/versions/${versionId}/download`,
+      ({ status, statusText }) => {
+        if (status === 401) return `Unauthorized: failed to download zip (status ${status})`;
+        if (status === 404) return `Not found: version or chat not found (status ${status})`;
+        return `Failed to download zip: HTTP ${status} ${statusText}`;
+      },
+      { Accept: "application/zip" },
+    );
+  }
+
+  return {
+    async listVersions(slug, hashId = slug) {
+      if (slug == null) {
+        throw new Error("listVersions: slug must be a string");
+      }
+      const versionsPath = (id, cursor) => {
+        const params = new URLSearchParams({ limit: "100" });
+        if (cursor) params.set("cursor", cursor);
+        return `/chats/${id}/versions?${params}`;
+      };
+
+      const first = await requestChat(slug, hashId, (id) => versionsPath(id, null));
+      const { resolvedChatId } = first;
+      const versions = [];
+      let data = await first.response.json();
+      while (true) {
+        if (Array.isArray(data.versions)) versions.push(...data.versions);
+        if (!data.cursor) break;
+        // Later pages use the chat ID that answered the first one
+        const response = await requestOk(
+          versionsPath(resolvedChatId, data.cursor),
+          ({ status }) => `Pagination request failed with status ${status}`,
+        );
+        data = await response.json();
+      }
+
+      // Newest first
+      versions.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+      return { versions, resolvedChatId };
+    },
+
+    async getVersion(chatId, versionId) {
+      if (chatId == null) {
+        throw new Error("getVersion: chatId must be a string");
+      }
+      const response = await requestOk(
+        `/chats/${chatId}/versions/${versionId}?includeDefaultFiles=false`,
+        ({ status }) => `HTTP error ${status} fetching version files for ${versionId}`,
+      );
+      const data = await response.json();
+      const files = (data.files ?? [])
+        .filter((f) => (f.name ?? f.path) != null)
+        .map((f) => ({ name: f.name ?? f.path, content: typeof f.content === "string" ? f.content : null }));
+      return { ...data, files };
+    },
+
+    async downloadVersion(chatId, versionId) {
+      const response = await requestZip(chatId, versionId);
+      return response.arrayBuffer();
+    },
+
+    async streamVersion(chatId, versionId) {
+      const response = await requestZip(chatId, versionId);
+      const length = Number.parseInt(response.headers.get("content-length") ?? "", 10);
+      return { body: response.body, size: Number.isFinite(length) ? length : null };
+    },
+
+    async getChat(chatId) {
+      if (chatId == null) {
+        throw new Error("getChat: chatId must be a string");
+      }
+      const response = await requestOk(
+        `/chats/${chatId}`,
+        ({ status }) => `HTTP error ${status} fetching chat metadata`,
+      );
+      return response.json();
+    },
+  };
+}
@@ -0,0 +1,103 @@
+import { join } from "node:path";
+import { sha256Hex } from "./file-metadata.mjs";
+
+/**
+ * Lists every file under a directory as forward-slash paths relative to it, matching
+ * the entry names in a version zip.
+ *
+ * @param {string} dir
+ * @param {(path: string, options: object) => Array<{ name: string, isDirectory: () => boolean }>} readdirSync
+ * @returns {string[]}
+ */
+export function listFilesRecursive(dir, readdirSync) {
+  const names = [];
+  const walk = (relativeDir) => {
+    for (const entry of readdirSync(join(dir, relativeDir), { withFileTypes: true })) {
+      const name = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        walk(name);
+      } else {
+        names.push(name);
+      }
+    }
+  };
+  walk("");
+  return names.sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Re-hashes the files a manifest tracks and compares them with what was fetched.
+ * Entries marked `written: false` were skipped by the fetch filters and are not expected
+ * on disk. Files whose manifest entry has no sha256 (migrated from a manifest written before
+ * hashes were recorded, with the file already gone) are reported as unverified.
+ * Untracked files are only looked for when readdirSync is given.
+ *
+ * @param {string} designDir - The v0-source directory
+ * @param {{ files: Array<{ name: string, sha256?: string, written?: boolean }> }} manifest
+ * @param {object} fs
+ * @param {(path: string) => Uint8Array} fs.readFileSync
+ * @param {Function} [fs.readdirSync]
+ * @returns {{ modified: string[], deleted: string[], added: string[], unverified: string[], unchanged: string[] }}
+ */
+export function verifyDesign(designDir, manifest, { readFileSync, readdirSync }) {
+  const modified = [];
+  const deleted = [];
+  const unverified = [];
+  const unchanged = [];
+  const tracked = new Set(["manifest.json"]);
+
+  for (const file of manifest.files ?? []) {
+    if (file.written === false) continue;
+    tracked.add(file.name);
+    let data;
+    try {
+      data = readFileSync(join(designDir, file.name));
+    } catch (err) {
+      if (err?.code !== "ENOENT") throw err;
+      deleted.push(file.name);
+      continue;
+    }
+    if (!file.sha256) {
+      unverified.push(file.name);
+    } else if (sha256Hex(data) !== file.sha256) {
+      modified.push(file.name);
+    } else {
+      unchanged.push(file.name);
+    }
+  }
+
+  const added = readdirSync ? listFilesRecursive(designDir, readdirSync).filter((name) => !tracked.has(name)) : [];
+
+  return { modified, deleted, added, unverified, unchanged };
+}
+
+/**
+ * Whether a verify result shows the folder no longer matches its fetch.
+ *
+ * @param {{ modified: string[], deleted: string[], added: string[] }} result
+ * @returns {boolean}
+ */
+export function hasDrifted(result) {
+  return result.modified.length > 0 || result.deleted.length > 0 || result.added.length > 0;
+}
+
+/**
+ * Formats the report printed by `verify <feature>`.
+ *
+ * @param {string} featureName
+ * @param {{ modified: string[], deleted: string[], added: string[], unverified: string[], unchanged: string[] }} result
+ * @returns {string}
+ */
+export function formatVerifyReport(featureName, result) {
+  const lines = [
+    `${featureName}: ${result.modified.length} modified, ${result.deleted.length} deleted, ${result.added.length} added, ${result.unchanged.length} unchanged`,
+  ];
+  for (const name of result.modified) lines.push(`  ~ ${name}`);
+  for (const name of result.deleted) lines.push(`  - ${name}`);
+  for (const name of result.added) lines.push(`  + ${name}`);
+  if (result.unverified.length > 0) {
+    lines.push(`  ${result.unverified.length} files have no recorded hash and could not be checked`);
+  }
+  lines.push(hasDrifted(result) ? "v0-source has drifted from the fetched version" : "v0-source matches the fetch");
+  return lines.join("\n");
+}
@@ -0,0 +1,111 @@
+import { findPlaceholderRule } from "./placeholder-detection.mjs";
+
+// Version-detail requests in flight at once for --list-versions --details
+export const DEFAULT_DETAILS_CONCURRENCY = 4;
+
+/**
+ * Maps over items with at most `limit` calls of `fn` pending at a time. Results keep the
+ * order of `items`; the first rejection rejects the whole call.
+ *
+ * @template T, R
+ * @param {T[]} items
+ * @param {number} limit
+ * @param {(item: T, index: number) => Promise<R>} fn
+ * @returns {Promise<R[]>}
+ */
+export async function mapWithConcurrency(items, limit, fn) {
+  const results = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker);
+  await Promise.all(workers);
+  return results;
+}
+
+/**
+ * Summarizes each version's custom files from the version-detail endpoint: how many there
+ * are, which were added or changed since the next older version in the list, which were
+ * removed, and which match an error- or warning-severity placeholder rule. A version whose
+ * detail request fails gets an `error` instead, so one bad version doesn't hide the rest.
+ *
+ * @param {Array<{ id: string }>} versions - Newest first, as fetchVersionList returns them
+ * @param {(versionId: string) => Promise<Array<{ name: string, content: string | null }>>} fetchFiles
+ * @param {object} [options]
+ * @param {number} [options.concurrency]
+ * @param {Array<object>} [options.rules] - Placeholder rules (see createPlaceholderRules)
+ * @returns {Promise<Map<string, { customFileCount: number, changed: string[] | null, removed: string[],
+ *   placeholders: Array<{ name: string, ruleId: string }> } | { error: string }>>}
+ *   `changed` is null when there is no older version to compare against
+ */
+export async function buildVersionDetails(
+  versions,
+  fetchFiles,
+  { concurrency = DEFAULT_DETAILS_CONCURRENCY, rules } = {},
+) {
+  const fileLists = await mapWithConcurrency(versions, concurrency, async (version) => {
+    try {
+      return await fetchFiles(version.id);
+    } catch (err) {
+      return { error: err.message };
+    }
+  });
+
+  const details = new Map();
+  versions.forEach((version, i) => {
+    const files = fileLists[i];
+    if (!Array.isArray(files)) {
+      details.set(version.id, files);
+      return;
+    }
+
+    // Compared with the next older version; null when it is the oldest or its details failed
+    const older = i + 1 < versions.length && Array.isArray(fileLists[i + 1]) ? fileLists[i + 1] : null;
+    let changed = null;
+    let removed = [];
+    if (older) {
+      const olderContent = new Map(older.map((f) => [f.name, f.content]));
+      const names = new Set(files.map((f) => f.name));
+      changed = files
+        .filter((f) => !olderContent.has(f.name) || olderContent.get(f.name) !== f.content)
+        .map((f) => f.name);
+      removed = older.filter((f) => !names.has(f.name)).map((f) => f.name);
+    }
+
+    const placeholders = [];
+    for (const file of files) {
+      if (file.content == null) continue;
+      const rule = findPlaceholderRule(file, rules);
+      if (rule) placeholders.push({ name: file.name, ruleId: rule.id });
+    }
+
+    details.set(version.id, { customFileCount: files.length, changed, removed, placeholders });
+  });
+  return details;
+}
+
+/**
+ * Formats the detail line printed under a version in `--list-versions --details`.
+ *
+ * @param {{ customFileCount: number, changed: string[] | null, removed: string[],
+ *   placeholders: Array<{ name: string, ruleId: string }> } | { error: string }} detail
+ * @returns {string}
+ */
+export function formatVersionDetail(detail) {
+  if (detail.error) return `details unavailable: ${detail.error}`;
+  const parts = [`${detail.customFileCount} custom files`];
+  if (detail.changed === null) {
+    parts.push("nothing older to compare");
+  } else {
+    parts.push(detail.changed.length > 0 ? `changed: ${detail.changed.join(", ")}` : "no changes");
+    if (detail.removed.length > 0) parts.push(`removed: ${detail.removed.join(", ")}`);
+  }
+  if (detail.placeholders.length > 0) {
+    parts.push(`placeholders: ${detail.placeholders.map((p) => `${p.name} [${p.ruleId}]`).join(", ")}`);
+  }
+  return parts.join(" · ");
+}
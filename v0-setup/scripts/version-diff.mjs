@@ -0,0 +1,263 @@
+const DEFAULT_CONTEXT_LINES = 3;
+
+// Past this many edit steps the diff is reported as a full replacement instead of
+// walking the Myers trace, which grows with (edit distance × file length).
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * Computes a line diff between two arrays of lines using the Myers algorithm.
+ *
+ * @param {string[]} aLines
+ * @param {string[]} bLines
+ * @returns {Array<{type: " " | "-" | "+", line: string}>} Edit script in order
+ */
+export function diffLines(aLines, bLines) {
+  // Common prefix and suffix never take part in the edit script
+  let start = 0;
+  while (start < aLines.length && start < bLines.length && aLines[start] === bLines[start]) start++;
+  let endA = aLines.length;
+  let endB = bLines.length;
+  while (endA > start && endB > start && aLines[endA - 1] === bLines[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const prefix = aLines.slice(0, start).map((line) => ({ type: " ", line }));
+  const suffix = aLines.slice(endA).map((line) => ({ type: " ", line }));
+  const a = aLines.slice(start, endA);
+  const b = bLines.slice(start, endB);
+
+  return [...prefix, ...myers(a, b), ...suffix];
+}
+
+function myers(a, b) {
+  const n = a.length;
+  const m = b.length;
+  if (n === 0 && m === 0) return [];
+  if (n === 0) return b.map((line) => ({ type: "+", line }));
+  if (m === 0) return a.map((line) => ({ type: "-", line }));
+
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Array(2 * offset + 1).fill(0);
+  const trace = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x;
+      if (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) {
+        x = v[offset + k + 1];
+      } else {
+        x = v[offset + k - 1] + 1;
+      }
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        return backtrack(trace, a, b, offset);
+      }
+    }
+  }
+
+  return [...a.map((line) => ({ type: "-", line })), ...b.map((line) => ({ type: "+", line }))];
+}
+
+function backtrack(trace, a, b, offset) {
+  const ops = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = v[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: " ", line: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push({ type: "+", line: b[y - 1] });
+      } else {
+        ops.push({ type: "-", line: a[x - 1] });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return ops.reverse();
+}
+
+function splitLines(text) {
+  if (text === "") return [];
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/**
+ * Formats a unified diff for one file. Pass null for oldText/newText when the file
+ * was added or removed.
+ *
+ * @param {string} name
+ * @param {string | null} oldText
+ * @param {string | null} newText
+ * @param {{ context?: number }} [options]
+ * @returns {string} The diff, or an empty string when the contents are identical
+ */
+export function formatUnifiedDiff(name, oldText, newText, options = {}) {
+  const context = options.context ?? DEFAULT_CONTEXT_LINES;
+  if (oldText === newText) return "";
+
+  const ops = diffLines(splitLines(oldText ?? ""), splitLines(newText ?? ""));
+  const lines = [
+    oldText === null ? "--- /dev/null" : `--- a/${name}`,
+    newText === null ? "+++ /dev/null" : `+++ b/${name}`,
+  ];
+
+  // Positions (in ops) of changed lines, grouped into hunks that share context
+  const changed = [];
+  for (let i = 0; i < ops.length; i++) {
+    if (ops[i].type !== " ") changed.push(i);
+  }
+  if (changed.length === 0) return "";
+
+  const hunks = [];
+  let hunkStart = Math.max(0, changed[0] - context);
+  let hunkEnd = Math.min(ops.length, changed[0] + context + 1);
+  for (const index of changed.slice(1)) {
+    if (index - context <= hunkEnd) {
+      hunkEnd = Math.min(ops.length, index + context + 1);
+    } else {
+      hunks.push([hunkStart, hunkEnd]);
+      hunkStart = Math.max(0, index - context);
+      hunkEnd = Math.min(ops.length, index + context + 1);
+    }
+  }
+  hunks.push([hunkStart, hunkEnd]);
+
+  for (const [startIdx, endIdx] of hunks) {
+    let oldLine = 1;
+    let newLine = 1;
+    for (let i = 0; i < startIdx; i++) {
+      if (ops[i].type !== "+") oldLine++;
+      if (ops[i].type !== "-") newLine++;
+    }
+    const body = ops.slice(startIdx, endIdx);
+    const oldCount = body.filter((op) => op.type !== "+").length;
+    const newCount = body.filter((op) => op.type !== "-").length;
+    lines.push(
+      `@@ -${oldCount === 0 ? oldLine - 1 : oldLine},${oldCount} +${newCount === 0 ? newLine - 1 : newLine},${newCount} @@`,
+    );
+    for (const op of body) {
+      lines.push(`${op.type}${op.line}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+// Files are compared by hash when one is available, so binary files (content: null) compare correctly
+const identityOf = (f) => f.sha256 ?? f.content;
+
+/**
+ * Compares two in-memory file sets by name and content.
+ *
+ * @param {Array<{name: string, content: string | null, sha256?: string}>} filesA - Files of the older version
+ * @param {Array<{name: string, content: string | null, sha256?: string}>} filesB - Files of the newer version
+ * @returns {{ added: string[], removed: string[], changed: string[], unchanged: string[] }}
+ */
+export function compareFileSets(filesA, filesB) {
+  const contentA = new Map(filesA.map((f) => [f.name, identityOf(f)]));
+  const contentB = new Map(filesB.map((f) => [f.name, identityOf(f)]));
+  const added = [];
+  const removed = [];
+  const changed = [];
+  const unchanged = [];
+
+  for (const [name, content] of contentB) {
+    if (!contentA.has(name)) {
+      added.push(name);
+    } else if (contentA.get(name) !== content) {
+      changed.push(name);
+    } else {
+      unchanged.push(name);
+    }
+  }
+  for (const name of contentA.keys()) {
+    if (!contentB.has(name)) removed.push(name);
+  }
+
+  const byName = (x, y) => x.localeCompare(y);
+  return {
+    added: added.sort(byName),
+    removed: removed.sort(byName),
+    changed: changed.sort(byName),
+    unchanged: unchanged.sort(byName),
+  };
+}
+
+/**
+ * Git-style notice for a binary file that was added, removed, or changed.
+ *
+ * @param {string} name
+ * @param {object | undefined} fileA - The file in the older version, if present
+ * @param {object | undefined} fileB - The file in the newer version, if present
+ * @returns {string}
+ */
+function formatBinaryDiff(name, fileA, fileB) {
+  const oldLabel = fileA ? `a/${name}` : "/dev/null";
+  const newLabel = fileB ? `b/${name}` : "/dev/null";
+  return `Binary files ${oldLabel} and ${newLabel} differ`;
+}
+
+/**
+ * Formats the full --diff output: a unified diff per file followed by a summary.
+ * Custom files are marked so scaffold churn is easy to tell apart from design changes.
+ *
+ * @param {object} params
+ * @param {string} params.versionA
+ * @param {string} params.versionB
+ * @param {Array<{name: string, content: string | null, encoding?: string}>} params.filesA
+ * @param {Array<{name: string, content: string | null, encoding?: string}>} params.filesB
+ * @param {Set<string>} params.customNames - Files classified as custom in either version
+ * @returns {{ output: string, summary: { added: string[], removed: string[], changed: string[], unchanged: string[] } }}
+ */
+export function formatVersionDiff({ versionA, versionB, filesA, filesB, customNames }) {
+  const summary = compareFileSets(filesA, filesB);
+  const byNameA = new Map(filesA.map((f) => [f.name, f]));
+  const byNameB = new Map(filesB.map((f) => [f.name, f]));
+  const mark = (name) => (customNames.has(name) ? "  [custom]" : "");
+  const sections = [];
+
+  for (const name of [...summary.added, ...summary.removed, ...summary.changed].sort((x, y) => x.localeCompare(y))) {
+    const fileA = byNameA.get(name);
+    const fileB = byNameB.get(name);
+    if (fileA?.encoding === "binary" || fileB?.encoding === "binary") {
+      sections.push(formatBinaryDiff(name, fileA, fileB));
+    } else {
+      sections.push(formatUnifiedDiff(name, fileA ? fileA.content : null, fileB ? fileB.content : null));
+    }
+  }
+
+  const lines = [`Diff ${versionA} → ${versionB}:`];
+  for (const name of summary.added) lines.push(`  A ${name}${mark(name)}`);
+  for (const name of summary.removed) lines.push(`  D ${name}${mark(name)}`);
+  for (const name of summary.changed) lines.push(`  M ${name}${mark(name)}`);
+  const customChanged = [...summary.added, ...summary.removed, ...summary.changed].filter((n) => customNames.has(n));
+  lines.push(
+    `${summary.added.length} added, ${summary.removed.length} removed, ${summary.changed.length} changed (${customChanged.length} custom), ${summary.unchanged.length} unchanged`,
+  );
+
+  const output = [...sections, lines.join("\n")].join("\n\n");
+  return { output, summary };
+}
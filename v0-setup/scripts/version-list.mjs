@@ -1,46 +1,9 @@
-const V0_API_BASE = "https://api.v0.dev/v1";
-
-/**
- * Generic helper that calls buildUrl(slug), falls back to buildUrl(hashId) on 404.
- * Returns { response, resolvedChatId }.
- * Throws on non-404 errors.
- *
- * @param {string} slug
- * @param {string} hashId
- * @param {string} apiKey
- * @param {(id: string) => string} buildUrl
- * @param {typeof fetch} [fetchImpl]
- * @returns {Promise<{ response: Response, resolvedChatId: string }>}
- */
-export async function fetchWithChatIdFallback(slug, hashId, apiKey, buildUrl, fetchImpl = fetch) {
-  if (slug == null) {
-    throw new Error("fetchWithChatIdFallback: slug must be a string");
-  }
-  const headers = { Authorization: `Bearer ${apiKey}` };
-
-  const slugUrl = buildUrl(slug);
-  const slugResponse = await fetchImpl(slugUrl, { headers });
-
-  if (slugResponse.ok) {
-    return { response: slugResponse, resolvedChatId: slug };
-  }
-
-  if (slugResponse.status === 404) {
-    const hashUrl = buildUrl(hashId);
-    const hashResponse = await fetchImpl(hashUrl, { headers });
-
-    if (hashResponse.ok) {
-      return { response: hashResponse, resolvedChatId: hashId };
-    }
-
-    throw new Error(`Request failed with status ${hashResponse.status} for hashId ${hashId}`);
-  }
-
-  throw new Error(`Request failed with status ${slugResponse.status} for slug ${slug}`);
-}
+import { InvalidInputError, NotFoundError } from "./errors.mjs";
+import { createV0Client } from "./v0-client.mjs";
 
 /**
  * Fetches the version list for a chat, handling pagination and slug/hashId fallback.
+ * Shorthand for `createV0Client({ apiKey, fetch }).listVersions(slug, hashId)`.
  *
  * @param {string} slug
  * @param {string} hashId
@@ -48,61 +11,8 @@ export async function fetchWithChatIdFallback(slug, hashId, apiKey, buildUrl, fe
  * @param {typeof fetch} [fetchImpl]
  * @returns {Promise<{ versions: Array<{id: string, status: string, createdAt: string}>, resolvedChatId: string }>}
  */
-export async function fetchVersionList(slug, hashId, apiKey, fetchImpl = fetch) {
-  const allVersions = [];
-  let resolvedChatId = null;
-  let cursor = null;
-  let isFirstPage = true;
-
-  while (true) {
-    const buildUrl = (id) => {
-      const params = new URLSearchParams({ limit: "100" });
-      if (cursor) params.set("cursor", cursor);
-      return `${V0_API_BASE}/chats/${id}/versions?${params}`;
-    };
-
-    if (isFirstPage) {
-      const { response, resolvedChatId: rid } = await fetchWithChatIdFallback(
-        slug,
-        hashId,
-        apiKey,
-        buildUrl,
-        fetchImpl,
-      );
-      resolvedChatId = rid;
-      isFirstPage = false;
-
-      const data = await response.json();
-      if (Array.isArray(data.versions)) {
-        allVersions.push(...data.versions);
-      }
-
-      if (!data.cursor) break;
-      cursor = data.cursor;
-    } else {
-      // Subsequent pages use the resolved chat ID directly
-      const url = buildUrl(resolvedChatId);
-      const headers = { Authorization: `Bearer ${apiKey}` };
-      const response = await fetchImpl(url, { headers });
-
-      if (!response.ok) {
-        throw new Error(`Pagination request failed with status ${response.status}`);
-      }
-
-      const data = await response.json();
-      if (Array.isArray(data.versions)) {
-        allVersions.push(...data.versions);
-      }
-
-      if (!data.cursor) break;
-      cursor = data.cursor;
-    }
-  }
-
-  // Sort newest-first by createdAt
-  allVersions.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-
-  return { versions: allVersions, resolvedChatId };
+export function fetchVersionList(slug, hashId, apiKey, fetchImpl = fetch) {
+  return createV0Client({ apiKey, fetch: fetchImpl }).listVersions(slug, hashId);
 }
 
 /**
@@ -131,3 +41,92 @@ export function selectBestVersion(versions) {
   );
   return fallback;
 }
+
+// "#N" as printed by --list-versions: #1 is the oldest version, #<total> the newest
+function versionAtIndex(versions, index) {
+  const total = versions.length;
+  if (index < 1 || index > total) {
+    const range = total === 0 ? "the chat has no versions" : `the chat has #1–#${total}`;
+    throw new InvalidInputError(`Version #${index} is out of range: ${range}`);
+  }
+  return versions[total - index];
+}
+
+function versionsBefore(versions, dateText) {
+  const date = new Date(dateText);
+  if (dateText === "" || Number.isNaN(date.getTime())) {
+    throw new InvalidInputError(`Invalid date in --version before:${dateText} — use an ISO date such as 2024-06-01`);
+  }
+  return versions.filter((v) => new Date(v.createdAt).getTime() < date.getTime());
+}
+
+/**
+ * Resolves a --version selector against a newest-first version list:
+ *
+ * - `#N` — the index printed by --list-versions (#1 is the oldest)
+ * - `latest` — the newest version, whatever its status
+ * - `latest-completed` — the newest completed version
+ * - `before:<date>` — the newest completed version created before the date
+ * - `^` — the version before `currentVersionId` (the one the existing manifest was fetched at)
+ * - a version id, or an unambiguous prefix of one; ids not in the list are passed through
+ *   so the download reports whether they exist
+ *
+ * @param {string} selector
+ * @param {Array<{id: string, status: string, createdAt: string}>} versions
+ * @param {{ currentVersionId?: string | null }} [options]
+ * @returns {string} The version id
+ */
+export function resolveVersionSelector(selector, versions, { currentVersionId = null } = {}) {
+  const indexMatch = selector.match(/^#(\d+)$/);
+  if (indexMatch) {
+    return versionAtIndex(versions, Number(indexMatch[1])).id;
+  }
+
+  if (selector === "latest") {
+    if (versions.length === 0) throw new NotFoundError("--version latest: the chat has no versions");
+    return versions[0].id;
+  }
+
+  if (selector === "latest-completed") {
+    const completed = versions.find((v) => v.status === "completed");
+    if (!completed) throw new NotFoundError("--version latest-completed: the chat has no completed versions");
+    return completed.id;
+  }
+
+  if (selector.startsWith("before:")) {
+    const dateText = selector.slice("before:".length);
+    const earlier = versionsBefore(versions, dateText);
+    const completed = earlier.find((v) => v.status === "completed");
+    if (!completed) {
+      throw new NotFoundError(
+        `--version ${selector}: no completed version was created before ${dateText} (${earlier.length} earlier versions in total)`,
+      );
+    }
+    return completed.id;
+  }
+
+  if (selector === "^") {
+    if (!currentVersionId) {
+      throw new NotFoundError("--version ^ needs an existing manifest to step back from — fetch the design first");
+    }
+    const position = versions.findIndex((v) => v.id === currentVersionId);
+    if (position === -1) {
+      throw new NotFoundError(
+        `--version ^: the manifest's version ${currentVersionId} is not in the chat's version list`,
+      );
+    }
+    if (position === versions.length - 1) {
+      throw new NotFoundError(`--version ^: ${currentVersionId} is already the oldest version`);
+    }
+    return versions[position + 1].id;
+  }
+
+  if (versions.some((v) => v.id === selector)) return selector;
+  const matches = versions.filter((v) => v.id.startsWith(selector));
+  if (matches.length > 1) {
+    throw new InvalidInputError(
+      `--version ${selector} is ambiguous: it matches ${matches.map((v) => v.id).join(", ")} — use more characters`,
+    );
+  }
+  return matches[0]?.id ?? selector;
+}
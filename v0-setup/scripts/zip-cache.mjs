@@ -0,0 +1,283 @@
+import { createHash } from "node:crypto";
+import {
+  closeSync,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readdirSync,
+  readFileSync,
+  readSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+  writeSync,
+} from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+
+export const DEFAULT_CACHE_MAX_BYTES = 500 * 1024 * 1024;
+export const DEFAULT_CACHE_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Resolves the cache directory: $V0_SETUP_CACHE_DIR, then $XDG_CACHE_HOME/v0-setup,
+ * then ~/.cache/v0-setup.
+ *
+ * @param {Record<string, string | undefined>} [env]
+ * @returns {string}
+ */
+export function resolveCacheDir(env = process.env) {
+  if (env.V0_SETUP_CACHE_DIR) return env.V0_SETUP_CACHE_DIR;
+  return join(env.XDG_CACHE_HOME || join(homedir(), ".cache"), "v0-setup");
+}
+
+// Blobs are stored once per content hash; the index maps chat/version to a blob.
+function blobPath(cacheDir, hash) {
+  return join(cacheDir, "blobs", `${hash}.zip`);
+}
+
+// IDs come from the API; encoding keeps "/" and ".." from forming path segments
+function encodeSegment(id) {
+  return encodeURIComponent(id).replace(/\./g, "%2E");
+}
+
+function indexPath(cacheDir, resolvedChatId, versionId) {
+  return join(cacheDir, "index", encodeSegment(resolvedChatId), `${encodeSegment(versionId)}.json`);
+}
+
+function writeAtomic(filePath, data) {
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  writeFileSync(tmpPath, data);
+  renameSync(tmpPath, filePath);
+}
+
+// Blobs are hashed in fixed-size reads so checking a cache hit never loads the whole archive
+const HASH_CHUNK_BYTES = 1024 * 1024;
+
+function hashFile(filePath) {
+  const hash = createHash("sha256");
+  const buffer = Buffer.alloc(HASH_CHUNK_BYTES);
+  const fd = openSync(filePath, "r");
+  let size = 0;
+  try {
+    let read = readSync(fd, buffer, 0, buffer.length, null);
+    while (read > 0) {
+      hash.update(buffer.subarray(0, read));
+      size += read;
+      read = readSync(fd, buffer, 0, buffer.length, null);
+    }
+  } finally {
+    closeSync(fd);
+  }
+  return { sha256: hash.digest("hex"), size };
+}
+
+/**
+ * Looks up a cached zip for a chat version. The blob is re-hashed from disk on every lookup,
+ * so a corrupted or tampered cache entry is treated as a miss and dropped. The caller streams
+ * the returned path rather than reading the archive into memory.
+ *
+ * @param {string} cacheDir
+ * @param {string} resolvedChatId
+ * @param {string} versionId
+ * @param {number} [now] - Current time in ms, recorded as the entry's last use
+ * @returns {{ path: string, sha256: string, size: number } | null} The cached blob, or null on a miss
+ */
+export function openCachedZip(cacheDir, resolvedChatId, versionId, now = Date.now()) {
+  const entryPath = indexPath(cacheDir, resolvedChatId, versionId);
+  let entry;
+  try {
+    entry = JSON.parse(readFileSync(entryPath, "utf8"));
+  } catch {
+    return null;
+  }
+
+  const blob = blobPath(cacheDir, entry.sha256);
+  let stored;
+  try {
+    stored = hashFile(blob);
+  } catch {
+    rmSync(entryPath, { force: true });
+    return null;
+  }
+  if (stored.sha256 !== entry.sha256) {
+    rmSync(entryPath, { force: true });
+    rmSync(blob, { force: true });
+    return null;
+  }
+
+  writeAtomic(entryPath, JSON.stringify({ ...entry, lastUsedAt: now }));
+  return { path: blob, sha256: entry.sha256, size: stored.size };
+}
+
+/**
+ * Stores a zip for a chat version as it streams past, so the archive is never held in memory.
+ * Chunks go to a temp file under the cache's tmp/ directory while being hashed; commit() moves
+ * it to its blob path and records the index entry, abort() drops it.
+ *
+ * @param {string} cacheDir
+ * @param {string} resolvedChatId
+ * @param {string} versionId
+ * @returns {{ write: (chunk: Uint8Array) => void, commit: (now?: number) => { sha256: string, size: number },
+ *   abort: () => void }}
+ */
+export function createCachedZipWriter(cacheDir, resolvedChatId, versionId) {
+  const tmpDir = join(cacheDir, "tmp");
+  mkdirSync(tmpDir, { recursive: true });
+  const tmpPath = join(tmpDir, `${process.pid}-${encodeSegment(resolvedChatId)}-${encodeSegment(versionId)}.zip`);
+  const fd = openSync(tmpPath, "w");
+  const hash = createHash("sha256");
+  let size = 0;
+  let closed = false;
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    closeSync(fd);
+  };
+
+  return {
+    write(chunk) {
+      writeSync(fd, chunk);
+      hash.update(chunk);
+      size += chunk.byteLength;
+    },
+    commit(now = Date.now()) {
+      close();
+      const digest = hash.digest("hex");
+      const blob = blobPath(cacheDir, digest);
+      const entryPath = indexPath(cacheDir, resolvedChatId, versionId);
+
+      mkdirSync(join(cacheDir, "blobs"), { recursive: true });
+      mkdirSync(join(entryPath, ".."), { recursive: true });
+      if (existsSync(blob)) {
+        rmSync(tmpPath, { force: true });
+      } else {
+        renameSync(tmpPath, blob);
+      }
+      writeAtomic(
+        entryPath,
+        JSON.stringify({
+          chatId: resolvedChatId,
+          versionId,
+          sha256: digest,
+          size,
+          storedAt: now,
+          lastUsedAt: now,
+        }),
+      );
+
+      return { sha256: digest, size };
+    },
+    abort() {
+      close();
+      rmSync(tmpPath, { force: true });
+    },
+  };
+}
+
+// Temp files start with the writer's pid; signal 0 only checks whether that process still exists
+function isWriterGone(fileName) {
+  const pid = Number.parseInt(fileName, 10);
+  if (Number.isNaN(pid)) return true;
+  if (pid === process.pid) return false;
+  try {
+    process.kill(pid, 0);
+    return false;
+  } catch (err) {
+    return err.code === "ESRCH";
+  }
+}
+
+function listIndexEntries(cacheDir) {
+  const indexDir = join(cacheDir, "index");
+  if (!existsSync(indexDir)) return [];
+  const entries = [];
+  for (const chatDir of readdirSync(indexDir)) {
+    for (const file of readdirSync(join(indexDir, chatDir))) {
+      const entryPath = join(indexDir, chatDir, file);
+      try {
+        entries.push({ path: entryPath, ...JSON.parse(readFileSync(entryPath, "utf8")) });
+      } catch {
+        entries.push({ path: entryPath, corrupt: true });
+      }
+    }
+  }
+  return entries;
+}
+
+/**
+ * Prunes the cache. Entries unused for longer than maxAgeMs are dropped first, then
+ * the least recently used entries until the remaining blobs fit in maxBytes.
+ * Blobs no longer referenced by any entry are deleted, and so are temp files left in tmp/
+ * by downloads whose process has exited (killed mid-way, so the writer never aborted).
+ *
+ * @param {string} cacheDir
+ * @param {{ maxBytes?: number, maxAgeMs?: number, now?: number }} [limits]
+ * @returns {{ removedEntries: number, removedBlobs: number, freedBytes: number, remainingBytes: number }}
+ */
+export function pruneZipCache(cacheDir, limits = {}) {
+  const { maxBytes = DEFAULT_CACHE_MAX_BYTES, maxAgeMs = DEFAULT_CACHE_MAX_AGE_MS, now = Date.now() } = limits;
+  const entries = listIndexEntries(cacheDir);
+  const keep = [];
+  let removedEntries = 0;
+
+  for (const entry of entries) {
+    const lastUsed = entry.lastUsedAt ?? entry.storedAt ?? 0;
+    if (entry.corrupt || now - lastUsed > maxAgeMs || !existsSync(blobPath(cacheDir, entry.sha256))) {
+      rmSync(entry.path, { force: true });
+      removedEntries++;
+    } else {
+      keep.push(entry);
+    }
+  }
+
+  // Most recently used first; evict from the tail until the unique blobs fit
+  keep.sort((a, b) => (b.lastUsedAt ?? b.storedAt) - (a.lastUsedAt ?? a.storedAt));
+  const blobSizes = new Map();
+  for (const entry of keep) blobSizes.set(entry.sha256, statSync(blobPath(cacheDir, entry.sha256)).size);
+  const totalOf = (list) => [...new Set(list.map((e) => e.sha256))].reduce((sum, h) => sum + blobSizes.get(h), 0);
+  while (keep.length > 0 && totalOf(keep) > maxBytes) {
+    const evicted = keep.pop();
+    rmSync(evicted.path, { force: true });
+    removedEntries++;
+  }
+
+  const referenced = new Set(keep.map((e) => e.sha256));
+  const blobsDir = join(cacheDir, "blobs");
+  let removedBlobs = 0;
+  let freedBytes = 0;
+  if (existsSync(blobsDir)) {
+    for (const file of readdirSync(blobsDir)) {
+      if (referenced.has(file.replace(/\.zip$/, ""))) continue;
+      const filePath = join(blobsDir, file);
+      freedBytes += statSync(filePath).size;
+      rmSync(filePath, { force: true });
+      removedBlobs++;
+    }
+  }
+
+  const tmpDir = join(cacheDir, "tmp");
+  if (existsSync(tmpDir)) {
+    for (const file of readdirSync(tmpDir)) {
+      if (!isWriterGone(file)) continue;
+      const filePath = join(tmpDir, file);
+      freedBytes += statSync(filePath).size;
+      rmSync(filePath, { force: true });
+    }
+  }
+
+  return { removedEntries, removedBlobs, freedBytes, remainingBytes: totalOf(keep) };
+}
+
+/**
+ * Formats a byte count for cache reporting.
+ *
+ * @param {number} bytes
+ * @returns {string}
+ */
+export function formatBytes(bytes) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
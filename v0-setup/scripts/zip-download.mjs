@@ -1,11 +1,30 @@
-import { mkdirSync, writeFileSync } from "node:fs";
-import { dirname, resolve } from "node:path";
-import { unzipSync } from "fflate";
+import { createReadStream, mkdirSync, readdirSync, renameSync, rmSync, writeFileSync } from "node:fs";
+import { dirname, resolve, sep } from "node:path";
+import { Unzip, UnzipInflate, unzipSync } from "fflate";
+import { ZipSafetyError } from "./errors.mjs";
+import { describeFile } from "./file-metadata.mjs";
+import { createV0Client } from "./v0-client.mjs";
+import { listFilesRecursive } from "./verify.mjs";
+import { createCachedZipWriter, openCachedZip } from "./zip-cache.mjs";
 
-const V0_API_BASE = "https://api.v0.dev/v1";
+/**
+ * Resource limits applied before an archive is inflated. Sizes come from the zip's
+ * central directory, which also bounds how much fflate will allocate per entry.
+ */
+export const DEFAULT_ZIP_LIMITS = {
+  maxTotalBytes: 200 * 1024 * 1024,
+  maxEntryBytes: 50 * 1024 * 1024,
+  maxEntries: 5000,
+  maxCompressionRatio: 100,
+};
+
+// Small, highly repetitive files legitimately compress beyond any sane ratio limit,
+// so the ratio check only applies to entries larger than this.
+const COMPRESSION_RATIO_MIN_BYTES = 1024 * 1024;
 
 /**
  * Downloads a zip archive for a specific chat version from the v0 API.
+ * Shorthand for `createV0Client({ apiKey, fetch }).downloadVersion(resolvedChatId, versionId)`.
  *
  * @param {string} resolvedChatId - The chat ID
  * @param {string} versionId - The version ID
@@ -13,67 +32,366 @@ const V0_API_BASE = "https://api.v0.dev/v1";
  * @param {typeof fetch} [fetchImpl] - Optional fetch implementation (defaults to global fetch)
  * @returns {Promise<ArrayBuffer>} The raw zip data as an ArrayBuffer
  */
-export async function downloadVersionZip(resolvedChatId, versionId, apiKey, fetchImpl = fetch) {
-  const url = `${V0_API_BASE}/chats/${resolvedChatId}/versions/${versionId}/download`;
-  const response = await fetchImpl(url, {
-    headers: {
-      Accept: "application/zip",
-      Authorization: `Bearer ${apiKey}`,
+export function downloadVersionZip(resolvedChatId, versionId, apiKey, fetchImpl = fetch) {
+  return createV0Client({ apiKey, fetch: fetchImpl }).downloadVersion(resolvedChatId, versionId);
+}
+
+// Per-entry checks that only need the sizes a zip header declares
+function checkDeclaredSizes(entry, { maxEntryBytes, maxCompressionRatio }) {
+  if (entry.originalSize > maxEntryBytes) {
+    throw new ZipSafetyError(
+      `Zip limit exceeded: "${entry.name}" is ${entry.originalSize} bytes uncompressed (limit ${maxEntryBytes})`,
+    );
+  }
+  const ratio = entry.originalSize / Math.max(entry.size, 1);
+  if (entry.originalSize > COMPRESSION_RATIO_MIN_BYTES && ratio > maxCompressionRatio) {
+    throw new ZipSafetyError(
+      `Zip limit exceeded: "${entry.name}" has compression ratio ${Math.round(ratio)}:1 (limit ${maxCompressionRatio}:1)`,
+    );
+  }
+}
+
+function checkInsideTarget(resolvedTarget, name) {
+  if (!resolve(resolvedTarget, name).startsWith(resolvedTarget + sep)) {
+    throw new ZipSafetyError(`Zip Slip detected: "${name}" resolves outside target directory`, {
+      details: { entry: name },
+    });
+  }
+}
+
+/**
+ * Checks every entry of a complete archive against the resource limits using the central
+ * directory alone, without inflating anything.
+ *
+ * @param {Uint8Array} data
+ * @param {Partial<typeof DEFAULT_ZIP_LIMITS>} limits
+ * @returns {string[]} Entry names, in archive order
+ */
+function checkZipLimits(data, limits) {
+  const merged = { ...DEFAULT_ZIP_LIMITS, ...limits };
+  const entries = [];
+
+  // fflate reports each central directory entry to the filter before inflating anything;
+  // returning false collects them without inflating a byte.
+  unzipSync(data, {
+    filter: (file) => {
+      entries.push(file);
+      return false;
     },
   });
 
-  if (!response.ok) {
-    const status = response.status;
-    if (status === 401) {
-      throw new Error(`Unauthorized: failed to download zip (status ${status})`);
-    }
-    if (status === 404) {
-      throw new Error(`Not found: version or chat not found (status ${status})`);
+  if (entries.length > merged.maxEntries) {
+    throw new ZipSafetyError(`Zip limit exceeded: archive has ${entries.length} entries (limit ${merged.maxEntries})`);
+  }
+  let totalBytes = 0;
+  for (const entry of entries) {
+    checkDeclaredSizes(entry, merged);
+    totalBytes += entry.originalSize;
+    if (totalBytes > merged.maxTotalBytes) {
+      throw new ZipSafetyError(`Zip limit exceeded: archive expands to more than ${merged.maxTotalBytes} bytes`);
     }
-    throw new Error(`Failed to download zip: HTTP ${status} ${response.statusText}`);
   }
+  return entries.map((entry) => entry.name);
+}
 
-  return response.arrayBuffer();
+/**
+ * Unzips an archive after checking every entry against the resource limits.
+ * Throws before any entry is inflated if a limit is exceeded.
+ *
+ * @param {ArrayBuffer} zipBuffer - The zip data
+ * @param {Partial<typeof DEFAULT_ZIP_LIMITS>} [limits] - Overrides for DEFAULT_ZIP_LIMITS
+ * @returns {Record<string, Uint8Array>} Entry name to inflated data
+ */
+export function unzipWithLimits(zipBuffer, limits = {}) {
+  const data = new Uint8Array(zipBuffer);
+  checkZipLimits(data, limits);
+  return unzipSync(data);
 }
 
 /**
- * Extracts a zip buffer to the given target directory.
+ * Unzips a zip buffer in memory without touching the filesystem.
  *
  * @param {ArrayBuffer} zipBuffer - The zip data
+ * @param {Partial<typeof DEFAULT_ZIP_LIMITS>} [limits] - Overrides for DEFAULT_ZIP_LIMITS
+ * @returns {Array<{name: string, size: number, sha256: string, mimeType: string, encoding: string, content: string | null}>}
+ *   Array of file info, in archive order. Binary files have `content: null`.
+ */
+export function unzipInMemory(zipBuffer, limits = {}) {
+  const unzipped = unzipWithLimits(zipBuffer, limits);
+  return Object.entries(unzipped)
+    .filter(([name]) => !name.endsWith("/"))
+    .map(([name, data]) => ({ name, ...describeFile(name, data) }));
+}
+
+function concatBytes(parts, length = parts.reduce((sum, part) => sum + part.length, 0)) {
+  if (parts.length === 1) return parts[0];
+  const data = new Uint8Array(length);
+  let offset = 0;
+  for (const part of parts) {
+    data.set(part, offset);
+    offset += part.length;
+  }
+  return data;
+}
+
+// The end-of-central-directory record closes every zip: 22 bytes plus a comment of up to 64 KB
+const EOCD_MIN_BYTES = 22;
+const EOCD_SEARCH_BYTES = EOCD_MIN_BYTES + 0xffff;
+
+function hasEndOfCentralDirectory(tail) {
+  for (let i = tail.length - EOCD_MIN_BYTES; i >= 0; i--) {
+    if (tail[i] === 0x50 && tail[i + 1] === 0x4b && tail[i + 2] === 0x05 && tail[i + 3] === 0x06) return true;
+  }
+  return false;
+}
+
+// Entries are staged as "<path>.<pid>.partial"; a process killed mid-extraction leaves them behind
+const PARTIAL_FILE = /\.(\d+)\.partial$/;
+
+function isProcessGone(pid) {
+  if (pid === process.pid) return false;
+  try {
+    process.kill(pid, 0);
+    return false;
+  } catch (err) {
+    return err.code === "ESRCH";
+  }
+}
+
+// Only runs when the injected fs can list directories
+function removeLeftoverPartials(targetDir, fs) {
+  if (!fs.readdirSync) return;
+  let names;
+  try {
+    names = listFilesRecursive(targetDir, fs.readdirSync);
+  } catch (err) {
+    if (err?.code === "ENOENT") return;
+    throw err;
+  }
+  for (const name of names) {
+    const match = PARTIAL_FILE.exec(name);
+    if (match && isProcessGone(Number(match[1]))) fs.rmSync(resolve(targetDir, name), { force: true });
+  }
+}
+
+/**
+ * Extracts a zip archive to the given target directory as it streams in. Each entry is
+ * inflated and written as soon as it completes, so memory holds one entry at a time rather
+ * than the whole archive.
+ *
+ * A streamed archive can't be checked up front — its central directory comes last — so
+ * entry names and sizes are checked as each entry arrives, and entries are written next to
+ * their final path and renamed into place only once the whole archive has passed. A Zip
+ * Slip entry, an exceeded limit, or a truncated download removes everything written so far
+ * and leaves the target as it was. Compression ratios are only checked for entries whose
+ * header declares their sizes; the others are bounded by the size limits. Partial files an
+ * earlier, killed extraction left in the target are removed first.
+ *
+ * @param {AsyncIterable<Uint8Array> | Iterable<Uint8Array>} chunks - The zip data
  * @param {string} targetDir - The directory to extract files into
- * @returns {Promise<Array<{name: string, size: number, content: string}>>} Array of extracted file info
+ * @param {object} [options]
+ * @param {(name: string) => boolean} [options.select] - Return false to skip an entry entirely (it is still
+ *   returned, with `selected: false` and `written: false`)
+ * @param {(name: string, data: Uint8Array) => boolean} [options.shouldWrite] - Return false to leave a selected
+ *   entry untouched on disk (it is still returned, with `written: false`)
+ * @param {Partial<typeof DEFAULT_ZIP_LIMITS>} [options.limits] - Overrides for DEFAULT_ZIP_LIMITS
+ * @param {(progress: { bytes: number, totalBytes: number | null, entries: number }) => void} [options.onProgress] -
+ *   Called after every chunk and every completed entry with the zip bytes read and entries extracted so far
+ * @param {number | null} [options.totalBytes] - The archive's size, when known, reported to onProgress
+ * @param {{ mkdirSync: typeof mkdirSync, writeFileSync: typeof writeFileSync, renameSync: typeof renameSync,
+ *   rmSync: typeof rmSync, readdirSync?: typeof readdirSync }} [options.fs] - Defaults to node:fs; without
+ *   readdirSync, leftover partial files are not looked for
+ * @returns {Promise<Array<{name: string, size: number, sha256: string, mimeType: string, encoding: string,
+ *   content: string | null, selected: boolean, written: boolean}>>} Array of extracted file info, in archive
+ *   order. Binary files have `content: null`.
  */
-export async function extractZipToDirectory(zipBuffer, targetDir) {
-  const uint8 = new Uint8Array(zipBuffer);
-  const unzipped = unzipSync(uint8);
+export async function extractZipStream(chunks, targetDir, options = {}) {
+  const {
+    select,
+    shouldWrite,
+    onProgress,
+    totalBytes = null,
+    fs = { mkdirSync, writeFileSync, renameSync, rmSync, readdirSync },
+  } = options;
+  const limits = { ...DEFAULT_ZIP_LIMITS, ...options.limits };
+  const resolvedTarget = resolve(targetDir);
+  const progress = { bytes: 0, totalBytes, entries: 0 };
   const files = [];
+  const staged = [];
+  const createdDirs = [];
+  let tail = new Uint8Array(0);
+  let entryCount = 0;
+  let inflatedTotal = 0;
+  let pendingEntry = null;
+  let failure = null;
+  removeLeftoverPartials(targetDir, fs);
 
-  const resolvedTarget = resolve(targetDir);
-  for (const [name, data] of Object.entries(unzipped)) {
+  // Throwing inside an fflate callback corrupts the stream, so the first failure is recorded,
+  // the entry stopped, and the error rethrown once push() returns
+  const fail = (err, file) => {
+    failure ??= err;
+    file?.terminate();
+  };
+
+  const finishEntry = (name, data) => {
+    if (name.endsWith("/")) return;
     const filePath = resolve(targetDir, name);
-    if (!filePath.startsWith(resolvedTarget)) {
-      throw new Error(`Zip Slip detected: "${name}" resolves outside target directory`);
+    const selected = select ? select(name) : true;
+    const written = selected && (shouldWrite ? shouldWrite(name, data) : true);
+    if (written) {
+      // recursive mkdirSync returns the first directory it created, which a failure removes again
+      const created = fs.mkdirSync(dirname(filePath), { recursive: true });
+      if (created) createdDirs.push(created);
+      const partialPath = `${filePath}.${process.pid}.partial`;
+      fs.writeFileSync(partialPath, data);
+      staged.push([partialPath, filePath]);
+    }
+    files.push({ name, ...describeFile(name, data), selected, written });
+    progress.entries++;
+    onProgress?.({ ...progress });
+  };
+
+  const unzipper = new Unzip((file) => {
+    if (failure) return file.terminate();
+    try {
+      entryCount++;
+      if (entryCount > limits.maxEntries) {
+        throw new ZipSafetyError(`Zip limit exceeded: archive has more than ${limits.maxEntries} entries`);
+      }
+      checkInsideTarget(resolvedTarget, file.name);
+      if (file.originalSize !== undefined) checkDeclaredSizes(file, limits);
+    } catch (err) {
+      return fail(err, file);
+    }
+
+    pendingEntry = file.name;
+    const parts = [];
+    let inflated = 0;
+    file.ondata = (err, data, final) => {
+      if (failure) return;
+      if (err) return fail(err, file);
+      inflated += data.length;
+      inflatedTotal += data.length;
+      if (inflated > limits.maxEntryBytes) {
+        return fail(
+          new ZipSafetyError(`Zip limit exceeded: "${file.name}" expands to more than ${limits.maxEntryBytes} bytes`),
+          file,
+        );
+      }
+      if (inflatedTotal > limits.maxTotalBytes) {
+        return fail(
+          new ZipSafetyError(`Zip limit exceeded: archive expands to more than ${limits.maxTotalBytes} bytes`),
+          file,
+        );
+      }
+      parts.push(data);
+      if (!final) return;
+      pendingEntry = null;
+      try {
+        finishEntry(file.name, concatBytes(parts, inflated));
+      } catch (finishErr) {
+        fail(finishErr);
+      }
+    };
+    file.start();
+  });
+  unzipper.register(UnzipInflate);
+
+  try {
+    for await (const chunk of chunks) {
+      const data = chunk instanceof Uint8Array ? chunk : new Uint8Array(chunk);
+      tail = concatBytes([tail, data]).slice(-EOCD_SEARCH_BYTES);
+      unzipper.push(data);
+      if (failure) throw failure;
+      progress.bytes += data.length;
+      onProgress?.({ ...progress });
+    }
+    // fflate rejects an archive that ends mid-entry; name the entry instead
+    let endError = null;
+    try {
+      unzipper.push(new Uint8Array(0), true);
+    } catch (err) {
+      endError = err;
+    }
+    if (failure) throw failure;
+    if (pendingEntry !== null) {
+      throw new Error(`Zip archive ended before "${pendingEntry}" was complete`);
+    }
+    if (endError) throw endError;
+    // Without the closing record the download stopped early, or it was never a zip
+    if (!hasEndOfCentralDirectory(tail)) {
+      throw new Error("Invalid zip data: the archive is truncated or not a zip");
     }
-    mkdirSync(dirname(filePath), { recursive: true });
-    writeFileSync(filePath, data);
-    const content = new TextDecoder().decode(data);
-    files.push({ name, size: data.byteLength, content });
+
+    for (const [partialPath, filePath] of staged) fs.renameSync(partialPath, filePath);
+    return files;
+  } catch (err) {
+    for (const [partialPath] of staged) fs.rmSync(partialPath, { force: true });
+    for (const dir of createdDirs.reverse()) fs.rmSync(dir, { recursive: true, force: true });
+    throw err;
   }
+}
 
-  return files;
+/**
+ * Extracts a zip buffer to the given target directory. The whole archive is available, so
+ * every entry is checked against the limits and the target before the first write.
+ *
+ * @param {ArrayBuffer} zipBuffer - The zip data
+ * @param {string} targetDir - The directory to extract files into
+ * @param {object} [options] - Passed through to extractZipStream (select, shouldWrite, limits, onProgress, fs)
+ * @returns {Promise<Array<{name: string, size: number, sha256: string, mimeType: string, encoding: string,
+ *   content: string | null, selected: boolean, written: boolean}>>} Array of extracted file info. Binary files
+ *   have `content: null`.
+ */
+export async function extractZipToDirectory(zipBuffer, targetDir, options = {}) {
+  const data = new Uint8Array(zipBuffer);
+  const resolvedTarget = resolve(targetDir);
+  for (const name of checkZipLimits(data, options.limits)) checkInsideTarget(resolvedTarget, name);
+  return extractZipStream([data], targetDir, { ...options, totalBytes: data.byteLength });
 }
 
 /**
- * Downloads and extracts a zip archive for a specific chat version.
+ * Downloads and extracts a zip archive for a specific chat version, streaming the download
+ * into extractZipStream. A cache hit streams the cached zip from disk instead; on a miss the
+ * compressed bytes are written to the cache as they stream past and committed once extraction
+ * succeeds. Only pass a cache for completed versions — a version still generating can change.
  *
+ * @param {import("./v0-client.d.mts").V0Client} client
  * @param {string} resolvedChatId - The chat ID
  * @param {string} versionId - The version ID
- * @param {string} apiKey - The API key for authorization
  * @param {string} targetDir - The directory to extract files into
- * @param {typeof fetch} [fetchImpl] - Optional fetch implementation (defaults to global fetch)
- * @returns {Promise<Array<{name: string, size: number, content: string}>>} Array of extracted file info
+ * @param {object} [options] - Extraction options, passed through to extractZipStream
+ * @param {{ dir: string, onResult?: (result: { hit: boolean, size: number }) => void } | null} [options.cache] -
+ *   Zip cache to read from and fill
+ * @returns {Promise<Array<{name: string, size: number, sha256: string, mimeType: string, encoding: string,
+ *   content: string | null, selected: boolean, written: boolean}>>} Array of extracted file info
  */
-export async function downloadAndExtract(resolvedChatId, versionId, apiKey, targetDir, fetchImpl = fetch) {
-  const zipBuffer = await downloadVersionZip(resolvedChatId, versionId, apiKey, fetchImpl);
-  return extractZipToDirectory(zipBuffer, targetDir);
+export async function downloadAndExtract(client, resolvedChatId, versionId, targetDir, options = {}) {
+  const { cache } = options;
+  const cached = cache ? openCachedZip(cache.dir, resolvedChatId, versionId) : null;
+  if (cached) {
+    cache.onResult?.({ hit: true, size: cached.size });
+    return extractZipStream(createReadStream(cached.path), targetDir, { ...options, totalBytes: cached.size });
+  }
+
+  const { body, size } = await client.streamVersion(resolvedChatId, versionId);
+  if (!cache) return extractZipStream(body, targetDir, { ...options, totalBytes: size });
+
+  const writer = createCachedZipWriter(cache.dir, resolvedChatId, versionId);
+  async function* writeToCache() {
+    for await (const chunk of body) {
+      writer.write(chunk);
+      yield chunk;
+    }
+  }
+  let files;
+  try {
+    files = await extractZipStream(writeToCache(), targetDir, { ...options, totalBytes: size });
+  } catch (error) {
+    writer.abort();
+    throw error;
+  }
+  const stored = writer.commit();
+  cache.onResult?.({ hit: false, size: stored.size });
+  return files;
 }